@@ -12,6 +12,9 @@ const app = express();
 
 // Middlewares básicos
 app.use(cors());
+
+// webhooks validam a assinatura sobre o corpo cru: precisa vir antes do express.json
+app.use('/webhooks', express.raw({ type: '*/*' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
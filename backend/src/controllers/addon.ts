@@ -0,0 +1,438 @@
+// src/controllers/addon.ts
+// Catálogo de adicionais por filial e itens das reservas
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess } from '../services/branchScope';
+import {
+  ADDON_PRICING_MODES,
+  AddonPricingMode,
+  applyAddons,
+  resolveAddonItems,
+  saveReservationItems,
+  withoutAddons,
+} from '../services/addons';
+import { PriceQuote } from '../services/pricing';
+import { recomputeReservationStatus } from '../services/reservationPayments';
+
+type SqlParam = string | number | boolean | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[addons:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type AddonInput = {
+  name?: string;
+  description?: string | null;
+  pricing_mode?: AddonPricingMode;
+  unit_price?: number;
+  active?: boolean;
+};
+
+const ADDON_COLUMNS = `
+  id, branch_id, name, description, pricing_mode,
+  unit_price::float8 AS unit_price, active, created_at, updated_at
+`;
+
+// adicionais só podem mudar enquanto a reserva está em aberto
+const EDITABLE_STATUSES = ['HOLD', 'PENDING', 'CONFIRMED'];
+
+/**
+ * Valida os campos enviados (no PATCH só os presentes). Retorna o código de erro ou null.
+ */
+function validateAddonInput(input: AddonInput, partial: boolean): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'invalid_name';
+  }
+  if (!partial || input.pricing_mode !== undefined) {
+    if (!ADDON_PRICING_MODES.includes(input.pricing_mode)) return 'invalid_pricing_mode';
+  }
+  if (!partial || input.unit_price !== undefined) {
+    const price = Number(input.unit_price);
+    if (input.unit_price == null || !Number.isFinite(price) || price < 0) return 'invalid_unit_price';
+  }
+  if (input.active !== undefined && typeof input.active !== 'boolean') return 'invalid_active';
+  return null;
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Addon:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         branch_id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           example: Buffet completo
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         pricing_mode:
+ *           type: string
+ *           enum: [PER_UNIT, PER_GUEST]
+ *           description: PER_GUEST multiplica unit_price pelo adults_count da reserva
+ *         unit_price:
+ *           type: number
+ *         active:
+ *           type: boolean
+ */
+
+/**
+ * @openapi
+ * /branches/{id}/addons:
+ *   get:
+ *     summary: Catálogo de adicionais da filial
+ *     description: Clientes só veem os ativos.
+ *     tags: [Add-ons]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Lista de adicionais
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Addon'
+ */
+export const listBranchAddons = async (req: Request, res: Response) => {
+  try {
+    const onlyActive = req.user?.role === 'CUSTOMER' || req.query.only_active === 'true';
+
+    const { rows } = await pool.query(
+      `
+        SELECT ${ADDON_COLUMNS}
+        FROM addons
+        WHERE branch_id = $1
+          AND ($2::boolean = FALSE OR active = TRUE)
+        ORDER BY name ASC
+      `,
+      [req.params.id, onlyActive],
+    );
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listBranchAddons');
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/addons:
+ *   post:
+ *     summary: Cadastra um adicional no catálogo da filial
+ *     tags: [Add-ons]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, pricing_mode, unit_price]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               pricing_mode:
+ *                 type: string
+ *                 enum: [PER_UNIT, PER_GUEST]
+ *               unit_price:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Adicional criado
+ *       400:
+ *         description: Dados inválidos
+ *       404:
+ *         description: Filial não encontrada
+ */
+export const createAddon = async (req: Request, res: Response) => {
+  try {
+    const branchId = req.params.id;
+    const input = req.body as AddonInput;
+
+    const branch = await pool.query('SELECT id FROM branches WHERE id = $1', [branchId]);
+    if (!branch.rows[0]) {
+      return res.status(404).json({ error: 'branch_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, branchId))) return;
+
+    const validationError = validateAddonInput(input, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { rows } = await pool.query(
+      `
+        INSERT INTO addons (branch_id, name, description, pricing_mode, unit_price, active)
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6, TRUE))
+        RETURNING ${ADDON_COLUMNS}
+      `,
+      [
+        branchId,
+        input.name.trim(),
+        input.description ?? null,
+        input.pricing_mode,
+        Number(input.unit_price),
+        input.active ?? null,
+      ],
+    );
+    return res.status(201).json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'createAddon');
+  }
+};
+
+/**
+ * @openapi
+ * /addons/{addonId}:
+ *   patch:
+ *     summary: Atualiza um adicional
+ *     description: Reservas já feitas mantêm o nome e o preço da compra.
+ *     tags: [Add-ons]
+ *     parameters:
+ *       - in: path
+ *         name: addonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Addon'
+ *     responses:
+ *       200:
+ *         description: Adicional atualizado
+ *       400:
+ *         description: Dados inválidos
+ *       404:
+ *         description: Adicional não encontrado
+ */
+export const updateAddon = async (req: Request, res: Response) => {
+  try {
+    const { addonId } = req.params;
+    const input = req.body as AddonInput;
+
+    const existing = await pool.query('SELECT branch_id FROM addons WHERE id = $1', [addonId]);
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'addon_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    const validationError = validateAddonInput(input, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const fields: string[] = [];
+    const params: SqlParam[] = [];
+    let paramIndex = 1;
+
+    const columns: [keyof AddonInput, SqlParam | undefined][] = [
+      ['name', input.name?.trim()],
+      ['description', input.description],
+      ['pricing_mode', input.pricing_mode],
+      ['unit_price', input.unit_price === undefined ? undefined : Number(input.unit_price)],
+      ['active', input.active],
+    ];
+
+    for (const [column, value] of columns) {
+      if (value === undefined) continue;
+      fields.push(`${column} = $${paramIndex++}`);
+      params.push(value);
+    }
+
+    if (fields.length === 0) {
+      return res.status(400).json({ error: 'no_valid_fields' });
+    }
+
+    fields.push('updated_at = NOW()');
+    params.push(addonId);
+
+    const { rows } = await pool.query(
+      `UPDATE addons SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING ${ADDON_COLUMNS}`,
+      params,
+    );
+    return res.json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'updateAddon');
+  }
+};
+
+/**
+ * @openapi
+ * /addons/{addonId}:
+ *   delete:
+ *     summary: Remove um adicional do catálogo
+ *     description: Itens já vendidos continuam nas reservas (com addon_id nulo).
+ *     tags: [Add-ons]
+ *     parameters:
+ *       - in: path
+ *         name: addonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removido
+ *       404:
+ *         description: Adicional não encontrado
+ */
+export const removeAddon = async (req: Request, res: Response) => {
+  try {
+    const { addonId } = req.params;
+
+    const existing = await pool.query('SELECT branch_id FROM addons WHERE id = $1', [addonId]);
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'addon_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    await pool.query('DELETE FROM addons WHERE id = $1', [addonId]);
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeAddon');
+  }
+};
+
+/**
+ * @openapi
+ * /reservations/{reservationId}/items:
+ *   put:
+ *     summary: Substitui os adicionais da reserva
+ *     description: >
+ *       Recalcula total_amount (aluguel + adicionais) e o price_breakdown.
+ *       Só para reservas HOLD, PENDING ou CONFIRMED.
+ *     tags: [Add-ons]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [items]
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     addon_id:
+ *                       type: string
+ *                       format: uuid
+ *                     quantity:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: Reserva com os novos itens
+ *       400:
+ *         description: Itens inválidos
+ *       404:
+ *         description: Reserva não encontrada
+ *       409:
+ *         description: Reserva já encerrada
+ */
+export const replaceReservationItems = async (req: Request, res: Response) => {
+  try {
+    const { reservationId } = req.params;
+    const { items } = req.body as { items?: unknown };
+
+    const existing = await pool.query(
+      'SELECT branch_id, status, adults_count, price_breakdown FROM reservations WHERE id = $1',
+      [reservationId],
+    );
+    const reservation = existing.rows[0];
+    if (!reservation) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, reservation.branch_id))) return;
+
+    if (!EDITABLE_STATUSES.includes(reservation.status)) {
+      return res.status(409).json({ error: 'reservation_not_editable', status: reservation.status });
+    }
+    if (!reservation.price_breakdown) {
+      return res.status(409).json({ error: 'reservation_without_price_breakdown' });
+    }
+    if (items === undefined) {
+      return res.status(400).json({ error: 'invalid_items' });
+    }
+
+    const resolved = await resolveAddonItems(reservation.branch_id, items, reservation.adults_count);
+    if (resolved.error) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const quote = applyAddons(withoutAddons(reservation.price_breakdown as PriceQuote), resolved.items);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows } = await client.query(
+        `
+          UPDATE reservations
+          SET total_amount = $2,
+              price_breakdown = $3,
+              updated_at = NOW()
+          WHERE id = $1
+            AND status = ANY($4::text[])
+          RETURNING id
+        `,
+        [reservationId, quote.total_amount, JSON.stringify(quote), EDITABLE_STATUSES],
+      );
+      if (!rows[0]) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'reservation_not_editable' });
+      }
+
+      await saveReservationItems(client, reservationId, resolved.items);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    // o novo total pode já estar quitado
+    await recomputeReservationStatus(reservationId, req.user?.sub);
+
+    const refreshed = await pool.query('SELECT * FROM reservations WHERE id = $1', [reservationId]);
+    return res.json({ ...refreshed.rows[0], items: resolved.items });
+  } catch (err) {
+    return sendInternalError(res, err, 'replaceReservationItems');
+  }
+};
+
+export {};
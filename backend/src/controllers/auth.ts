@@ -0,0 +1,350 @@
+// src/controllers/auth.ts
+import { Request, Response } from 'express';
+import { isUniqueViolation, pool } from '../db';
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from '../services/password';
+import { hashRefreshToken, issueTokens, SessionUser } from '../services/authTokens';
+import { isValidEmail } from '../services/emailAddress';
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[auth:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type UserRow = SessionUser & { name: string; customer_id: string | null };
+
+// dados do usuário devolvidos junto com os tokens
+function publicUser(user: UserRow) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    customer_id: user.customer_id ?? null,
+  };
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     AuthTokens:
+ *       type: object
+ *       properties:
+ *         access_token:
+ *           type: string
+ *         refresh_token:
+ *           type: string
+ *         token_type:
+ *           type: string
+ *           example: 'Bearer'
+ *         expires_in:
+ *           type: string
+ *           example: '8h'
+ *         user:
+ *           $ref: '#/components/schemas/User'
+ */
+
+/**
+ * @openapi
+ * /auth/login:
+ *   post:
+ *     summary: Autentica um usuário e emite os tokens
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, password]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login efetuado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: E-mail ou senha ausentes
+ *       401:
+ *         description: Credenciais inválidas
+ */
+export const login = async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body as {
+      email?: string;
+      password?: string;
+    };
+
+    if (!email || typeof email !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'email_and_password_required' });
+    }
+
+    const { rows } = await pool.query(
+      `
+        SELECT id, name, email, role, customer_id, active, password_hash
+        FROM users
+        WHERE email = $1
+      `,
+      [email.trim().toLowerCase()],
+    );
+    const user = rows[0];
+
+    // mesma resposta para e-mail inexistente e senha errada
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+      return res.status(401).json({ error: 'invalid_credentials' });
+    }
+    if (!user.active) {
+      return res.status(403).json({ error: 'user_inactive' });
+    }
+
+    await pool.query(
+      'UPDATE users SET last_login_at = NOW() WHERE id = $1',
+      [user.id],
+    );
+
+    const tokens = await issueTokens(user);
+    return res.json({ ...tokens, user: publicUser(user) });
+  } catch (err) {
+    return sendInternalError(res, err, 'login');
+  }
+};
+
+/**
+ * @openapi
+ * /auth/signup:
+ *   post:
+ *     summary: Cadastro de cliente pelo portal
+ *     description: Cria o cliente e a conta CUSTOMER vinculada, já devolvendo os tokens.
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, email, password]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               phone:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       201:
+ *         description: Cliente cadastrado e autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Dados inválidos
+ *       409:
+ *         description: E-mail já cadastrado
+ */
+export const signup = async (req: Request, res: Response) => {
+  const { name, email, phone, password } = req.body as {
+    name?: string;
+    email?: string;
+    phone?: string | null;
+    password?: string;
+  };
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'invalid_name' });
+  }
+  if (typeof email !== 'string' || !isValidEmail(email.trim())) {
+    return res.status(400).json({ error: 'invalid_email' });
+  }
+  if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: 'invalid_password', min_length: MIN_PASSWORD_LENGTH });
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const client = await pool.connect();
+
+  try {
+    // clientes cadastrados pelo balcão ganham acesso via POST /customers com senha,
+    // então aqui o e-mail precisa ser inédito nas duas tabelas
+    const emailCheck = await client.query(
+      `
+        SELECT 1 FROM customers WHERE lower(email) = $1
+        UNION ALL
+        SELECT 1 FROM users WHERE email = $1
+        LIMIT 1
+      `,
+      [normalizedEmail],
+    );
+    if (emailCheck.rowCount > 0) {
+      return res.status(409).json({ error: 'email_already_in_use' });
+    }
+
+    await client.query('BEGIN');
+
+    const customer = await client.query(
+      `
+        INSERT INTO customers (name, email, phone)
+        VALUES ($1, $2, $3)
+        RETURNING id, name, email, phone, created_at, updated_at
+      `,
+      [name.trim(), normalizedEmail, phone ?? null],
+    );
+
+    const user = await client.query(
+      `
+        INSERT INTO users (name, email, password_hash, role, customer_id, last_login_at)
+        VALUES ($1, $2, $3, 'CUSTOMER', $4, NOW())
+        RETURNING id, name, email, role, customer_id
+      `,
+      [name.trim(), normalizedEmail, await hashPassword(password), customer.rows[0].id],
+    );
+
+    await client.query('COMMIT');
+
+    const tokens = await issueTokens(user.rows[0]);
+    return res.status(201).json({
+      ...tokens,
+      user: publicUser(user.rows[0]),
+      customer: customer.rows[0],
+    });
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    // corrida entre dois cadastros com o mesmo e-mail
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({ error: 'email_already_in_use' });
+    }
+    return sendInternalError(res, err, 'signup');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /auth/refresh:
+ *   post:
+ *     summary: Troca um refresh token válido por um novo par de tokens
+ *     description: O refresh token usado é revogado (rotação).
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refresh_token]
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Novos tokens emitidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: refresh_token ausente
+ *       401:
+ *         description: Refresh token inválido, expirado ou revogado
+ */
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body as { refresh_token?: string };
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      return res.status(400).json({ error: 'refresh_token_required' });
+    }
+
+    // revoga e devolve o dono numa única operação,
+    // assim o mesmo token não pode ser usado duas vezes em paralelo
+    const revoked = await pool.query(
+      `
+        UPDATE refresh_tokens
+        SET revoked_at = NOW()
+        WHERE token_hash = $1
+          AND revoked_at IS NULL
+          AND expires_at > NOW()
+        RETURNING user_id
+      `,
+      [hashRefreshToken(refresh_token)],
+    );
+
+    if (revoked.rowCount === 0) {
+      return res.status(401).json({ error: 'invalid_refresh_token' });
+    }
+
+    const { rows } = await pool.query(
+      'SELECT id, name, email, role, customer_id, active FROM users WHERE id = $1',
+      [revoked.rows[0].user_id],
+    );
+    const user = rows[0];
+
+    if (!user || !user.active) {
+      return res.status(401).json({ error: 'invalid_refresh_token' });
+    }
+
+    const tokens = await issueTokens(user);
+    return res.json({ ...tokens, user: publicUser(user) });
+  } catch (err) {
+    return sendInternalError(res, err, 'refresh');
+  }
+};
+
+/**
+ * @openapi
+ * /auth/logout:
+ *   post:
+ *     summary: Revoga um refresh token
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refresh_token]
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Token revogado (ou já inexistente)
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body as { refresh_token?: string };
+
+    if (refresh_token && typeof refresh_token === 'string') {
+      await pool.query(
+        `
+          UPDATE refresh_tokens
+          SET revoked_at = NOW()
+          WHERE token_hash = $1 AND revoked_at IS NULL
+        `,
+        [hashRefreshToken(refresh_token)],
+      );
+    }
+
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'logout');
+  }
+};
+
+export {};
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { pool } from '../db';
 import { v4 as uuid } from 'uuid';
+import { ensureBranchAccess, managedBranchIds } from '../services/branchScope';
 
 type BranchRecord = {
   id: string;
@@ -101,7 +102,7 @@ export const registerBranch = async (req: Request, res: Response) => {
  * /branches:
  *   get:
  *     summary: Busca filiais
- *     description: 'Pesquisa filiais opcionalmente pelo trecho do nome, cidade, estado ou endereço.'
+ *     description: 'Pesquisa filiais opcionalmente pelo trecho do nome, cidade, estado ou endereço. Para MANAGER, retorna apenas as filiais que ele administra.'
  *     tags: [Branches]
  *     parameters:
  *       - in: query
@@ -125,28 +126,33 @@ export const searchBranches = async (req: Request, res: Response) => {
   try {
     const { q } = req.query as { q?: string };
 
-    const baseSelect = `
-      SELECT id, name, state, city, address, created_at, updated_at
-      FROM branches
-    `;
+    const conditions: string[] = [];
+    const params: (string | string[])[] = [];
 
-    if (!q || !q.trim()) {
-      const { rows } = await pool.query(
-        `${baseSelect} ORDER BY created_at DESC, name ASC`
+    if (q && q.trim()) {
+      params.push(`%${q.trim()}%`);
+      const idx = params.length;
+      conditions.push(
+        `(name ILIKE $${idx} OR city ILIKE $${idx} OR state ILIKE $${idx} OR address ILIKE $${idx})`
       );
-      return res.json(rows);
     }
 
-    const term = `%${q.trim()}%`;
-    const sql = `
-      ${baseSelect}
-      WHERE name ILIKE $1
-         OR city ILIKE $1
-         OR state ILIKE $1
-         OR address ILIKE $1
-      ORDER BY created_at DESC, name ASC
+    // MANAGER só enxerga as próprias filiais, independente do filtro
+    if (req.user?.role === 'MANAGER') {
+      params.push(await managedBranchIds(req.user));
+      conditions.push(`id = ANY($${params.length}::uuid[])`);
+    }
+
+    let sql = `
+      SELECT id, name, state, city, address, created_at, updated_at
+      FROM branches
     `;
-    const { rows } = await pool.query(sql, [term]);
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ' ORDER BY created_at DESC, name ASC';
+
+    const { rows } = await pool.query(sql, params);
     res.json(rows);
   } catch (err) {
     console.error('searchBranches failed:', err);
@@ -193,7 +199,7 @@ export const getBranchById = async (req: Request, res: Response) => {
  * /branches/{id}:
  *   patch:
  *     summary: Atualiza parcialmente uma filial
- *     description: 'Permite alterar nome, estado, cidade e/ou endereço. Campos não enviados são mantidos.'
+ *     description: 'Permite alterar nome, estado, cidade e/ou endereço. Campos não enviados são mantidos. MANAGER só altera filiais que administra.'
  *     tags: [Branches]
  *     parameters:
  *       - in: path
@@ -222,12 +228,16 @@ export const getBranchById = async (req: Request, res: Response) => {
  *         description: 'Filial atualizada.'
  *       400:
  *         description: 'Nenhum campo informado para atualização.'
+ *       403:
+ *         description: 'MANAGER sem acesso a esta filial.'
  *       404:
  *         description: 'Filial não encontrada.'
  */
 export const patchBranch = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    if (!(await ensureBranchAccess(req, res, id))) return;
+
     const { name, state, city, address } = req.body as {
       name?: string;
       state?: string;
@@ -346,6 +356,159 @@ export const listBranchSpaces = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * @openapi
+ * /branches/{id}/managers:
+ *   get:
+ *     summary: Lista os gerentes (MANAGER) de uma filial
+ *     tags: [Branches]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: 'Gerentes da filial.'
+ *       404:
+ *         description: 'Filial não encontrada.'
+ */
+export const listBranchManagers = async (req: Request, res: Response) => {
+  try {
+    const branch = await fetchBranchOr404(req.params.id, res);
+    if (!branch) return;
+
+    const { rows } = await pool.query(
+      `
+        SELECT u.id, u.name, u.email, u.active, bm.created_at AS assigned_at
+        FROM branch_managers bm
+        JOIN users u ON u.id = bm.user_id
+        WHERE bm.branch_id = $1
+        ORDER BY u.name ASC
+      `,
+      [branch.id]
+    );
+    res.json(rows);
+  } catch (err) {
+    console.error('listBranchManagers failed:', err);
+    res.status(500).json({ error: 'internal_error' });
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/managers:
+ *   post:
+ *     summary: Atribui um MANAGER a uma filial
+ *     tags: [Branches]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [user_id]
+ *             properties:
+ *               user_id:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: 'Gerente atribuído (idempotente).'
+ *       400:
+ *         description: 'Usuário inexistente ou sem papel MANAGER.'
+ *       404:
+ *         description: 'Filial não encontrada.'
+ */
+export const assignBranchManager = async (req: Request, res: Response) => {
+  try {
+    const branch = await fetchBranchOr404(req.params.id, res);
+    if (!branch) return;
+
+    const { user_id } = req.body as { user_id?: string };
+    if (!user_id) {
+      return res.status(400).json({ error: 'invalid_user_id' });
+    }
+
+    const userCheck = await pool.query(
+      'SELECT role FROM users WHERE id = $1',
+      [user_id]
+    );
+    if (!userCheck.rows[0]) {
+      return res.status(400).json({ error: 'user_not_found' });
+    }
+    if (userCheck.rows[0].role !== 'MANAGER') {
+      return res.status(400).json({ error: 'user_is_not_manager' });
+    }
+
+    await pool.query(
+      `
+        INSERT INTO branch_managers (branch_id, user_id)
+        VALUES ($1, $2)
+        ON CONFLICT (branch_id, user_id) DO NOTHING
+      `,
+      [branch.id, user_id]
+    );
+
+    res.status(201).json({ branch_id: branch.id, user_id });
+  } catch (err) {
+    console.error('assignBranchManager failed:', err);
+    res.status(500).json({ error: 'internal_error' });
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/managers/{userId}:
+ *   delete:
+ *     summary: Remove um MANAGER de uma filial
+ *     tags: [Branches]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: 'Atribuição removida.'
+ *       404:
+ *         description: 'Atribuição não encontrada.'
+ */
+export const unassignBranchManager = async (req: Request, res: Response) => {
+  try {
+    const { rowCount } = await pool.query(
+      'DELETE FROM branch_managers WHERE branch_id = $1 AND user_id = $2',
+      [req.params.id, req.params.userId]
+    );
+
+    if (!rowCount) {
+      return res.status(404).json({ error: 'branch_manager_not_found' });
+    }
+
+    res.status(204).send();
+  } catch (err) {
+    console.error('unassignBranchManager failed:', err);
+    res.status(500).json({ error: 'internal_error' });
+  }
+};
+
 /**
  * @openapi
  * components:
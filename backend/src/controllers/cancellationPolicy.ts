@@ -0,0 +1,346 @@
+// src/controllers/cancellationPolicy.ts
+// Políticas de cancelamento por filial ou por espaço (a do espaço prevalece)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess } from '../services/branchScope';
+import { PolicyTier } from '../services/cancellation';
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[cancellation-policies:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type PolicyScope = {
+  column: 'branch_id' | 'space_id';
+  id: string;
+};
+
+/**
+ * Resolve o alvo da política a partir da rota (/branches/:id ou /spaces/:spaceId)
+ * e verifica se o usuário administra a filial. Responde 404/403 e retorna undefined.
+ */
+async function resolveScope(req: Request, res: Response): Promise<PolicyScope | undefined> {
+  if (req.params.spaceId) {
+    const { rows } = await pool.query(
+      'SELECT id, branch_id FROM spaces WHERE id = $1',
+      [req.params.spaceId],
+    );
+    if (!rows[0]) {
+      res.status(404).json({ error: 'space_not_found' });
+      return undefined;
+    }
+    if (!(await ensureBranchAccess(req, res, rows[0].branch_id))) return undefined;
+    return { column: 'space_id', id: rows[0].id };
+  }
+
+  const { rows } = await pool.query('SELECT id FROM branches WHERE id = $1', [req.params.id]);
+  if (!rows[0]) {
+    res.status(404).json({ error: 'branch_not_found' });
+    return undefined;
+  }
+  if (!(await ensureBranchAccess(req, res, rows[0].id))) return undefined;
+  return { column: 'branch_id', id: rows[0].id };
+}
+
+async function loadPolicy(scope: PolicyScope) {
+  const { rows } = await pool.query(
+    `SELECT * FROM cancellation_policies WHERE ${scope.column} = $1`,
+    [scope.id],
+  );
+  if (!rows[0]) return null;
+
+  const tiers = await pool.query(
+    `
+      SELECT min_days_before, refund_pct::float8 AS refund_pct, refund_deposit
+      FROM cancellation_policy_tiers
+      WHERE policy_id = $1
+      ORDER BY min_days_before DESC
+    `,
+    [rows[0].id],
+  );
+  return { ...rows[0], tiers: tiers.rows };
+}
+
+/**
+ * Valida as faixas enviadas. Retorna o código de erro ou null.
+ */
+function validateTiers(tiers: unknown): string | null {
+  if (!Array.isArray(tiers) || tiers.length === 0) return 'invalid_tiers';
+
+  const seen = new Set<number>();
+  for (const tier of tiers as Partial<PolicyTier>[]) {
+    const days = Number(tier?.min_days_before);
+    const pct = Number(tier?.refund_pct);
+
+    if (!Number.isInteger(days) || days < 0) return 'invalid_min_days_before';
+    if (!Number.isFinite(pct) || pct < 0 || pct > 100) return 'invalid_refund_pct';
+    if (tier.refund_deposit !== undefined && typeof tier.refund_deposit !== 'boolean') {
+      return 'invalid_refund_deposit';
+    }
+    if (seen.has(days)) return 'duplicate_min_days_before';
+    seen.add(days);
+  }
+  return null;
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     CancellationPolicy:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         branch_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         space_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         name:
+ *           type: string
+ *         tiers:
+ *           type: array
+ *           description: >
+ *             Vale a faixa de maior min_days_before atingida pela antecedência do cancelamento.
+ *             Abaixo de todas as faixas nada é reembolsado.
+ *           items:
+ *             type: object
+ *             properties:
+ *               min_days_before:
+ *                 type: integer
+ *                 example: 30
+ *               refund_pct:
+ *                 type: number
+ *                 example: 100
+ *               refund_deposit:
+ *                 type: boolean
+ *                 description: false = o sinal (DEPOSIT) fica retido nessa faixa
+ */
+
+/**
+ * @openapi
+ * /branches/{id}/cancellation-policy:
+ *   get:
+ *     summary: Política de cancelamento da filial
+ *     tags: [Cancellation Policies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Política
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CancellationPolicy'
+ *       404:
+ *         description: Filial ou política não encontrada
+ * /spaces/{spaceId}/cancellation-policy:
+ *   get:
+ *     summary: Política de cancelamento específica do espaço
+ *     tags: [Cancellation Policies]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Política
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CancellationPolicy'
+ *       404:
+ *         description: Espaço ou política não encontrada
+ */
+export const fetchCancellationPolicy = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    const policy = await loadPolicy(scope);
+    if (!policy) {
+      return res.status(404).json({ error: 'cancellation_policy_not_found' });
+    }
+    return res.json(policy);
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchCancellationPolicy');
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/cancellation-policy:
+ *   put:
+ *     summary: Cria ou substitui a política de cancelamento da filial
+ *     tags: [Cancellation Policies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, tiers]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Padrão
+ *               tiers:
+ *                 type: array
+ *                 example:
+ *                   - { min_days_before: 30, refund_pct: 100, refund_deposit: true }
+ *                   - { min_days_before: 7, refund_pct: 50, refund_deposit: true }
+ *                   - { min_days_before: 0, refund_pct: 100, refund_deposit: false }
+ *     responses:
+ *       200:
+ *         description: Política salva
+ *       400:
+ *         description: Faixas inválidas
+ * /spaces/{spaceId}/cancellation-policy:
+ *   put:
+ *     summary: Cria ou substitui a política específica do espaço
+ *     tags: [Cancellation Policies]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CancellationPolicy'
+ *     responses:
+ *       200:
+ *         description: Política salva
+ *       400:
+ *         description: Faixas inválidas
+ */
+export const saveCancellationPolicy = async (req: Request, res: Response) => {
+  const { name, tiers } = req.body as { name?: string; tiers?: PolicyTier[] };
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'invalid_name' });
+  }
+  const tiersError = validateTiers(tiers);
+  if (tiersError) {
+    return res.status(400).json({ error: tiersError });
+  }
+
+  const client = await pool.connect();
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+        INSERT INTO cancellation_policies (${scope.column}, name)
+        VALUES ($1, $2)
+        ON CONFLICT (${scope.column}) WHERE ${scope.column} IS NOT NULL
+        DO UPDATE SET name = EXCLUDED.name, updated_at = NOW()
+        RETURNING id
+      `,
+      [scope.id, name.trim()],
+    );
+    const policyId = rows[0].id;
+
+    // faixas são sempre substituídas por inteiro
+    await client.query('DELETE FROM cancellation_policy_tiers WHERE policy_id = $1', [policyId]);
+    for (const tier of tiers) {
+      await client.query(
+        `
+          INSERT INTO cancellation_policy_tiers (policy_id, min_days_before, refund_pct, refund_deposit)
+          VALUES ($1, $2, $3, $4)
+        `,
+        [policyId, Number(tier.min_days_before), Number(tier.refund_pct), tier.refund_deposit ?? true],
+      );
+    }
+
+    await client.query('COMMIT');
+    return res.json(await loadPolicy(scope));
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    return sendInternalError(res, err, 'saveCancellationPolicy');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/cancellation-policy:
+ *   delete:
+ *     summary: Remove a política da filial (volta ao reembolso integral)
+ *     tags: [Cancellation Policies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removida
+ *       404:
+ *         description: Não encontrada
+ * /spaces/{spaceId}/cancellation-policy:
+ *   delete:
+ *     summary: Remove a política do espaço (passa a valer a da filial)
+ *     tags: [Cancellation Policies]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removida
+ *       404:
+ *         description: Não encontrada
+ */
+export const removeCancellationPolicy = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    const { rowCount } = await pool.query(
+      `DELETE FROM cancellation_policies WHERE ${scope.column} = $1`,
+      [scope.id],
+    );
+    if (rowCount === 0) {
+      return res.status(404).json({ error: 'cancellation_policy_not_found' });
+    }
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeCancellationPolicy');
+  }
+};
+
+export {};
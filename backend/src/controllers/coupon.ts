@@ -0,0 +1,480 @@
+// src/controllers/coupon.ts
+// Cadastro de cupons de desconto (uso em services/coupons.ts)
+import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import {
+  ACTIVE_REDEMPTIONS_SQL,
+  DISCOUNT_TYPES,
+  DiscountType,
+  normalizeCouponCode,
+} from '../services/coupons';
+
+type SqlParam = string | number | boolean | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[coupons:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type CouponInput = {
+  code?: string;
+  description?: string | null;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  max_redemptions?: number | null;
+  active?: boolean;
+  branch_ids?: string[];
+  space_ids?: string[];
+};
+
+const CODE_RE = /^[A-Z0-9_-]{3,40}$/;
+
+const COUPON_SELECT = `
+  SELECT
+    c.id,
+    c.code,
+    c.description,
+    c.discount_type,
+    c.discount_value::float8 AS discount_value,
+    c.valid_from,
+    c.valid_until,
+    c.max_redemptions,
+    c.active,
+    c.created_at,
+    c.updated_at,
+    (${ACTIVE_REDEMPTIONS_SQL}) AS redemptions_count,
+    COALESCE(
+      (SELECT array_agg(t.branch_id) FROM coupon_targets t
+       WHERE t.coupon_id = c.id AND t.branch_id IS NOT NULL),
+      '{}'
+    ) AS branch_ids,
+    COALESCE(
+      (SELECT array_agg(t.space_id) FROM coupon_targets t
+       WHERE t.coupon_id = c.id AND t.space_id IS NOT NULL),
+      '{}'
+    ) AS space_ids
+  FROM coupons c
+`;
+
+function isUuidList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.length > 0);
+}
+
+/**
+ * Valida os campos enviados (no PATCH só os presentes). Retorna o código de erro ou null.
+ */
+function validateCouponInput(input: CouponInput, partial: boolean): string | null {
+  if (!partial || input.code !== undefined) {
+    if (typeof input.code !== 'string' || !CODE_RE.test(normalizeCouponCode(input.code))) {
+      return 'invalid_code';
+    }
+  }
+  if (!partial || input.discount_type !== undefined) {
+    if (!DISCOUNT_TYPES.includes(input.discount_type)) return 'invalid_discount_type';
+  }
+  if (!partial || input.discount_value !== undefined) {
+    const value = Number(input.discount_value);
+    if (!Number.isFinite(value) || value <= 0) return 'invalid_discount_value';
+    if (input.discount_type === 'PERCENT' && value > 100) return 'invalid_discount_value';
+  }
+  if (input.max_redemptions != null) {
+    const max = Number(input.max_redemptions);
+    if (!Number.isInteger(max) || max <= 0) return 'invalid_max_redemptions';
+  }
+  for (const field of ['valid_from', 'valid_until'] as const) {
+    const value = input[field];
+    if (value != null && Number.isNaN(Date.parse(value))) return `invalid_${field}`;
+  }
+  if (input.valid_from && input.valid_until && input.valid_until < input.valid_from) {
+    return 'valid_until_before_valid_from';
+  }
+  if (input.active !== undefined && typeof input.active !== 'boolean') return 'invalid_active';
+  if (input.branch_ids !== undefined && !isUuidList(input.branch_ids)) return 'invalid_branch_ids';
+  if (input.space_ids !== undefined && !isUuidList(input.space_ids)) return 'invalid_space_ids';
+  return null;
+}
+
+// filial/espaço inexistente (FK) ou id mal formado
+function isInvalidTarget(err: unknown): boolean {
+  const code = (err as { code?: string })?.code;
+  return code === '23503' || code === '22P02';
+}
+
+/**
+ * Substitui os alvos (filiais/espaços) do cupom. Listas vazias = vale em todos.
+ */
+async function replaceTargets(client: PoolClient, couponId: string, input: CouponInput) {
+  await client.query('DELETE FROM coupon_targets WHERE coupon_id = $1', [couponId]);
+
+  for (const branchId of input.branch_ids ?? []) {
+    await client.query(
+      'INSERT INTO coupon_targets (coupon_id, branch_id) VALUES ($1, $2)',
+      [couponId, branchId],
+    );
+  }
+  for (const spaceId of input.space_ids ?? []) {
+    await client.query(
+      'INSERT INTO coupon_targets (coupon_id, space_id) VALUES ($1, $2)',
+      [couponId, spaceId],
+    );
+  }
+}
+
+async function fetchCouponById(couponId: string) {
+  const { rows } = await pool.query(`${COUPON_SELECT} WHERE c.id = $1`, [couponId]);
+  return rows[0] ?? null;
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Coupon:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         code:
+ *           type: string
+ *           example: VERAO10
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         discount_type:
+ *           type: string
+ *           enum: [PERCENT, FIXED]
+ *         discount_value:
+ *           type: number
+ *           description: Percentual (PERCENT) ou valor em reais (FIXED)
+ *         valid_from:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         valid_until:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         max_redemptions:
+ *           type: integer
+ *           nullable: true
+ *         redemptions_count:
+ *           type: integer
+ *           description: Usos em reservas não canceladas
+ *         active:
+ *           type: boolean
+ *         branch_ids:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         space_ids:
+ *           type: array
+ *           description: Sem filiais nem espaços o cupom vale em todos
+ *           items:
+ *             type: string
+ *             format: uuid
+ */
+
+/**
+ * @openapi
+ * /coupons:
+ *   get:
+ *     summary: Lista os cupons
+ *     tags: [Coupons]
+ *     parameters:
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Lista de cupons
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Coupon'
+ */
+export const listCoupons = async (req: Request, res: Response) => {
+  try {
+    const { active } = req.query as { active?: string };
+    const params: SqlParam[] = [];
+    let where = '';
+
+    if (active === 'true' || active === 'false') {
+      params.push(active === 'true');
+      where = 'WHERE c.active = $1';
+    }
+
+    const { rows } = await pool.query(`${COUPON_SELECT} ${where} ORDER BY c.created_at DESC`, params);
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listCoupons');
+  }
+};
+
+/**
+ * @openapi
+ * /coupons:
+ *   post:
+ *     summary: Cadastra um cupom
+ *     tags: [Coupons]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, discount_type, discount_value]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: VERAO10
+ *               description:
+ *                 type: string
+ *               discount_type:
+ *                 type: string
+ *                 enum: [PERCENT, FIXED]
+ *               discount_value:
+ *                 type: number
+ *                 example: 10
+ *               valid_from:
+ *                 type: string
+ *                 format: date-time
+ *               valid_until:
+ *                 type: string
+ *                 format: date-time
+ *               max_redemptions:
+ *                 type: integer
+ *               branch_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               space_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       201:
+ *         description: Cupom criado
+ *       400:
+ *         description: Dados inválidos
+ *       409:
+ *         description: Código já existe
+ */
+export const createCoupon = async (req: Request, res: Response) => {
+  const input = req.body as CouponInput;
+
+  const validationError = validateCouponInput(input, false);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+        INSERT INTO coupons
+          (code, description, discount_type, discount_value,
+           valid_from, valid_until, max_redemptions, active)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, TRUE))
+        ON CONFLICT (code) DO NOTHING
+        RETURNING id
+      `,
+      [
+        normalizeCouponCode(input.code),
+        input.description ?? null,
+        input.discount_type,
+        Number(input.discount_value),
+        input.valid_from ?? null,
+        input.valid_until ?? null,
+        input.max_redemptions ?? null,
+        input.active ?? null,
+      ],
+    );
+
+    if (!rows[0]) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'coupon_code_already_exists' });
+    }
+
+    await replaceTargets(client, rows[0].id, input);
+    await client.query('COMMIT');
+
+    return res.status(201).json(await fetchCouponById(rows[0].id));
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    if (isInvalidTarget(err)) {
+      return res.status(400).json({ error: 'invalid_targets' });
+    }
+    return sendInternalError(res, err, 'createCoupon');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /coupons/{couponId}:
+ *   patch:
+ *     summary: Atualiza um cupom
+ *     description: branch_ids / space_ids, quando enviados, substituem os alvos atuais.
+ *     tags: [Coupons]
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Coupon'
+ *     responses:
+ *       200:
+ *         description: Cupom atualizado
+ *       400:
+ *         description: Dados inválidos
+ *       404:
+ *         description: Cupom não encontrado
+ */
+export const updateCoupon = async (req: Request, res: Response) => {
+  const { couponId } = req.params;
+  const input = req.body as CouponInput;
+
+  const validationError = validateCouponInput(input, true);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  const fields: string[] = [];
+  const params: SqlParam[] = [];
+  let paramIndex = 1;
+
+  const columns: [keyof CouponInput, SqlParam | undefined][] = [
+    ['code', input.code === undefined ? undefined : normalizeCouponCode(input.code)],
+    ['description', input.description],
+    ['discount_type', input.discount_type],
+    ['discount_value', input.discount_value === undefined ? undefined : Number(input.discount_value)],
+    ['valid_from', input.valid_from],
+    ['valid_until', input.valid_until],
+    ['max_redemptions', input.max_redemptions],
+    ['active', input.active],
+  ];
+
+  for (const [column, value] of columns) {
+    if (value === undefined) continue;
+    fields.push(`${column} = $${paramIndex++}`);
+    params.push(value);
+  }
+
+  const replacesTargets = input.branch_ids !== undefined || input.space_ids !== undefined;
+  if (fields.length === 0 && !replacesTargets) {
+    return res.status(400).json({ error: 'no_valid_fields' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+        UPDATE coupons
+        SET ${[...fields, 'updated_at = NOW()'].join(', ')}
+        WHERE id = $${paramIndex}
+        RETURNING id, discount_type, discount_value::float8 AS discount_value
+      `,
+      [...params, couponId],
+    );
+
+    if (!rows[0]) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'coupon_not_found' });
+    }
+    if (rows[0].discount_type === 'PERCENT' && rows[0].discount_value > 100) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'invalid_discount_value' });
+    }
+
+    if (replacesTargets) {
+      // o que não veio mantém os alvos atuais
+      const current = await fetchCouponById(couponId);
+      await replaceTargets(client, couponId, {
+        branch_ids: input.branch_ids ?? current.branch_ids,
+        space_ids: input.space_ids ?? current.space_ids,
+      });
+    }
+
+    await client.query('COMMIT');
+    return res.json(await fetchCouponById(couponId));
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    if ((err as { code?: string })?.code === '23505') {
+      return res.status(409).json({ error: 'coupon_code_already_exists' });
+    }
+    if (isInvalidTarget(err)) {
+      return res.status(400).json({ error: 'invalid_targets' });
+    }
+    return sendInternalError(res, err, 'updateCoupon');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /coupons/{couponId}:
+ *   delete:
+ *     summary: Remove um cupom nunca usado
+ *     description: Cupons já usados em reservas só podem ser desativados (active = false).
+ *     tags: [Coupons]
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removido
+ *       404:
+ *         description: Cupom não encontrado
+ *       409:
+ *         description: Cupom já usado
+ */
+export const removeCoupon = async (req: Request, res: Response) => {
+  try {
+    const { couponId } = req.params;
+
+    const used = await pool.query(
+      'SELECT 1 FROM coupon_redemptions WHERE coupon_id = $1 LIMIT 1',
+      [couponId],
+    );
+    if (used.rowCount > 0) {
+      return res.status(409).json({ error: 'coupon_already_redeemed' });
+    }
+
+    const { rowCount } = await pool.query('DELETE FROM coupons WHERE id = $1', [couponId]);
+    if (rowCount === 0) {
+      return res.status(404).json({ error: 'coupon_not_found' });
+    }
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeCoupon');
+  }
+};
+
+export {};
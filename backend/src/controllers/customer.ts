@@ -2,6 +2,8 @@
 import { Request, Response } from 'express';
 import { pool } from '../db';
 import { v4 as uuid } from 'uuid';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../services/password';
+import { isValidEmail } from '../services/emailAddress';
 
 type SqlParam = string | number | boolean | null;
 
@@ -60,6 +62,10 @@ function sendInternalError(res: Response, err: unknown, context: string) {
  *               phone:
  *                 type: string
  *                 example: '+55 41 99999-0000'
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 description: Opcional. Se informada, cria o acesso do cliente ao portal (/me).
  *     responses:
  *       201:
  *         description: Cliente criado
@@ -73,26 +79,32 @@ function sendInternalError(res: Response, err: unknown, context: string) {
  *         description: E-mail já cadastrado
  */
 export const createCustomer = async (req: Request, res: Response) => {
+  const client = await pool.connect();
   try {
     const {
       name,
       email,
       phone,
+      password,
     } = req.body as {
       name?: string;
       email?: string;
       phone?: string | null;
+      password?: string;
     };
 
     if (!name || typeof name !== 'string') {
       return res.status(400).json({ error: 'invalid_name' });
     }
-    if (!email || typeof email !== 'string') {
+    if (!isValidEmail(email)) {
       return res.status(400).json({ error: 'invalid_email' });
     }
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: 'invalid_password', min_length: MIN_PASSWORD_LENGTH });
+    }
 
     // Confere se o e-mail já existe
-    const emailCheck = await pool.query(
+    const emailCheck = await client.query(
       'SELECT id FROM customers WHERE email = $1',
       [email],
     );
@@ -100,6 +112,16 @@ export const createCustomer = async (req: Request, res: Response) => {
       return res.status(409).json({ error: 'email_already_in_use' });
     }
 
+    if (password) {
+      const userCheck = await client.query(
+        'SELECT id FROM users WHERE email = $1',
+        [email.trim().toLowerCase()],
+      );
+      if (userCheck.rowCount > 0) {
+        return res.status(409).json({ error: 'email_already_in_use' });
+      }
+    }
+
     const customerId = uuid();
 
     const sql = `
@@ -117,10 +139,27 @@ export const createCustomer = async (req: Request, res: Response) => {
       phone ?? null,
     ];
 
-    const { rows } = await pool.query(sql, params);
+    await client.query('BEGIN');
+    const { rows } = await client.query(sql, params);
+
+    // acesso ao portal do cliente
+    if (password) {
+      await client.query(
+        `
+          INSERT INTO users (name, email, password_hash, role, customer_id)
+          VALUES ($1, $2, $3, 'CUSTOMER', $4)
+        `,
+        [name, email.trim().toLowerCase(), await hashPassword(password), customerId],
+      );
+    }
+
+    await client.query('COMMIT');
     return res.status(201).json(rows[0]);
   } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
     return sendInternalError(res, err, 'createCustomer');
+  } finally {
+    client.release();
   }
 };
 
@@ -288,7 +327,7 @@ export const updateCustomer = async (req: Request, res: Response) => {
 
     // Se veio email, valida e checa unicidade (exceto o próprio customerId)
     if (email !== undefined) {
-      if (!email || typeof email !== 'string') {
+      if (!isValidEmail(email)) {
         return res.status(400).json({ error: 'invalid_email' });
       }
 
@@ -299,6 +338,15 @@ export const updateCustomer = async (req: Request, res: Response) => {
       if (emailCheck.rowCount > 0) {
         return res.status(409).json({ error: 'email_already_in_use' });
       }
+
+      // o login do portal usa o mesmo e-mail
+      const userCheck = await pool.query(
+        'SELECT id FROM users WHERE email = $1 AND customer_id IS DISTINCT FROM $2',
+        [email.trim().toLowerCase(), customerId],
+      );
+      if (userCheck.rowCount > 0) {
+        return res.status(409).json({ error: 'email_already_in_use' });
+      }
     }
 
     const fields: string[] = [];
@@ -335,6 +383,20 @@ export const updateCustomer = async (req: Request, res: Response) => {
     params.push(customerId);
 
     const { rows } = await pool.query(sql, params);
+
+    if (email !== undefined || name !== undefined) {
+      await pool.query(
+        `
+          UPDATE users
+          SET email      = COALESCE($2, email),
+              name       = COALESCE($3, name),
+              updated_at = NOW()
+          WHERE customer_id = $1
+        `,
+        [customerId, email !== undefined ? email.trim().toLowerCase() : null, name ?? null],
+      );
+    }
+
     return res.json(rows[0]);
   } catch (err) {
     return sendInternalError(res, err, 'updateCustomer');
@@ -0,0 +1,739 @@
+// src/controllers/me.ts
+// Portal do cliente: rotas /me para usuários com papel CUSTOMER
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import {
+  bookReservation,
+  convertHoldToReservation,
+  parseHoldMinutes,
+  ReservationInput,
+  sendTransitionError,
+} from './reservation';
+import { addToWaitlist, leaveWaitlist, WaitlistInput } from './waitlist';
+import { cancelReservationWithRefund, computeRefund } from '../services/cancellation';
+import { syncWaitlistOffers, WAITLIST_SELECT } from '../services/waitlist';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../services/password';
+import { isValidEmail } from '../services/emailAddress';
+
+type SqlParam = string | number | boolean | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[me:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+/**
+ * Resolve o customer_id vinculado ao usuário do token.
+ * Responde 403 e retorna undefined se a conta não tiver cliente.
+ */
+async function currentCustomerId(req: Request, res: Response): Promise<string | undefined> {
+  const { rows } = await pool.query(
+    'SELECT customer_id FROM users WHERE id = $1 AND active = TRUE',
+    [req.user?.sub],
+  );
+
+  if (!rows[0]?.customer_id) {
+    res.status(403).json({ error: 'customer_account_required' });
+    return undefined;
+  }
+  return rows[0].customer_id as string;
+}
+
+/**
+ * @openapi
+ * /me:
+ *   get:
+ *     summary: Perfil do cliente autenticado
+ *     tags: [Me]
+ *     responses:
+ *       200:
+ *         description: Dados do cliente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Customer'
+ *       403:
+ *         description: Conta sem cliente vinculado
+ */
+export const fetchMyProfile = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { rows } = await pool.query(
+      'SELECT id, name, email, phone, created_at, updated_at FROM customers WHERE id = $1',
+      [customerId],
+    );
+    return res.json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchMyProfile');
+  }
+};
+
+/**
+ * @openapi
+ * /me:
+ *   patch:
+ *     summary: Atualiza o perfil do cliente autenticado
+ *     tags: [Me]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               phone:
+ *                 type: string
+ *                 nullable: true
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Perfil atualizado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Customer'
+ *       400:
+ *         description: Nenhum campo válido enviado ou dados inválidos
+ *       409:
+ *         description: E-mail já cadastrado
+ */
+export const updateMyProfile = async (req: Request, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { name, email, phone, password } = req.body as {
+      name?: string;
+      email?: string;
+      phone?: string | null;
+      password?: string;
+    };
+
+    if (name !== undefined && (!name || typeof name !== 'string')) {
+      return res.status(400).json({ error: 'invalid_name' });
+    }
+    if (email !== undefined && (typeof email !== 'string' || !isValidEmail(email.trim()))) {
+      return res.status(400).json({ error: 'invalid_email' });
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: 'invalid_password', min_length: MIN_PASSWORD_LENGTH });
+    }
+
+    const normalizedEmail = email !== undefined ? email.trim().toLowerCase() : undefined;
+
+    if (normalizedEmail !== undefined) {
+      const emailCheck = await client.query(
+        `
+          SELECT 1 FROM customers WHERE lower(email) = $1 AND id <> $2
+          UNION ALL
+          SELECT 1 FROM users WHERE email = $1 AND customer_id IS DISTINCT FROM $2
+          LIMIT 1
+        `,
+        [normalizedEmail, customerId],
+      );
+      if (emailCheck.rowCount > 0) {
+        return res.status(409).json({ error: 'email_already_in_use' });
+      }
+    }
+
+    const fields: string[] = [];
+    const params: SqlParam[] = [];
+    let paramIndex = 1;
+
+    if (name !== undefined) {
+      fields.push(`name = $${paramIndex++}`);
+      params.push(name.trim());
+    }
+    if (normalizedEmail !== undefined) {
+      fields.push(`email = $${paramIndex++}`);
+      params.push(normalizedEmail);
+    }
+    if (phone !== undefined) {
+      fields.push(`phone = $${paramIndex++}`);
+      params.push(phone);
+    }
+
+    if (fields.length === 0 && password === undefined) {
+      return res.status(400).json({ error: 'no_valid_fields' });
+    }
+
+    await client.query('BEGIN');
+
+    let profile;
+    if (fields.length > 0) {
+      fields.push('updated_at = NOW()');
+      params.push(customerId);
+      const { rows } = await client.query(
+        `
+          UPDATE customers
+          SET ${fields.join(', ')}
+          WHERE id = $${paramIndex}
+          RETURNING id, name, email, phone, created_at, updated_at
+        `,
+        params,
+      );
+      profile = rows[0];
+    } else {
+      const { rows } = await client.query(
+        'SELECT id, name, email, phone, created_at, updated_at FROM customers WHERE id = $1',
+        [customerId],
+      );
+      profile = rows[0];
+    }
+
+    // mantém a conta de acesso em sincronia com o cadastro
+    await client.query(
+      `
+        UPDATE users
+        SET name          = $2,
+            email         = $3,
+            password_hash = COALESCE($4, password_hash),
+            updated_at    = NOW()
+        WHERE customer_id = $1
+      `,
+      [
+        customerId,
+        profile.name,
+        profile.email.toLowerCase(),
+        password !== undefined ? await hashPassword(password) : null,
+      ],
+    );
+
+    await client.query('COMMIT');
+    return res.json(profile);
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    return sendInternalError(res, err, 'updateMyProfile');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /me/reservations:
+ *   get:
+ *     summary: Lista as reservas do cliente autenticado
+ *     tags: [Me]
+ *     responses:
+ *       200:
+ *         description: Reservas do cliente (mais recentes primeiro)
+ */
+export const listMyReservations = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { rows } = await pool.query(
+      `
+        SELECT
+          r.*,
+          s.name AS space_name,
+          b.name AS branch_name,
+          b.city AS branch_city
+        FROM reservations r
+        JOIN spaces   s ON s.id = r.space_id
+        JOIN branches b ON b.id = r.branch_id
+        WHERE r.customer_id = $1
+        ORDER BY r.check_in_date DESC, r.start_time DESC
+      `,
+      [customerId],
+    );
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listMyReservations');
+  }
+};
+
+/**
+ * @openapi
+ * /me/reservations:
+ *   post:
+ *     summary: Cria uma reserva para o cliente autenticado
+ *     description: Aplica as mesmas regras de POST /spaces/{spaceId}/reservations (capacidade e conflito de horário).
+ *     tags: [Me]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [space_id, check_in_date, check_out_date, start_time, end_time, adults_count]
+ *             properties:
+ *               space_id:
+ *                 type: string
+ *                 format: uuid
+ *               check_in_date:
+ *                 type: string
+ *                 format: date
+ *               check_out_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *                 example: '14:00'
+ *               end_time:
+ *                 type: string
+ *                 example: '22:00'
+ *               adults_count:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *               coupon_code:
+ *                 type: string
+ *                 description: Cupom de desconto (vira a linha COUPON do price_breakdown)
+ *               items:
+ *                 type: array
+ *                 description: Adicionais do catálogo da filial (GET /branches/{id}/addons)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     addon_id:
+ *                       type: string
+ *                       format: uuid
+ *                     quantity:
+ *                       type: integer
+ *                       description: Só para PER_UNIT; PER_GUEST usa adults_count
+ *     responses:
+ *       201:
+ *         description: Reserva criada (PENDING)
+ *       400:
+ *         description: Dados inválidos, capacidade excedida ou fora do horário (outside_opening_hours)
+ *       404:
+ *         description: Espaço não encontrado ou inativo
+ *       409:
+ *         description: Conflito com outra reserva ou data bloqueada (blackout_date)
+ */
+export const createMyReservation = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { space_id, ...body } = req.body as ReservationInput & { space_id?: string };
+
+    if (!space_id) {
+      return res.status(400).json({ error: 'invalid_space_id' });
+    }
+
+    // o cliente não escolhe o % de sinal nem reserva em nome de outro
+    const reservation = await bookReservation(res, space_id, {
+      check_in_date: body.check_in_date,
+      check_out_date: body.check_out_date,
+      start_time: body.start_time,
+      end_time: body.end_time,
+      adults_count: body.adults_count,
+      notes: body.notes,
+      coupon_code: body.coupon_code,
+      items: body.items,
+      customer_id: customerId,
+    }, { actorId: req.user?.sub });
+    if (!reservation) return;
+
+    return res.status(201).json(reservation);
+  } catch (err) {
+    return sendInternalError(res, err, 'createMyReservation');
+  }
+};
+
+/**
+ * @openapi
+ * /me/holds:
+ *   post:
+ *     summary: Segura um horário temporariamente para o cliente autenticado
+ *     description: >
+ *       Cria uma reserva HOLD que bloqueia o período por alguns minutos enquanto o cliente
+ *       conclui a reserva. HOLDs vencidos são liberados automaticamente.
+ *     tags: [Me]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [space_id, check_in_date, check_out_date, start_time, end_time, adults_count]
+ *             properties:
+ *               space_id:
+ *                 type: string
+ *                 format: uuid
+ *               check_in_date:
+ *                 type: string
+ *                 format: date
+ *               check_out_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *               adults_count:
+ *                 type: integer
+ *               minutes:
+ *                 type: integer
+ *                 description: "Duração do HOLD (padrão: HOLD_DEFAULT_MINUTES)"
+ *               coupon_code:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: HOLD criado (status HOLD, com hold_expires_at)
+ *       400:
+ *         description: Dados inválidos ou fora do horário (outside_opening_hours)
+ *       409:
+ *         description: Conflito com outra reserva ou data bloqueada (blackout_date)
+ */
+export const createMyHold = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { space_id, minutes, ...body } = req.body as ReservationInput & {
+      space_id?: string;
+      minutes?: number;
+    };
+
+    if (!space_id) {
+      return res.status(400).json({ error: 'invalid_space_id' });
+    }
+
+    const holdMinutes = parseHoldMinutes(res, minutes);
+    if (!holdMinutes) return;
+
+    const hold = await bookReservation(
+      res,
+      space_id,
+      {
+        check_in_date: body.check_in_date,
+        check_out_date: body.check_out_date,
+        start_time: body.start_time,
+        end_time: body.end_time,
+        adults_count: body.adults_count,
+        notes: body.notes,
+        coupon_code: body.coupon_code,
+        items: body.items,
+        customer_id: customerId,
+      },
+      { holdMinutes, actorId: req.user?.sub },
+    );
+    if (!hold) return;
+
+    return res.status(201).json(hold);
+  } catch (err) {
+    return sendInternalError(res, err, 'createMyHold');
+  }
+};
+
+/**
+ * @openapi
+ * /me/reservations/{reservationId}/convert:
+ *   patch:
+ *     summary: Converte um HOLD do cliente em reserva PENDING (mesmo id)
+ *     tags: [Me]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reserva PENDING
+ *       404:
+ *         description: Reserva não encontrada
+ *       409:
+ *         description: A reserva não é um HOLD ou o HOLD já venceu
+ */
+export const convertMyHold = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { reservationId } = req.params;
+
+    const existing = await pool.query(
+      'SELECT 1 FROM reservations WHERE id = $1 AND customer_id = $2',
+      [reservationId, customerId],
+    );
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+
+    const reservation = await convertHoldToReservation(res, reservationId, req.user?.sub);
+    if (!reservation) return;
+
+    return res.json(reservation);
+  } catch (err) {
+    return sendInternalError(res, err, 'convertMyHold');
+  }
+};
+
+/**
+ * @openapi
+ * /me/reservations/{reservationId}/cancellation-quote:
+ *   get:
+ *     summary: Prévia do reembolso caso o cliente cancele agora
+ *     tags: [Me]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Detalhamento (política, faixa aplicada, valor a reembolsar e retido)
+ *       404:
+ *         description: Reserva não encontrada
+ */
+export const fetchMyCancellationQuote = async (req: Request, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { reservationId } = req.params;
+
+    const existing = await client.query(
+      'SELECT 1 FROM reservations WHERE id = $1 AND customer_id = $2',
+      [reservationId, customerId],
+    );
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+
+    return res.json(await computeRefund(client, reservationId));
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchMyCancellationQuote');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /me/reservations/{reservationId}/cancel:
+ *   patch:
+ *     summary: Cancela uma reserva do cliente autenticado
+ *     description: >
+ *       Só é possível cancelar reservas próprias que ainda não começaram. O reembolso segue a
+ *       política de cancelamento do espaço/filial e vem detalhado em "cancellation".
+ *     tags: [Me]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reserva cancelada
+ *       400:
+ *         description: Reserva já iniciada
+ *       404:
+ *         description: Reserva não encontrada
+ *       409:
+ *         description: Reserva já cancelada
+ */
+export const cancelMyReservation = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { reservationId } = req.params;
+
+    const existing = await pool.query(
+      `
+        SELECT status, (check_in_date + start_time) <= NOW() AS started
+        FROM reservations
+        WHERE id = $1 AND customer_id = $2
+      `,
+      [reservationId, customerId],
+    );
+
+    // reserva de outro cliente responde como inexistente
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (existing.rows[0].status === 'CANCELLED') {
+      return res.status(409).json({ error: 'reservation_already_cancelled' });
+    }
+    if (existing.rows[0].started) {
+      return res.status(400).json({ error: 'reservation_already_started' });
+    }
+
+    const { result, breakdown } = await cancelReservationWithRefund(reservationId, {
+      actorId: req.user?.sub,
+      reason: 'cancelled_by_customer',
+    });
+    if (!result.ok) return sendTransitionError(res, result, 'CANCELLED');
+
+    return res.json({ ...result.reservation, cancellation: breakdown });
+  } catch (err) {
+    return sendInternalError(res, err, 'cancelMyReservation');
+  }
+};
+
+/**
+ * @openapi
+ * /me/waitlist:
+ *   post:
+ *     summary: Entra na lista de espera de um horário ocupado
+ *     description: >
+ *       Quando o horário vagar, o cliente recebe um HOLD com prazo para aceitar
+ *       (PATCH /me/reservations/{id}/convert). Horário livre responde 409 slot_available.
+ *     tags: [Me]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [space_id, check_in_date, check_out_date, start_time, end_time, adults_count]
+ *             properties:
+ *               space_id:
+ *                 type: string
+ *                 format: uuid
+ *               check_in_date:
+ *                 type: string
+ *                 format: date
+ *               check_out_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *               adults_count:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Entrada criada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WaitlistEntry'
+ *       400:
+ *         description: Dados inválidos
+ *       409:
+ *         description: Horário livre ou cliente já na fila
+ */
+export const joinMyWaitlist = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { space_id, ...body } = req.body as WaitlistInput & { space_id?: string };
+
+    if (!space_id) {
+      return res.status(400).json({ error: 'invalid_space_id' });
+    }
+
+    const entry = await addToWaitlist(res, space_id, customerId, body, req.user?.sub);
+    if (!entry) return;
+
+    return res.status(201).json(entry);
+  } catch (err) {
+    return sendInternalError(res, err, 'joinMyWaitlist');
+  }
+};
+
+/**
+ * @openapi
+ * /me/waitlist:
+ *   get:
+ *     summary: Entradas do cliente autenticado na lista de espera
+ *     tags: [Me]
+ *     responses:
+ *       200:
+ *         description: Entradas (mais recentes primeiro), com o nome do espaço
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WaitlistEntry'
+ */
+export const listMyWaitlist = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    await syncWaitlistOffers();
+
+    const { rows } = await pool.query(
+      `
+        SELECT e.*, s.name AS space_name
+        FROM (${WAITLIST_SELECT}) e
+        JOIN spaces s ON s.id = e.space_id
+        WHERE e.customer_id = $1
+        ORDER BY e.created_at DESC
+      `,
+      [customerId],
+    );
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listMyWaitlist');
+  }
+};
+
+/**
+ * @openapi
+ * /me/waitlist/{entryId}/cancel:
+ *   patch:
+ *     summary: Sai da lista de espera (recusa a oferta, se houver)
+ *     tags: [Me]
+ *     parameters:
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entrada cancelada
+ *       404:
+ *         description: Entrada não encontrada
+ *       409:
+ *         description: Entrada já encerrada
+ */
+export const leaveMyWaitlist = async (req: Request, res: Response) => {
+  try {
+    const customerId = await currentCustomerId(req, res);
+    if (!customerId) return;
+
+    const { entryId } = req.params;
+
+    const existing = await pool.query(
+      'SELECT 1 FROM waitlist_entries WHERE id = $1 AND customer_id = $2',
+      [entryId, customerId],
+    );
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: 'waitlist_entry_not_found' });
+    }
+
+    const result = await leaveWaitlist(entryId, req.user?.sub);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    return res.json(result.entry);
+  } catch (err) {
+    return sendInternalError(res, err, 'leaveMyWaitlist');
+  }
+};
+
+export {};
@@ -0,0 +1,176 @@
+// src/controllers/notification.ts
+// Outbox de avisos ao cliente (envio em services/notifications.ts)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess, managedBranchIds } from '../services/branchScope';
+import {
+  NOTIFICATION_COLUMNS,
+  NOTIFICATION_STATUSES,
+  NotificationStatus,
+  retryNotification as requeueNotification,
+} from '../services/notifications';
+
+type SqlParam = string | number | string[] | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[notifications:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+const LIST_LIMIT_DEFAULT = 100;
+const LIST_LIMIT_MAX = 500;
+
+/**
+ * @openapi
+ * /notifications:
+ *   get:
+ *     summary: Lista os avisos enviados aos clientes (outbox)
+ *     description: Mais recentes primeiro. MANAGER só vê avisos de reservas das próprias filiais.
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SENT, FAILED]
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [EMAIL, SMS]
+ *       - in: query
+ *         name: event_type
+ *         schema:
+ *           type: string
+ *           example: reservation.confirmed
+ *       - in: query
+ *         name: reservation_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *     responses:
+ *       200:
+ *         description: Lista de avisos
+ *       400:
+ *         description: status inválido (invalid_status)
+ */
+export const listNotifications = async (req: Request, res: Response) => {
+  try {
+    const { status, channel, event_type, reservation_id, limit } = req.query as {
+      status?: string;
+      channel?: string;
+      event_type?: string;
+      reservation_id?: string;
+      limit?: string;
+    };
+
+    if (status && !NOTIFICATION_STATUSES.includes(status as NotificationStatus)) {
+      return res.status(400).json({ error: 'invalid_status' });
+    }
+
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+    let idx = 1;
+
+    if (status) {
+      conditions.push(`n.status = $${idx++}`);
+      params.push(status);
+    }
+    if (channel) {
+      conditions.push(`n.channel = $${idx++}`);
+      params.push(channel);
+    }
+    if (event_type) {
+      conditions.push(`n.event_type = $${idx++}`);
+      params.push(event_type);
+    }
+    if (reservation_id) {
+      conditions.push(`n.reservation_id = $${idx++}`);
+      params.push(reservation_id);
+    }
+    if (req.user?.role === 'MANAGER') {
+      conditions.push(`r.branch_id = ANY($${idx++}::uuid[])`);
+      params.push(await managedBranchIds(req.user));
+    }
+
+    const rowLimit = Math.min(Math.max(Number(limit) || LIST_LIMIT_DEFAULT, 1), LIST_LIMIT_MAX);
+    params.push(rowLimit);
+
+    const { rows } = await pool.query(
+      `
+        SELECT ${NOTIFICATION_COLUMNS}, c.name AS customer_name
+        FROM notifications n
+        LEFT JOIN reservations r ON r.id = n.reservation_id
+        LEFT JOIN customers    c ON c.id = n.customer_id
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY n.created_at DESC
+        LIMIT $${idx}
+      `,
+      params,
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listNotifications');
+  }
+};
+
+/**
+ * @openapi
+ * /notifications/{notificationId}/retry:
+ *   post:
+ *     summary: Reenvia um aviso que falhou
+ *     description: Volta o aviso FAILED para a fila (PENDING), com as tentativas zeradas.
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Aviso de volta à fila
+ *       404:
+ *         description: Aviso não encontrado
+ *       409:
+ *         description: Só avisos FAILED podem ser reenviados (notification_not_failed)
+ */
+export const retryNotification = async (req: Request, res: Response) => {
+  try {
+    const { notificationId } = req.params;
+
+    const { rows } = await pool.query(
+      `
+        SELECT n.status, r.branch_id
+        FROM notifications n
+        LEFT JOIN reservations r ON r.id = n.reservation_id
+        WHERE n.id = $1
+      `,
+      [notificationId],
+    );
+    const current = rows[0];
+    if (!current) {
+      return res.status(404).json({ error: 'notification_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, current.branch_id))) return;
+
+    const notification = await requeueNotification(notificationId);
+    if (!notification) {
+      return res.status(409).json({ error: 'notification_not_failed', status: current.status });
+    }
+
+    return res.json(notification);
+  } catch (err) {
+    return sendInternalError(res, err, 'retryNotification');
+  }
+};
+
+export {};
@@ -2,69 +2,40 @@
 import { Request, Response } from 'express';
 import { pool } from '../db';
 import { v4 as uuid } from 'uuid';
-
-type SqlParam = string | number | null;
+import { ensureBranchAccess, managedBranchIds } from '../services/branchScope';
+import { getPaymentProvider, ProviderMethod } from '../services/paymentProvider';
+import {
+  applyChargeStatus,
+  PAYMENT_RETURNING,
+  PaymentRow,
+  PaymentTransitionResult,
+  REFUND_COLUMNS,
+  refundPayment,
+  settleReservation,
+  startProviderCharge,
+  transitionPayment,
+} from '../services/paymentCharges';
+
+type SqlParam = string | number | string[] | null;
 
 function sendInternalError(res: Response, err: unknown, context: string) {
   console.error(`[payments:${context}]`, err);
   return res.status(500).json({ error: 'internal_error', context });
 }
 
-type PaymentRow = {
-  id: string;
-  reservation_id: string;
-  amount: number;
-  method: string;
-  status: string;
-  purpose: string;
-  paid_at: string | null;
-  external_ref: string | null;
-  created_at: string | null;
-};
-
-/**
- * Helper: recalcula status da reserva com base nos pagamentos PAID.
- * - Se soma(PAID) >= total_amount -> status = 'CONFIRMED'
- * - Senão mantém como está (normalmente 'PENDING')
- */
-async function recomputeReservationStatus(reservationId: string) {
-  const sql = `
-    SELECT
-      r.id,
-      r.total_amount::float8 AS total_amount,
-      COALESCE(SUM(
-        CASE WHEN p.status = 'PAID' THEN p.amount ELSE 0 END
-      ), 0)::float8 AS paid_sum
-    FROM reservations r
-    LEFT JOIN payments p ON p.reservation_id = r.id
-    WHERE r.id = $1
-    GROUP BY r.id, r.total_amount
-  `;
-  const { rows } = await pool.query(sql, [reservationId]);
-
-  if (!rows[0]) {
-    return; // reserva não encontrada (não deve acontecer aqui)
-  }
-
-  const totalAmount = Number(rows[0].total_amount);
-  const paidSum = Number(rows[0].paid_sum);
+const PAYMENT_PURPOSES = ['DEPOSIT', 'BALANCE'];
 
-  if (paidSum >= totalAmount && totalAmount > 0) {
-    await pool.query(
-      `
-        UPDATE reservations
-        SET status = 'CONFIRMED',
-            updated_at = NOW()
-        WHERE id = $1
-      `,
-      [reservationId],
-    );
-  }
-}
+// reservas que ainda recebem pagamento (finalizadas/canceladas não)
+const PAYABLE_STATUSES = ['PENDING', 'CONFIRMED', 'CHECKED_IN'];
 
 /* ===========================================================
    POST /reservations/:reservationId/payments
    Criar pagamento (parcial ou total)
+   charge = true cobra pelo provedor configurado (PIX/CARD):
+   cartão pode ser aprovado ou recusado (402) na hora; PIX volta
+   PENDING com o QR code em provider_payload.pix
+   Sem purpose: DEPOSIT enquanto faltar sinal, senão BALANCE
+   Só em reservas abertas (PAYABLE_STATUSES); senão 409
    =========================================================== */
 export const registerPayment = async (req: Request, res: Response) => {
   try {
@@ -74,11 +45,15 @@ export const registerPayment = async (req: Request, res: Response) => {
       method,
       purpose,
       external_ref,
+      charge,
+      card,
     } = req.body as {
       amount?: number;
       method?: string;
       purpose?: string;
       external_ref?: string | null;
+      charge?: boolean;
+      card?: { number?: string; holder_name?: string };
     };
 
     if (amount == null || isNaN(Number(amount)) || Number(amount) <= 0) {
@@ -88,21 +63,53 @@ export const registerPayment = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'invalid_method' });
     }
 
-    // 1) Verifica se a reserva existe e pega o total
+    const provider = charge ? getPaymentProvider() : undefined;
+    if (charge && !provider) {
+      return res.status(503).json({ error: 'payment_provider_unavailable' });
+    }
+    if (provider && !provider.methods.includes(method as ProviderMethod)) {
+      return res.status(400).json({ error: 'method_not_supported_by_provider' });
+    }
+
+    // 1) Verifica se a reserva existe e pega o total (aluguel + adicionais)
     const reservationCheck = await pool.query(
-      'SELECT id, total_amount::float8 AS total_amount FROM reservations WHERE id = $1',
+      `
+        SELECT r.id, r.branch_id, r.status,
+               r.total_amount::float8 AS total_amount,
+               r.deposit_pct::float8  AS deposit_pct,
+               c.name  AS customer_name,
+               c.email AS customer_email
+        FROM reservations r
+        JOIN customers c ON c.id = r.customer_id
+        WHERE r.id = $1
+      `,
       [reservationId],
     );
     if (reservationCheck.rowCount === 0) {
       return res.status(404).json({ error: 'reservation_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, reservationCheck.rows[0].branch_id))) return;
+    if (!PAYABLE_STATUSES.includes(reservationCheck.rows[0].status)) {
+      return res.status(409).json({
+        error: 'reservation_not_payable',
+        status: reservationCheck.rows[0].status,
+      });
+    }
 
     const totalAmount = Number(reservationCheck.rows[0].total_amount);
+    const depositPct = Number(reservationCheck.rows[0].deposit_pct);
+    const depositDue = Math.round(totalAmount * depositPct) / 100;
+
+    if (purpose && !PAYMENT_PURPOSES.includes(purpose.trim())) {
+      return res.status(400).json({ error: 'invalid_purpose' });
+    }
 
     // 2) Soma pagamentos já existentes (PENDING + PAID) para não ultrapassar o total
     const sumRes = await pool.query(
       `
-        SELECT COALESCE(SUM(amount), 0)::float8 AS committed
+        SELECT
+          COALESCE(SUM(amount), 0)::float8 AS committed,
+          COALESCE(SUM(amount) FILTER (WHERE purpose = 'DEPOSIT'), 0)::float8 AS deposit_committed
         FROM payments
         WHERE reservation_id = $1
           AND status IN ('PENDING', 'PAID')
@@ -111,6 +118,12 @@ export const registerPayment = async (req: Request, res: Response) => {
     );
     const alreadyCommitted = Number(sumRes.rows[0].committed);
     const remaining = totalAmount - alreadyCommitted;
+    const depositRemaining = depositDue - Number(sumRes.rows[0].deposit_committed);
+
+    // sem purpose: sinal enquanto faltar sinal, depois saldo
+    const finalPurpose = purpose && purpose.trim()
+      ? purpose.trim()
+      : depositRemaining > 0.0001 ? 'DEPOSIT' : 'BALANCE';
 
     if (Number(amount) > remaining + 0.0001) {
       // pequeno delta por segurança de arredondamento
@@ -121,25 +134,27 @@ export const registerPayment = async (req: Request, res: Response) => {
       });
     }
 
+    // sinal não passa de deposit_pct do total (quando a reserva define um)
+    if (finalPurpose === 'DEPOSIT' && depositPct > 0) {
+      if (Number(amount) > depositRemaining + 0.0001) {
+        return res.status(400).json({
+          error: 'amount_exceeds_deposit',
+          message: 'Valor do sinal excede o percentual de sinal da reserva.',
+          deposit_due: depositDue,
+          remaining: Math.max(depositRemaining, 0),
+        });
+      }
+    }
+
     // 3) Cria o pagamento (PENDING)
     const id = uuid();
-    const finalPurpose = purpose && purpose.trim() ? purpose.trim() : 'DEPOSIT';
 
     const sql = `
       INSERT INTO payments
-        (id, reservation_id, amount, method, status, purpose, external_ref)
+        (id, reservation_id, amount, method, status, purpose, external_ref, provider)
       VALUES
-        ($1, $2, $3, $4, 'PENDING', $5, $6)
-      RETURNING
-        id,
-        reservation_id,
-        amount::float8 AS amount,
-        method,
-        status,
-        purpose,
-        external_ref,
-        paid_at,
-        created_at
+        ($1, $2, $3, $4, 'PENDING', $5, $6, $7)
+      RETURNING ${PAYMENT_RETURNING}
     `;
 
     const params: SqlParam[] = [
@@ -148,11 +163,43 @@ export const registerPayment = async (req: Request, res: Response) => {
       Number(amount),
       method,
       finalPurpose,
-      external_ref ?? null,
+      provider ? null : external_ref ?? null,
+      provider?.name ?? null,
     ];
 
     const { rows } = await pool.query<PaymentRow>(sql, params);
-    return res.status(201).json(rows[0]);
+    if (!provider) {
+      return res.status(201).json(rows[0]);
+    }
+
+    // 4) Cobrança no provedor (o external_ref vem dele)
+    let charged;
+    try {
+      charged = await startProviderCharge(
+        provider,
+        rows[0],
+        {
+          payer: {
+            name: reservationCheck.rows[0].customer_name,
+            email: reservationCheck.rows[0].customer_email,
+          },
+          card,
+        },
+        req.user?.sub,
+      );
+    } catch (err) {
+      console.error('[payments:registerPayment] falha no provedor', err);
+      return res.status(502).json({ error: 'payment_provider_error', payment_id: id });
+    }
+
+    if (charged.charge.status === 'DECLINED') {
+      return res.status(402).json({
+        error: 'payment_declined',
+        decline_reason: charged.charge.decline_reason,
+        payment: charged.payment,
+      });
+    }
+    return res.status(201).json(charged.payment);
   } catch (err) {
     return sendInternalError(res, err, 'registerPayment');
   }
@@ -167,25 +214,37 @@ export const fetchPayment = async (req: Request, res: Response) => {
 
     const sql = `
       SELECT
-        id,
-        reservation_id,
-        amount::float8 AS amount,
-        method,
-        status,
-        purpose,
-        external_ref,
-        paid_at,
-        created_at
-      FROM payments
-      WHERE id = $1
+        p.id,
+        p.reservation_id,
+        p.amount::float8 AS amount,
+        p.method,
+        p.status,
+        p.purpose,
+        p.external_ref,
+        p.provider,
+        p.provider_payload,
+        (
+          SELECT COALESCE(SUM(rf.amount), 0)
+          FROM refunds rf
+          WHERE rf.payment_id = p.id AND rf.status <> 'FAILED'
+        )::float8 AS refunded_amount,
+        p.paid_at,
+        p.created_at,
+        r.branch_id
+      FROM payments p
+      JOIN reservations r ON r.id = p.reservation_id
+      WHERE p.id = $1
     `;
-    const { rows } = await pool.query<PaymentRow>(sql, [paymentId]);
+    const { rows } = await pool.query<PaymentRow & { branch_id: string }>(sql, [paymentId]);
 
     if (!rows[0]) {
       return res.status(404).json({ error: 'payment_not_found' });
     }
 
-    return res.json(rows[0]);
+    const { branch_id, ...payment } = rows[0];
+    if (!(await ensureBranchAccess(req, res, branch_id))) return;
+
+    return res.json(payment);
   } catch (err) {
     return sendInternalError(res, err, 'fetchPayment');
   }
@@ -194,6 +253,7 @@ export const fetchPayment = async (req: Request, res: Response) => {
 /* ===========================================================
    POST /payments/:paymentId/confirm
    Confirma pagamento & atualiza status da reserva se quitada
+   409 invalid_payment_transition se não estiver PENDING
    =========================================================== */
 export const confirmPayment = async (req: Request, res: Response) => {
   try {
@@ -204,67 +264,216 @@ export const confirmPayment = async (req: Request, res: Response) => {
     };
 
     const exists = await pool.query(
-      'SELECT status FROM payments WHERE id = $1',
+      `
+        SELECT p.status, r.branch_id
+        FROM payments p
+        JOIN reservations r ON r.id = p.reservation_id
+        WHERE p.id = $1
+      `,
       [paymentId],
     );
     if (!exists.rows[0]) {
       return res.status(404).json({ error: 'payment_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, exists.rows[0].branch_id))) return;
+
+    // só PENDING -> PAID; pagamento já pago, cancelado ou devolvido não muda
+    const client = await pool.connect();
+    let result: PaymentTransitionResult;
+    try {
+      await client.query('BEGIN');
+      result = await transitionPayment(client, paymentId, 'PAID', {
+        paidAt: paid_at,
+        externalRef: external_ref,
+        actorId: req.user?.sub,
+      });
+      await client.query(result.ok ? 'COMMIT' : 'ROLLBACK');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
 
-    const sql = `
-      UPDATE payments
-      SET status       = 'PAID',
-          paid_at      = COALESCE($2::timestamptz, NOW()),
-          external_ref = COALESCE($3, external_ref)
-      WHERE id = $1
-      RETURNING
-        id,
-        reservation_id,
-        amount::float8 AS amount,
-        method,
-        status,
-        purpose,
-        external_ref,
-        paid_at,
-        created_at
-    `;
-    const params: SqlParam[] = [
-      paymentId,
-      paid_at ?? null,
-      external_ref ?? null,
-    ];
-
-    const { rows } = await pool.query<PaymentRow>(sql, params);
-    const payment = rows[0];
+    if (!result.ok) {
+      return res.status(409).json({ error: result.error, status: result.from });
+    }
 
     // Recalcula status da reserva após confirmar este pagamento
-    await recomputeReservationStatus(payment.reservation_id);
+    await settleReservation(result.payment, 'PAID', req.user?.sub);
 
-    return res.json(payment);
+    return res.json(result.payment);
   } catch (err) {
     return sendInternalError(res, err, 'confirmPayment');
   }
 };
 
+/* ===========================================================
+   POST /payments/:paymentId/sync
+   Consulta a cobrança no provedor e aplica o status atual
+   (reconciliação quando o aviso do provedor não chegou)
+   =========================================================== */
+export const syncPayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+
+    const lookup = await pool.query(
+      `
+        SELECT p.provider, p.external_ref, r.branch_id
+        FROM payments p
+        JOIN reservations r ON r.id = p.reservation_id
+        WHERE p.id = $1
+      `,
+      [paymentId],
+    );
+    if (!lookup.rows[0]) {
+      return res.status(404).json({ error: 'payment_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, lookup.rows[0].branch_id))) return;
+
+    const { provider: providerName, external_ref } = lookup.rows[0];
+    if (!providerName || !external_ref) {
+      return res.status(400).json({ error: 'payment_not_charged' });
+    }
+
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      return res.status(503).json({ error: 'payment_provider_unavailable' });
+    }
+
+    const charge = await provider.getCharge(external_ref);
+    if (!charge) {
+      return res.status(404).json({ error: 'charge_not_found' });
+    }
+
+    return res.json(await applyChargeStatus(paymentId, charge, req.user?.sub));
+  } catch (err) {
+    return sendInternalError(res, err, 'syncPayment');
+  }
+};
+
+/* ===========================================================
+   POST /payments/:paymentId/refunds
+   Reembolso parcial ou total de um pagamento PAID
+   (pelo provedor quando o pagamento foi cobrado por ele)
+   =========================================================== */
+export const createPaymentRefund = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const { amount, reason } = req.body as {
+      amount?: number;
+      reason?: string | null;
+    };
+
+    if (amount == null || isNaN(Number(amount)) || Number(amount) <= 0) {
+      return res.status(400).json({ error: 'invalid_amount' });
+    }
+    if (reason != null && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'invalid_reason' });
+    }
+
+    const lookup = await pool.query(
+      `
+        SELECT r.branch_id
+        FROM payments p
+        JOIN reservations r ON r.id = p.reservation_id
+        WHERE p.id = $1
+      `,
+      [paymentId],
+    );
+    if (!lookup.rows[0]) {
+      return res.status(404).json({ error: 'payment_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, lookup.rows[0].branch_id))) return;
+
+    const result = await refundPayment(
+      paymentId,
+      { amount: Number(amount), reason: reason?.trim() || null },
+      req.user?.sub,
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, ...result.details });
+    }
+
+    return res.status(201).json({ refund: result.refund, payment: result.payment });
+  } catch (err) {
+    return sendInternalError(res, err, 'createPaymentRefund');
+  }
+};
+
+/* ===========================================================
+   GET /payments/:paymentId/refunds
+   Reembolsos do pagamento (inclusive FAILED), mais recentes primeiro
+   =========================================================== */
+export const listPaymentRefunds = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+
+    const lookup = await pool.query(
+      `
+        SELECT r.branch_id
+        FROM payments p
+        JOIN reservations r ON r.id = p.reservation_id
+        WHERE p.id = $1
+      `,
+      [paymentId],
+    );
+    if (!lookup.rows[0]) {
+      return res.status(404).json({ error: 'payment_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, lookup.rows[0].branch_id))) return;
+
+    const { rows } = await pool.query(
+      `
+        SELECT ${REFUND_COLUMNS}
+        FROM refunds
+        WHERE payment_id = $1
+        ORDER BY created_at DESC
+      `,
+      [paymentId],
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listPaymentRefunds');
+  }
+};
+
 /* ===========================================================
    DELETE /payments/:paymentId
-   Só permite deletar se NÃO estiver PAID
+   Só permite deletar se NÃO estiver PAID e não tiver sido cobrado
+   pelo provedor (esses passam por cancelamento ou reembolso)
    =========================================================== */
 export const removePayment = async (req: Request, res: Response) => {
   try {
     const { paymentId } = req.params;
 
     const lookup = await pool.query(
-      'SELECT status, reservation_id FROM payments WHERE id = $1',
+      `
+        SELECT p.status, p.provider, p.reservation_id, r.branch_id,
+               EXISTS (SELECT 1 FROM refunds rf WHERE rf.payment_id = p.id) AS has_refunds
+        FROM payments p
+        JOIN reservations r ON r.id = p.reservation_id
+        WHERE p.id = $1
+      `,
       [paymentId],
     );
 
     if (!lookup.rows[0]) {
       return res.status(404).json({ error: 'payment_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, lookup.rows[0].branch_id))) return;
     if (lookup.rows[0].status === 'PAID') {
       return res.status(400).json({ error: 'cannot_delete_paid_payment' });
     }
+    // cobrança do provedor é o vínculo com o dinheiro: sai por cancelamento ou reembolso
+    if (lookup.rows[0].provider) {
+      return res.status(409).json({ error: 'cannot_delete_provider_payment' });
+    }
+    // excluir levaria junto (cascade) o registro do dinheiro devolvido
+    if (lookup.rows[0].status === 'REFUNDED' || lookup.rows[0].has_refunds) {
+      return res.status(409).json({ error: 'cannot_delete_refunded_payment' });
+    }
 
     const reservationId: string = lookup.rows[0].reservation_id;
 
@@ -283,6 +492,7 @@ export const removePayment = async (req: Request, res: Response) => {
 /* ===========================================================
    GET /payments
    Usa check_in_date / check_out_date da reserva
+   MANAGER sempre fica restrito às próprias filiais
    =========================================================== */
 export const listPayments = async (req: Request, res: Response) => {
   try {
@@ -315,6 +525,13 @@ export const listPayments = async (req: Request, res: Response) => {
         p.status,
         p.purpose,
         p.external_ref,
+        p.provider,
+        p.provider_payload,
+        (
+          SELECT COALESCE(SUM(rf.amount), 0)
+          FROM refunds rf
+          WHERE rf.payment_id = p.id AND rf.status <> 'FAILED'
+        )::float8 AS refunded_amount,
         p.paid_at,
         p.created_at,
 
@@ -380,6 +597,12 @@ export const listPayments = async (req: Request, res: Response) => {
       params.push(to_date);
     }
 
+    // aplicado por último e sem depender dos filtros da query string
+    if (req.user?.role === 'MANAGER') {
+      conditions.push(`b.id = ANY($${idx++}::uuid[])`);
+      params.push(await managedBranchIds(req.user));
+    }
+
     if (conditions.length > 0) {
       sql += ` WHERE ${conditions.join(' AND ')}`;
     }
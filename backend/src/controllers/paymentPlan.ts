@@ -0,0 +1,478 @@
+// src/controllers/paymentPlan.ts
+// Parcelamento do saldo da reserva (casamento com pagamentos em services/paymentPlans.ts)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess, managedBranchIds } from '../services/branchScope';
+import { INSTALLMENT_COLUMNS, INSTALLMENT_MAX } from '../services/paymentPlans';
+import { BALANCE_DUE_DAYS } from '../services/paymentTerms';
+import { netPaidAmount } from '../services/reservationPayments';
+
+type SqlParam = string | number | string[] | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[payment-plans:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// só reservas ainda em aberto podem ser parceladas
+const PLANNABLE_STATUSES = ['PENDING', 'CONFIRMED'];
+
+type InstallmentInput = { due_date?: string; amount?: number };
+
+/**
+ * Busca a reserva e verifica se o usuário administra a filial.
+ * Responde 404/403 e retorna undefined.
+ */
+async function loadReservation(req: Request, res: Response) {
+  const { rows } = await pool.query(
+    `
+      SELECT id, branch_id, status,
+             total_amount::float8 AS total_amount,
+             to_char(check_in_date - $2::int, 'YYYY-MM-DD') AS balance_due_date
+      FROM reservations
+      WHERE id = $1
+    `,
+    [req.params.reservationId, BALANCE_DUE_DAYS],
+  );
+  if (!rows[0]) {
+    res.status(404).json({ error: 'reservation_not_found' });
+    return undefined;
+  }
+  if (!(await ensureBranchAccess(req, res, rows[0].branch_id))) return undefined;
+  return rows[0];
+}
+
+// plano atual (ACTIVE ou COMPLETED) com parcelas e o que pagou cada uma
+async function loadPlan(reservationId: string) {
+  const plan = await pool.query(
+    `
+      SELECT id, reservation_id, status, covered_amount::float8 AS covered_amount,
+             created_by, created_at
+      FROM payment_plans
+      WHERE reservation_id = $1 AND status <> 'CANCELLED'
+    `,
+    [reservationId],
+  );
+  if (!plan.rows[0]) return null;
+
+  const installments = await pool.query(
+    `
+      SELECT
+        ${INSTALLMENT_COLUMNS},
+        COALESCE((
+          SELECT json_agg(json_build_object('payment_id', a.payment_id, 'amount', a.amount::float8))
+          FROM installment_allocations a
+          WHERE a.installment_id = i.id
+        ), '[]'::json) AS allocations
+      FROM payment_installments i
+      WHERE i.plan_id = $1
+      ORDER BY i.seq
+    `,
+    [plan.rows[0].id],
+  );
+
+  return { ...plan.rows[0], installments: installments.rows };
+}
+
+/**
+ * Valida as parcelas (datas de hoje até o vencimento do saldo, valores
+ * positivos) e devolve-as em ordem de vencimento, em centavos.
+ * Responde 400 e retorna undefined.
+ */
+function validateInstallments(
+  res: Response,
+  installments: unknown,
+  balanceDueDate: string,
+): { due_date: string; cents: number }[] | undefined {
+  if (
+    !Array.isArray(installments) ||
+    installments.length === 0 ||
+    installments.length > INSTALLMENT_MAX
+  ) {
+    res.status(400).json({ error: 'invalid_installments', max: INSTALLMENT_MAX });
+    return undefined;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const parsed: { due_date: string; cents: number }[] = [];
+
+  for (const [index, item] of (installments as InstallmentInput[]).entries()) {
+    const dueDate = item?.due_date;
+    if (typeof dueDate !== 'string' || !DATE_RE.test(dueDate) || isNaN(Date.parse(dueDate))) {
+      res.status(400).json({ error: 'invalid_due_date', index });
+      return undefined;
+    }
+    if (dueDate < today) {
+      res.status(400).json({ error: 'due_date_in_past', index });
+      return undefined;
+    }
+    if (dueDate > balanceDueDate) {
+      res.status(400).json({
+        error: 'installment_after_balance_due',
+        index,
+        balance_due_date: balanceDueDate,
+      });
+      return undefined;
+    }
+
+    const cents = Math.round(Number(item.amount) * 100);
+    if (!Number.isFinite(cents) || cents <= 0) {
+      res.status(400).json({ error: 'invalid_amount', index });
+      return undefined;
+    }
+    parsed.push({ due_date: dueDate, cents });
+  }
+
+  return parsed.sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     PaymentInstallment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         seq:
+ *           type: integer
+ *         due_date:
+ *           type: string
+ *           format: date
+ *         amount:
+ *           type: number
+ *         paid_amount:
+ *           type: number
+ *         status:
+ *           type: string
+ *           enum: [PENDING, PAID, OVERDUE]
+ *         paid_at:
+ *           type: string
+ *           nullable: true
+ *         allocations:
+ *           type: array
+ *           description: Pagamentos que quitaram a parcela (casados automaticamente)
+ *           items:
+ *             type: object
+ *             properties:
+ *               payment_id:
+ *                 type: string
+ *                 format: uuid
+ *               amount:
+ *                 type: number
+ *     PaymentPlan:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         reservation_id:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [ACTIVE, COMPLETED, CANCELLED]
+ *         covered_amount:
+ *           type: number
+ *           description: Valor já pago quando o plano foi criado
+ *         installments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PaymentInstallment'
+ */
+
+/**
+ * @openapi
+ * /reservations/{reservationId}/payment-plan:
+ *   get:
+ *     summary: Plano de parcelamento atual da reserva
+ *     tags: [Payment Plans]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Plano com as parcelas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentPlan'
+ *       404:
+ *         description: reservation_not_found ou payment_plan_not_found
+ */
+export const fetchPaymentPlan = async (req: Request, res: Response) => {
+  try {
+    const reservation = await loadReservation(req, res);
+    if (!reservation) return;
+
+    const plan = await loadPlan(reservation.id);
+    if (!plan) {
+      return res.status(404).json({ error: 'payment_plan_not_found' });
+    }
+    return res.json(plan);
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchPaymentPlan');
+  }
+};
+
+/**
+ * @openapi
+ * /reservations/{reservationId}/payment-plan:
+ *   put:
+ *     summary: Parcela o saldo em aberto da reserva (substitui o plano atual)
+ *     description: >
+ *       As parcelas devem somar exatamente o saldo (total menos o valor pago líquido) e vencer entre
+ *       hoje e a data de vencimento do saldo (BALANCE_DUE_DAYS antes do check-in). Os pagamentos
+ *       seguintes quitam as parcelas em ordem de vencimento.
+ *     tags: [Payment Plans]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [installments]
+ *             properties:
+ *               installments:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     due_date:
+ *                       type: string
+ *                       format: date
+ *                     amount:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: Plano criado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentPlan'
+ *       400:
+ *         description: >
+ *           invalid_installments, invalid_due_date, due_date_in_past, installment_after_balance_due,
+ *           invalid_amount ou installments_total_mismatch (com expected)
+ *       409:
+ *         description: reservation_not_payable ou nothing_to_schedule
+ */
+export const savePaymentPlan = async (req: Request, res: Response) => {
+  try {
+    const reservation = await loadReservation(req, res);
+    if (!reservation) return;
+
+    if (!PLANNABLE_STATUSES.includes(reservation.status)) {
+      return res.status(409).json({ error: 'reservation_not_payable', status: reservation.status });
+    }
+
+    const installments = validateInstallments(
+      res,
+      req.body?.installments,
+      reservation.balance_due_date,
+    );
+    if (!installments) return;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // trava a reserva: outro plano salvo ao mesmo tempo espera este
+      await client.query('SELECT 1 FROM reservations WHERE id = $1 FOR UPDATE', [reservation.id]);
+
+      const paid = await netPaidAmount(reservation.id);
+      const balanceCents = Math.round(Number(reservation.total_amount) * 100) - Math.round(paid * 100);
+      if (balanceCents <= 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'nothing_to_schedule' });
+      }
+
+      const totalCents = installments.reduce((sum, i) => sum + i.cents, 0);
+      if (totalCents !== balanceCents) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          error: 'installments_total_mismatch',
+          expected: balanceCents / 100,
+          received: totalCents / 100,
+        });
+      }
+
+      await client.query(
+        `
+          UPDATE payment_plans
+          SET status = 'CANCELLED', cancelled_at = NOW()
+          WHERE reservation_id = $1 AND status <> 'CANCELLED'
+        `,
+        [reservation.id],
+      );
+
+      const plan = await client.query(
+        `
+          INSERT INTO payment_plans (reservation_id, covered_amount, created_by)
+          VALUES ($1, $2, $3)
+          RETURNING id
+        `,
+        [reservation.id, Math.round(paid * 100) / 100, req.user?.sub ?? null],
+      );
+
+      for (const [index, installment] of installments.entries()) {
+        await client.query(
+          `
+            INSERT INTO payment_installments (plan_id, seq, due_date, amount)
+            VALUES ($1, $2, $3, $4)
+          `,
+          [plan.rows[0].id, index + 1, installment.due_date, installment.cents / 100],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    return res.status(201).json(await loadPlan(reservation.id));
+  } catch (err) {
+    return sendInternalError(res, err, 'savePaymentPlan');
+  }
+};
+
+/**
+ * @openapi
+ * /reservations/{reservationId}/payment-plan:
+ *   delete:
+ *     summary: Cancela o plano de parcelamento da reserva
+ *     description: Os pagamentos já feitos continuam valendo; o saldo volta a ser cobrado de uma vez.
+ *     tags: [Payment Plans]
+ *     parameters:
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Plano cancelado
+ *       404:
+ *         description: reservation_not_found ou payment_plan_not_found
+ */
+export const removePaymentPlan = async (req: Request, res: Response) => {
+  try {
+    const reservation = await loadReservation(req, res);
+    if (!reservation) return;
+
+    const { rowCount } = await pool.query(
+      `
+        UPDATE payment_plans
+        SET status = 'CANCELLED', cancelled_at = NOW()
+        WHERE reservation_id = $1 AND status <> 'CANCELLED'
+      `,
+      [reservation.id],
+    );
+    if (!rowCount) {
+      return res.status(404).json({ error: 'payment_plan_not_found' });
+    }
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removePaymentPlan');
+  }
+};
+
+/**
+ * @openapi
+ * /payment-plans/upcoming:
+ *   get:
+ *     summary: Agenda de parcelas em aberto (vencidas e a vencer)
+ *     description: >
+ *       Parcelas PENDING com vencimento nos próximos `days` dias e todas as OVERDUE, de planos
+ *       ativos, em ordem de vencimento. MANAGER só vê as próprias filiais.
+ *     tags: [Payment Plans]
+ *     parameters:
+ *       - in: query
+ *         name: branch_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *     responses:
+ *       200:
+ *         description: Parcelas com reserva, cliente, espaço e filial
+ */
+export const listUpcomingInstallments = async (req: Request, res: Response) => {
+  try {
+    const { branch_id, days } = req.query as { branch_id?: string; days?: string };
+
+    const horizon = days === undefined ? 30 : Number(days);
+    if (!Number.isInteger(horizon) || horizon < 0 || horizon > 366) {
+      return res.status(400).json({ error: 'invalid_days' });
+    }
+
+    const conditions = [
+      "pl.status = 'ACTIVE'",
+      `(i.status = 'OVERDUE' OR (i.status = 'PENDING' AND i.due_date <= CURRENT_DATE + $1::int))`,
+    ];
+    const params: SqlParam[] = [horizon];
+    let idx = 2;
+
+    if (branch_id) {
+      conditions.push(`r.branch_id = $${idx++}`);
+      params.push(branch_id);
+    }
+    if (req.user?.role === 'MANAGER') {
+      conditions.push(`r.branch_id = ANY($${idx++}::uuid[])`);
+      params.push(await managedBranchIds(req.user));
+    }
+
+    const { rows } = await pool.query(
+      `
+        SELECT
+          ${INSTALLMENT_COLUMNS},
+          r.id          AS reservation_id,
+          to_char(r.check_in_date, 'YYYY-MM-DD') AS check_in_date,
+          r.status      AS reservation_status,
+          c.name        AS customer_name,
+          c.email       AS customer_email,
+          s.name        AS space_name,
+          b.id          AS branch_id,
+          b.name        AS branch_name
+        FROM payment_installments i
+        JOIN payment_plans pl ON pl.id = i.plan_id
+        JOIN reservations  r  ON r.id = pl.reservation_id
+        JOIN customers     c  ON c.id = r.customer_id
+        JOIN spaces        s  ON s.id = r.space_id
+        JOIN branches      b  ON b.id = r.branch_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY i.due_date ASC, i.seq ASC
+      `,
+      params,
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listUpcomingInstallments');
+  }
+};
+
+export {};
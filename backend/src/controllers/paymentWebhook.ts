@@ -0,0 +1,86 @@
+// src/controllers/paymentWebhook.ts
+// Avisos assíncronos do provedor de pagamentos (processamento em services/paymentWebhooks.ts)
+import { Request, Response } from 'express';
+import { getPaymentProvider } from '../services/paymentProvider';
+import { processPaymentWebhook } from '../services/paymentWebhooks';
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[payment-webhooks:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+/**
+ * @openapi
+ * /webhooks/payments/{provider}:
+ *   post:
+ *     summary: Recebe um aviso de mudança de cobrança do provedor
+ *     description: >
+ *       Rota pública, autenticada pela assinatura HMAC do corpo (no sandbox, header
+ *       x-sandbox-signature). O pagamento é localizado por external_ref e o status
+ *       (PAID, REFUNDED, CANCELLED) aplicado como no confirmPayment. Entregas repetidas
+ *       ou fora de ordem são registradas e ignoradas (outcome DUPLICATE / STALE).
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: sandbox
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               event_id:
+ *                 type: string
+ *               external_ref:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, PAID, DECLINED, CANCELLED, REFUNDED]
+ *               sequence:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Evento registrado (outcome APPLIED, IGNORED, DUPLICATE ou STALE)
+ *       400:
+ *         description: invalid_payload
+ *       401:
+ *         description: invalid_signature
+ *       404:
+ *         description: payment_provider_not_found ou payment_not_found (evento registrado como UNMATCHED)
+ */
+export const receivePaymentWebhook = async (req: Request, res: Response) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'payment_provider_not_found' });
+    }
+
+    // a assinatura é sobre o corpo cru (app.ts usa express.raw em /webhooks)
+    const payload = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    if (!provider.verifyWebhook(payload, req.get(provider.signatureHeader))) {
+      return res.status(401).json({ error: 'invalid_signature' });
+    }
+
+    const event = provider.parseWebhook(payload);
+    if (!event) {
+      return res.status(400).json({ error: 'invalid_payload' });
+    }
+
+    const result = await processPaymentWebhook(provider.name, event);
+    if (result.outcome === 'UNMATCHED') {
+      // 404 faz o provedor reenviar (a cobrança pode ainda não estar gravada)
+      return res.status(404).json({ error: 'payment_not_found', outcome: result.outcome });
+    }
+
+    return res.json({ received: true, ...result });
+  } catch (err) {
+    return sendInternalError(res, err, 'receivePaymentWebhook');
+  }
+};
+
+export {};
@@ -0,0 +1,486 @@
+// src/controllers/pricing.ts
+// Regras de preço dos espaços e orçamento (quote)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess } from '../services/branchScope';
+import { hasConflictingReservation } from '../services/availability';
+import { loadSpacePricing, buildQuote, reservationHours, SurchargeKind } from '../services/pricing';
+import { applyCoupon, COUPON_ERROR_STATUS, findApplicableCoupon } from '../services/coupons';
+import { applyAddons, resolveAddonItems } from '../services/addons';
+
+type SqlParam = string | number | boolean | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[pricing:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}(:\d{2})?$/;
+const SURCHARGE_KINDS: SurchargeKind[] = ['HOLIDAY', 'SEASON'];
+
+// campos numéricos opcionais de space_pricing_rules
+const RULE_FIELDS = [
+  'weekday_price_per_hour',
+  'weekend_price_per_hour',
+  'min_billable_hours',
+  'extra_guest_threshold',
+  'extra_guest_fee',
+] as const;
+
+/**
+ * Busca o espaço e checa a filial do usuário. Responde 404/403 e retorna undefined.
+ */
+async function fetchManagedSpace(req: Request, res: Response) {
+  const { rows } = await pool.query(
+    'SELECT id, branch_id FROM spaces WHERE id = $1',
+    [req.params.spaceId],
+  );
+  if (!rows[0]) {
+    res.status(404).json({ error: 'space_not_found' });
+    return undefined;
+  }
+  if (!(await ensureBranchAccess(req, res, rows[0].branch_id))) return undefined;
+  return rows[0] as { id: string; branch_id: string };
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     PriceQuote:
+ *       type: object
+ *       properties:
+ *         hours:
+ *           type: number
+ *         billable_hours:
+ *           type: number
+ *         total_amount:
+ *           type: number
+ *         lines:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 enum: [BASE_WEEKDAY, BASE_WEEKEND, HOLIDAY, SEASON, MINIMUM_HOURS, EXTRA_GUESTS, COUPON, ADDON]
+ *               description:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               quantity:
+ *                 type: number
+ *               unit_price:
+ *                 type: number
+ *               amount:
+ *                 type: number
+ *     PricingRules:
+ *       type: object
+ *       description: Campos nulos usam o price_per_hour do espaço ou desligam a regra.
+ *       properties:
+ *         weekday_price_per_hour:
+ *           type: number
+ *           nullable: true
+ *         weekend_price_per_hour:
+ *           type: number
+ *           nullable: true
+ *         min_billable_hours:
+ *           type: number
+ *           nullable: true
+ *         extra_guest_threshold:
+ *           type: integer
+ *           nullable: true
+ *         extra_guest_fee:
+ *           type: number
+ *           nullable: true
+ *           description: Valor por adulto acima de extra_guest_threshold (por reserva)
+ */
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/quote:
+ *   post:
+ *     summary: Orçamento detalhado de um período no espaço
+ *     description: >
+ *       Mesmo cálculo usado para o total_amount da reserva (gravado em price_breakdown).
+ *       "available" indica se o período está livre no momento.
+ *     tags: [Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [check_in_date, check_out_date, start_time, end_time]
+ *             properties:
+ *               check_in_date:
+ *                 type: string
+ *                 format: date
+ *               check_out_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *               adults_count:
+ *                 type: integer
+ *               coupon_code:
+ *                 type: string
+ *                 description: Aplica o cupom como linha COUPON (sem consumir um uso)
+ *               items:
+ *                 type: array
+ *                 description: Adicionais (linhas ADDON), mesmo formato da reserva
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     addon_id:
+ *                       type: string
+ *                       format: uuid
+ *                     quantity:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: Orçamento
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PriceQuote'
+ *                 - type: object
+ *                   properties:
+ *                     space_id:
+ *                       type: string
+ *                     available:
+ *                       type: boolean
+ *       400:
+ *         description: Período inválido, capacidade excedida ou cupom inválido
+ *       404:
+ *         description: Espaço ou cupom não encontrado
+ *       409:
+ *         description: Cupom esgotado
+ */
+export const quoteSpace = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+    const { check_in_date, check_out_date, start_time, end_time, adults_count, coupon_code, items } =
+      req.body as {
+        check_in_date?: string;
+        check_out_date?: string;
+        start_time?: string;
+        end_time?: string;
+        adults_count?: number;
+        coupon_code?: string;
+        items?: unknown;
+      };
+
+    if (!check_in_date || !DATE_RE.test(check_in_date)) {
+      return res.status(400).json({ error: 'invalid_check_in_date' });
+    }
+    if (!check_out_date || !DATE_RE.test(check_out_date)) {
+      return res.status(400).json({ error: 'invalid_check_out_date' });
+    }
+    if (!start_time || !TIME_RE.test(start_time)) {
+      return res.status(400).json({ error: 'invalid_start_time' });
+    }
+    if (!end_time || !TIME_RE.test(end_time)) {
+      return res.status(400).json({ error: 'invalid_end_time' });
+    }
+
+    const period = { check_in_date, check_out_date, start_time, end_time };
+    if (!(reservationHours(period) > 0)) {
+      return res.status(400).json({ error: 'invalid_time_range' });
+    }
+
+    const adults = adults_count == null ? 1 : Number(adults_count);
+    if (!Number.isInteger(adults) || adults <= 0) {
+      return res.status(400).json({ error: 'invalid_adults_count' });
+    }
+
+    const space = await pool.query(
+      'SELECT id, branch_id, capacity FROM spaces WHERE id = $1 AND active = TRUE',
+      [spaceId],
+    );
+    if (!space.rows[0]) {
+      return res.status(404).json({ error: 'space_not_found_or_inactive' });
+    }
+    if (adults > Number(space.rows[0].capacity)) {
+      return res.status(400).json({
+        error: 'capacity_exceeded',
+        details: { capacity: Number(space.rows[0].capacity), adults_count: adults },
+      });
+    }
+
+    const pricing = await loadSpacePricing([spaceId]);
+    let quote = buildQuote(pricing.get(spaceId), period, adults);
+
+    if (coupon_code != null) {
+      if (typeof coupon_code !== 'string' || !coupon_code.trim()) {
+        return res.status(400).json({ error: 'invalid_coupon_code' });
+      }
+      const found = await findApplicableCoupon(coupon_code, {
+        branchId: space.rows[0].branch_id,
+        spaceId,
+      });
+      if (found.error) {
+        return res.status(COUPON_ERROR_STATUS[found.error]).json({ error: found.error });
+      }
+      quote = applyCoupon(quote, found.coupon);
+    }
+
+    const addons = await resolveAddonItems(space.rows[0].branch_id, items, adults);
+    if (addons.error) {
+      return res.status(400).json({ error: addons.error });
+    }
+    quote = applyAddons(quote, addons.items);
+
+    return res.json({
+      space_id: spaceId,
+      available: !(await hasConflictingReservation(spaceId, period)),
+      ...quote,
+    });
+  } catch (err) {
+    return sendInternalError(res, err, 'quoteSpace');
+  }
+};
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/pricing:
+ *   get:
+ *     summary: Regras de preço e acréscimos (feriados/temporada) do espaço
+ *     tags: [Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: price_per_hour base, rules (ou null) e surcharges
+ *       404:
+ *         description: Espaço não encontrado
+ */
+export const fetchSpacePricing = async (req: Request, res: Response) => {
+  try {
+    const space = await fetchManagedSpace(req, res);
+    if (!space) return;
+
+    const pricing = await loadSpacePricing([space.id]);
+    return res.json({ space_id: space.id, ...pricing.get(space.id) });
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchSpacePricing');
+  }
+};
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/pricing:
+ *   put:
+ *     summary: Define as regras de preço do espaço
+ *     tags: [Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PricingRules'
+ *     responses:
+ *       200:
+ *         description: Regras salvas
+ *       400:
+ *         description: Valor inválido
+ */
+export const saveSpacePricingRules = async (req: Request, res: Response) => {
+  try {
+    const space = await fetchManagedSpace(req, res);
+    if (!space) return;
+
+    const body = req.body as Record<string, unknown>;
+    const values: SqlParam[] = [space.id];
+
+    for (const field of RULE_FIELDS) {
+      const raw = body[field];
+      if (raw === undefined || raw === null) {
+        values.push(null);
+        continue;
+      }
+
+      const value = Number(raw);
+      const isInteger = field === 'extra_guest_threshold';
+      if (!Number.isFinite(value) || value < 0 || (isInteger && !Number.isInteger(value))) {
+        return res.status(400).json({ error: `invalid_${field}` });
+      }
+      values.push(value);
+    }
+
+    await pool.query(
+      `
+        INSERT INTO space_pricing_rules
+          (space_id, ${RULE_FIELDS.join(', ')})
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (space_id) DO UPDATE SET
+          ${RULE_FIELDS.map((f) => `${f} = EXCLUDED.${f}`).join(',\n          ')},
+          updated_at = NOW()
+      `,
+      values,
+    );
+
+    const pricing = await loadSpacePricing([space.id]);
+    return res.json({ space_id: space.id, ...pricing.get(space.id) });
+  } catch (err) {
+    return sendInternalError(res, err, 'saveSpacePricingRules');
+  }
+};
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/pricing/surcharges:
+ *   post:
+ *     summary: Cadastra um acréscimo de feriado ou temporada
+ *     tags: [Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [kind, name, start_date, end_date, surcharge_pct]
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [HOLIDAY, SEASON]
+ *               name:
+ *                 type: string
+ *                 example: Réveillon
+ *               start_date:
+ *                 type: string
+ *                 format: date
+ *               end_date:
+ *                 type: string
+ *                 format: date
+ *               surcharge_pct:
+ *                 type: number
+ *                 example: 30
+ *     responses:
+ *       201:
+ *         description: Acréscimo criado
+ *       400:
+ *         description: Dados inválidos
+ */
+export const createSurcharge = async (req: Request, res: Response) => {
+  try {
+    const space = await fetchManagedSpace(req, res);
+    if (!space) return;
+
+    const { kind, name, start_date, end_date, surcharge_pct } = req.body as {
+      kind?: SurchargeKind;
+      name?: string;
+      start_date?: string;
+      end_date?: string;
+      surcharge_pct?: number;
+    };
+
+    if (!SURCHARGE_KINDS.includes(kind)) {
+      return res.status(400).json({ error: 'invalid_kind' });
+    }
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'invalid_name' });
+    }
+    if (!start_date || !DATE_RE.test(start_date) || !end_date || !DATE_RE.test(end_date)) {
+      return res.status(400).json({ error: 'invalid_dates' });
+    }
+    if (end_date < start_date) {
+      return res.status(400).json({ error: 'end_before_start' });
+    }
+    if (surcharge_pct == null || !Number.isFinite(Number(surcharge_pct)) || Number(surcharge_pct) < 0) {
+      return res.status(400).json({ error: 'invalid_surcharge_pct' });
+    }
+
+    const { rows } = await pool.query(
+      `
+        INSERT INTO space_price_surcharges (space_id, kind, name, start_date, end_date, surcharge_pct)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING
+          id, space_id, kind, name,
+          to_char(start_date, 'YYYY-MM-DD') AS start_date,
+          to_char(end_date, 'YYYY-MM-DD')   AS end_date,
+          surcharge_pct::float8 AS surcharge_pct
+      `,
+      [space.id, kind, name.trim(), start_date, end_date, Number(surcharge_pct)],
+    );
+    return res.status(201).json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'createSurcharge');
+  }
+};
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/pricing/surcharges/{surchargeId}:
+ *   delete:
+ *     summary: Remove um acréscimo
+ *     tags: [Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: surchargeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removido
+ *       404:
+ *         description: Não encontrado
+ */
+export const removeSurcharge = async (req: Request, res: Response) => {
+  try {
+    const space = await fetchManagedSpace(req, res);
+    if (!space) return;
+
+    const { rowCount } = await pool.query(
+      'DELETE FROM space_price_surcharges WHERE id = $1 AND space_id = $2',
+      [req.params.surchargeId, space.id],
+    );
+    if (rowCount === 0) {
+      return res.status(404).json({ error: 'surcharge_not_found' });
+    }
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeSurcharge');
+  }
+};
+
+export {};
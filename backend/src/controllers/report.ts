@@ -0,0 +1,155 @@
+// src/controllers/report.ts
+// Relatórios financeiros do back-office
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { managedBranchIds } from '../services/branchScope';
+import { RECEIVABLE_STATUSES } from '../services/dunning';
+import { BALANCE_DUE_DAYS, netPaidSql } from '../services/paymentTerms';
+
+type SqlParam = string | number | string[] | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[reports:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type ReceivableRow = {
+  reservation_id: string;
+  branch_id: string;
+  branch_name: string;
+  space_name: string;
+  customer_name: string;
+  customer_email: string | null;
+  check_in_date: string;
+  status: string;
+  total_amount: number;
+  paid: number;
+  amount_due: number;
+  balance_due_date: string;
+  overdue: boolean;
+  at_risk_since: string | null;
+  last_reminder_offset: number | null;
+};
+
+type BranchReceivables = {
+  branch_id: string;
+  branch_name: string;
+  reservations_count: number;
+  total_due: number;
+  overdue_due: number;
+  at_risk_count: number;
+  reservations: Omit<ReceivableRow, 'branch_id' | 'branch_name'>[];
+};
+
+/**
+ * @openapi
+ * /reports/receivables:
+ *   get:
+ *     summary: Valores a receber, agrupados por filial
+ *     description: >
+ *       Reservas PENDING, CONFIRMED ou CHECKED_IN com saldo devido (total menos o valor pago
+ *       líquido), em ordem de check-in. `overdue` indica saldo após o vencimento
+ *       (BALANCE_DUE_DAYS antes do check-in) e `at_risk_since` reservas que já receberam o último
+ *       lembrete de cobrança. MANAGER só vê as próprias filiais.
+ *     tags: [Reports]
+ *     parameters:
+ *       - in: query
+ *         name: branch_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: at_risk
+ *         schema:
+ *           type: boolean
+ *         description: true = só reservas em risco
+ *     responses:
+ *       200:
+ *         description: >
+ *           Lista de filiais com reservations_count, total_due, overdue_due, at_risk_count e as
+ *           reservas devedoras
+ */
+export const getReceivables = async (req: Request, res: Response) => {
+  try {
+    const { branch_id, at_risk } = req.query as { branch_id?: string; at_risk?: string };
+
+    const conditions = ['r.status = ANY($1::text[])'];
+    const params: SqlParam[] = [RECEIVABLE_STATUSES, BALANCE_DUE_DAYS];
+    let idx = 3;
+
+    if (branch_id) {
+      conditions.push(`r.branch_id = $${idx++}`);
+      params.push(branch_id);
+    }
+    if (at_risk === 'true') {
+      conditions.push('r.at_risk_since IS NOT NULL');
+    }
+    if (req.user?.role === 'MANAGER') {
+      conditions.push(`r.branch_id = ANY($${idx++}::uuid[])`);
+      params.push(await managedBranchIds(req.user));
+    }
+
+    const { rows } = await pool.query<ReceivableRow>(
+      `
+        SELECT *
+        FROM (
+          SELECT
+            r.id          AS reservation_id,
+            b.id          AS branch_id,
+            b.name        AS branch_name,
+            s.name        AS space_name,
+            c.name        AS customer_name,
+            c.email       AS customer_email,
+            to_char(r.check_in_date, 'YYYY-MM-DD') AS check_in_date,
+            r.status,
+            r.total_amount::float8 AS total_amount,
+            (${netPaidSql()})::float8 AS paid,
+            (r.total_amount - (${netPaidSql()}))::float8 AS amount_due,
+            to_char(r.check_in_date - $2::int, 'YYYY-MM-DD') AS balance_due_date,
+            (r.check_in_date - $2::int) < CURRENT_DATE AS overdue,
+            r.at_risk_since,
+            (
+              SELECT MIN(pr.offset_days) FROM payment_reminders pr
+              WHERE pr.reservation_id = r.id
+            ) AS last_reminder_offset
+          FROM reservations r
+          JOIN branches  b ON b.id = r.branch_id
+          JOIN spaces    s ON s.id = r.space_id
+          JOIN customers c ON c.id = r.customer_id
+          WHERE ${conditions.join(' AND ')}
+        ) t
+        WHERE t.amount_due > 0.004
+        ORDER BY t.branch_name ASC, t.check_in_date ASC
+      `,
+      params,
+    );
+
+    const byBranch = new Map<string, BranchReceivables>();
+    for (const { branch_id: branchId, branch_name: branchName, ...row } of rows) {
+      const group = byBranch.get(branchId) ?? {
+        branch_id: branchId,
+        branch_name: branchName,
+        reservations_count: 0,
+        total_due: 0,
+        overdue_due: 0,
+        at_risk_count: 0,
+        reservations: [],
+      };
+
+      const dueCents = Math.round(row.amount_due * 100);
+      group.reservations_count += 1;
+      group.total_due = Math.round(group.total_due * 100 + dueCents) / 100;
+      if (row.overdue) group.overdue_due = Math.round(group.overdue_due * 100 + dueCents) / 100;
+      if (row.at_risk_since) group.at_risk_count += 1;
+      group.reservations.push({ ...row, amount_due: dueCents / 100 });
+
+      byBranch.set(branchId, group);
+    }
+
+    return res.json([...byBranch.values()]);
+  } catch (err) {
+    return sendInternalError(res, err, 'getReceivables');
+  }
+};
+
+export {};
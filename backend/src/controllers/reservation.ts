@@ -1,7 +1,30 @@
 // src/controllers/reservation.ts
 import { Request, Response } from 'express';
 import { pool } from '../db';
-import { v4 as uuid } from 'uuid';
+import { ensureBranchAccess } from '../services/branchScope';
+import { isOverlapViolation } from '../services/availability';
+import { HOLD_DEFAULT_MINUTES, HOLD_MAX_MINUTES } from '../services/holds';
+import {
+  applyTransition,
+  changeReservationStatus,
+  isReservationStatus,
+  recordStatusChange,
+  ReservationStatus,
+  TransitionResult,
+} from '../services/reservationStatus';
+import { cancelReservationWithRefund, computeRefund } from '../services/cancellation';
+import { netPaidAmount, recomputeReservationStatus } from '../services/reservationPayments';
+import { isValidDepositPct, loadPaymentTerms } from '../services/paymentTerms';
+import { notifyCustomer } from '../services/notifications';
+import { applyCoupon, findRedeemedCoupon } from '../services/coupons';
+import {
+  applyAddons,
+  repriceReservationItems,
+  ReservationItemInput,
+  resolveAddonItems,
+  saveReservationItems,
+} from '../services/addons';
+import { evaluateSlot, insertReservation, ReservationSlot } from '../services/booking';
 
 type SqlParam = string | number | boolean | null;
 
@@ -10,170 +33,317 @@ function sendInternalError(res: Response, err: unknown, context: string) {
   return res.status(500).json({ error: 'internal_error', context });
 }
 
+/**
+ * Responde o erro de uma transição recusada pela máquina de estados.
+ */
+export function sendTransitionError(
+  res: Response,
+  result: TransitionResult,
+  to: ReservationStatus,
+) {
+  if (result.error === 'reservation_not_found') {
+    return res.status(404).json({ error: 'reservation_not_found' });
+  }
+  return res.status(409).json({ error: 'invalid_status_transition', from: result.from, to });
+}
+
+export type ReservationInput = {
+  customer_id?: string;
+  check_in_date?: string;
+  check_out_date?: string;
+  start_time?: string;
+  end_time?: string;
+  adults_count?: number;
+  deposit_pct?: number;
+  notes?: string;
+  coupon_code?: string;
+  items?: ReservationItemInput[];
+};
+
 /**
  * ============================
- * CREATE RESERVATION
+ * CHECK SLOT
+ * ============================
+ * evaluateSlot (services/booking.ts) que responde o erro e retorna undefined.
+ */
+export async function checkSlot(
+  res: Response,
+  spaceId: string,
+  slot: ReservationSlot,
+  excludeReservationId?: string,
+) {
+  const result = await evaluateSlot(spaceId, slot, excludeReservationId);
+  if (!result.ok) {
+    res.status(result.status).json(
+      result.details ? { error: result.error, details: result.details } : { error: result.error },
+    );
+    return undefined;
+  }
+  return result;
+}
+
+/**
  * ============================
- * Agora usando:
+ * BOOK RESERVATION (regras comuns)
+ * ============================
+ * Usado pelo back-office (createReservation) e pelo portal do cliente (/me).
  * - check_in_date / check_out_date
  * - start_time / end_time
  * - adults_count (<= capacity do espaço)
  * - prevenção de períodos conflitantes para o mesmo espaço
+ * - coupon_code: o uso é registrado na mesma transação (409 coupon_exhausted
+ *   se o último uso disponível foi consumido por outra requisição)
+ * - items: adicionais do catálogo da filial; total_amount = aluguel + adicionais
+ *
+ * Com options.holdMinutes cria um HOLD (bloqueio temporário) em vez de PENDING.
+ * options.actorId vai para o histórico de status.
+ * Se alguma regra falhar, já responde o erro e retorna undefined.
  */
-export const createReservation = async (req: Request, res: Response) => {
+export async function bookReservation(
+  res: Response,
+  spaceId: string,
+  input: ReservationInput,
+  options: { holdMinutes?: number; actorId?: string } = {},
+) {
+  const {
+    customer_id,
+    check_in_date,
+    check_out_date,
+    start_time,
+    end_time,
+    adults_count,
+    deposit_pct,
+    notes,
+    coupon_code,
+    items,
+  } = input;
+
+  // validação básica
+  if (!customer_id) {
+    res.status(400).json({ error: 'invalid_customer_id' });
+    return undefined;
+  }
+
+  if (deposit_pct !== undefined && !isValidDepositPct(deposit_pct)) {
+    res.status(400).json({ error: 'invalid_deposit_pct' });
+    return undefined;
+  }
+
+  // período, capacidade e conflito
+  const slot = await checkSlot(res, spaceId, {
+    check_in_date,
+    check_out_date,
+    start_time,
+    end_time,
+    adults_count,
+    coupon_code,
+  });
+  if (!slot) return undefined;
+
+  const addons = await resolveAddonItems(slot.branch_id, items, Number(adults_count));
+  if (addons.error) {
+    res.status(400).json({ error: addons.error });
+    return undefined;
+  }
+
+  // Se chegou aqui, pode criar
+  const client = await pool.connect();
   try {
-    const { spaceId } = req.params;
+    await client.query('BEGIN');
 
-    const {
-      customer_id,
-      check_in_date,
-      check_out_date,
-      start_time,
-      end_time,
-      adults_count,
-      deposit_pct,
+    const reservation = await insertReservation(client, {
+      spaceId,
+      branchId: slot.branch_id,
+      customerId: customer_id,
+      period: slot.period,
+      adultsCount: Number(adults_count),
+      depositPct: deposit_pct === undefined ? undefined : Number(deposit_pct),
       notes,
-    } = req.body as {
-      customer_id?: string;
-      check_in_date?: string;
-      check_out_date?: string;
-      start_time?: string;
-      end_time?: string;
-      adults_count?: number;
-      deposit_pct?: number;
-      notes?: string;
-    };
-
-    // validação básica
-    if (!customer_id) {
-      return res.status(400).json({ error: 'invalid_customer_id' });
-    }
-    if (!check_in_date) {
-      return res.status(400).json({ error: 'invalid_check_in_date' });
-    }
-    if (!check_out_date) {
-      return res.status(400).json({ error: 'invalid_check_out_date' });
-    }
-    if (!start_time) {
-      return res.status(400).json({ error: 'invalid_start_time' });
-    }
-    if (!end_time) {
-      return res.status(400).json({ error: 'invalid_end_time' });
-    }
-    if (adults_count == null || Number(adults_count) <= 0) {
-      return res.status(400).json({ error: 'invalid_adults_count' });
+      quote: applyAddons(slot.quote, addons.items),
+      coupon: slot.coupon,
+      items: addons.items,
+      holdMinutes: options.holdMinutes,
+      actorId: options.actorId,
+    });
+
+    if (!reservation) {
+      await client.query('ROLLBACK');
+      res.status(409).json({ error: 'coupon_exhausted' });
+      return undefined;
     }
 
-    // check-out não pode ser antes do check-in
-    if (check_out_date < check_in_date) {
-      return res.status(400).json({ error: 'checkout_before_checkin' });
+    await client.query('COMMIT');
+    return reservation;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    if (isOverlapViolation(err)) {
+      res.status(409).json({ error: 'conflicting_reservation' });
+      return undefined;
     }
+    throw err;
+  } finally {
+    client.release();
+  }
+}
 
-    // busca espaço (com capacity)
-    const spaceCheck = await pool.query(
-      'SELECT id, branch_id, price_per_hour, capacity FROM spaces WHERE id = $1 AND active = TRUE',
+/**
+ * ============================
+ * CREATE RESERVATION
+ * ============================
+ * Back-office: MANAGER só reserva em filiais que administra.
+ */
+export const createReservation = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+
+    const space = await pool.query(
+      'SELECT branch_id FROM spaces WHERE id = $1',
       [spaceId],
     );
-
-    if (spaceCheck.rowCount === 0) {
-      return res.status(404).json({ error: 'space_not_found_or_inactive' });
+    if (space.rows[0] && !(await ensureBranchAccess(req, res, space.rows[0].branch_id))) {
+      return;
     }
 
-    const { branch_id, price_per_hour, capacity } = spaceCheck.rows[0];
+    const reservation = await bookReservation(res, spaceId, req.body as ReservationInput, {
+      actorId: req.user?.sub,
+    });
+    if (!reservation) return;
+
+    return res.status(201).json(reservation);
+
+  } catch (err) {
+    return sendInternalError(res, err, 'createReservation');
+  }
+};
+
+
+/**
+ * ============================
+ * HOLDS (bloqueio temporário)
+ * ============================
+ * Valida a duração pedida (minutos); sem valor usa HOLD_DEFAULT_MINUTES.
+ * Responde 400 e retorna undefined se inválida.
+ */
+export function parseHoldMinutes(res: Response, minutes: unknown): number | undefined {
+  const value = minutes === undefined || minutes === null ? HOLD_DEFAULT_MINUTES : Number(minutes);
+
+  if (!Number.isInteger(value) || value <= 0 || value > HOLD_MAX_MINUTES) {
+    res.status(400).json({ error: 'invalid_hold_minutes', max_minutes: HOLD_MAX_MINUTES });
+    return undefined;
+  }
+  return value;
+}
 
-    // valida capacidade (adultos não podem exceder capacity)
-    if (Number(adults_count) > Number(capacity)) {
-      return res.status(400).json({
-        error: 'capacity_exceeded',
-        details: {
-          capacity: Number(capacity),
-          adults_count: Number(adults_count),
-        },
+/**
+ * Converte um HOLD ainda válido em reserva PENDING, mantendo o mesmo id.
+ * Quem chama já verificou existência e permissão.
+ * Responde 409 e retorna undefined se não for HOLD ou se já tiver vencido.
+ */
+export async function convertHoldToReservation(
+  res: Response,
+  reservationId: string,
+  actorId?: string,
+) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query(
+      `
+        SELECT status, hold_expires_at > NOW() AS active
+        FROM reservations
+        WHERE id = $1
+        FOR UPDATE
+      `,
+      [reservationId],
+    );
+    const row = current.rows[0];
+
+    if (row?.status !== 'HOLD' || !row.active) {
+      await client.query('ROLLBACK');
+      res.status(409).json({
+        error: row?.status === 'HOLD' ? 'hold_expired' : 'reservation_not_on_hold',
       });
+      return undefined;
     }
 
-    // cálculo da duração em horas (para total_amount)
-    const start = new Date(`${check_in_date}T${start_time}`);
-    const end = new Date(`${check_out_date}T${end_time}`);
+    const result = await applyTransition(client, reservationId, 'PENDING', {
+      actorId,
+      reason: 'hold_converted',
+    });
+    await client.query('COMMIT');
+    return result.ok ? result.reservation : undefined;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
 
-    if (end <= start) {
-      return res.status(400).json({ error: 'invalid_time_range' });
-    }
+/**
+ * ============================
+ * CREATE HOLD
+ * ============================
+ * Mesmo corpo de createReservation + minutes (opcional).
+ * O HOLD bloqueia o horário até hold_expires_at.
+ */
+export const createHold = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+    const { minutes, ...input } = req.body as ReservationInput & { minutes?: number };
 
-    const diffHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-    const total_amount = Number(diffHours * Number(price_per_hour));
-
-    // ===== checagem de conflito de reserva para o mesmo espaço =====
-    //
-    // Consideramos o intervalo [start_ts, end_ts) para a nova reserva
-    // e para as reservas existentes.
-    // Duas reservas conflitam se:
-    //    existing_start < new_end AND new_start < existing_end
-    //
-    const conflictSql = `
-      SELECT 1
-      FROM reservations
-      WHERE space_id = $1
-        AND status <> 'CANCELLED'
-        AND (
-          (check_in_date + start_time) < ($3::date + $5::time)
-          AND ($2::date + $4::time) < (check_out_date + end_time)
-        )
-      LIMIT 1;
-    `;
+    const holdMinutes = parseHoldMinutes(res, minutes);
+    if (!holdMinutes) return;
 
-    const conflictParams: SqlParam[] = [
-      spaceId,         // $1
-      check_in_date,   // $2
-      check_out_date,  // $3
-      start_time,      // $4
-      end_time,        // $5
-    ];
-
-    const conflictCheck = await pool.query(conflictSql, conflictParams);
-    if (conflictCheck.rowCount > 0) {
-      return res.status(409).json({ error: 'conflicting_reservation' });
+    const space = await pool.query(
+      'SELECT branch_id FROM spaces WHERE id = $1',
+      [spaceId],
+    );
+    if (space.rows[0] && !(await ensureBranchAccess(req, res, space.rows[0].branch_id))) {
+      return;
     }
 
-    // Se chegou aqui, pode criar
-    const reservationId = uuid();
-
-    const sql = `
-      INSERT INTO reservations
-        (id, space_id, branch_id, customer_id,
-         check_in_date, check_out_date,
-         start_time, end_time,
-         adults_count,
-         status, total_amount, deposit_pct, notes)
-      VALUES
-        ($1, $2, $3, $4,
-         $5, $6,
-         $7, $8,
-         $9,
-         'PENDING', $10, COALESCE($11, 0), $12)
-      RETURNING *;
-    `;
+    const hold = await bookReservation(res, spaceId, input, {
+      holdMinutes,
+      actorId: req.user?.sub,
+    });
+    if (!hold) return;
 
-    const params: SqlParam[] = [
-      reservationId,
-      spaceId,
-      branch_id,
-      customer_id,
-      check_in_date,
-      check_out_date,
-      start_time,
-      end_time,
-      Number(adults_count),
-      total_amount,
-      deposit_pct ?? null,
-      notes ?? null,
-    ];
+    return res.status(201).json(hold);
 
-    const { rows } = await pool.query(sql, params);
-    return res.status(201).json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'createHold');
+  }
+};
+
+
+/**
+ * ============================
+ * CONVERT HOLD -> PENDING
+ * ============================
+ */
+export const convertHold = async (req: Request, res: Response) => {
+  try {
+    const { reservationId } = req.params;
+
+    const existing = await pool.query(
+      'SELECT branch_id FROM reservations WHERE id = $1',
+      [reservationId],
+    );
+
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    const reservation = await convertHoldToReservation(res, reservationId, req.user?.sub);
+    if (!reservation) return;
+
+    return res.json(reservation);
 
   } catch (err) {
-    return sendInternalError(res, err, 'createReservation');
+    return sendInternalError(res, err, 'convertHold');
   }
 };
 
@@ -194,8 +364,22 @@ export const fetchReservation = async (req: Request, res: Response) => {
     if (!rows[0]) {
       return res.status(404).json({ error: 'reservation_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, rows[0].branch_id))) return;
+
+    const items = await pool.query(
+      `
+        SELECT id, addon_id, name, pricing_mode, quantity,
+               unit_price::float8 AS unit_price, amount::float8 AS amount
+        FROM reservation_items
+        WHERE reservation_id = $1
+        ORDER BY created_at ASC
+      `,
+      [reservationId],
+    );
 
-    return res.json(rows[0]);
+    const paymentTerms = await loadPaymentTerms(reservationId);
+
+    return res.json({ ...rows[0], items: items.rows, payment_terms: paymentTerms });
 
   } catch (err) {
     return sendInternalError(res, err, 'fetchReservation');
@@ -216,13 +400,14 @@ export const listReservationsBySpace = async (req: Request, res: Response) => {
     const { date } = req.query as { date?: string };
 
     const spaceCheck = await pool.query(
-      'SELECT id FROM spaces WHERE id = $1',
+      'SELECT id, branch_id FROM spaces WHERE id = $1',
       [spaceId],
     );
 
     if (spaceCheck.rowCount === 0) {
       return res.status(404).json({ error: 'space_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, spaceCheck.rows[0].branch_id))) return;
 
     let sql = `
       SELECT *
@@ -256,34 +441,354 @@ export const listReservationsBySpace = async (req: Request, res: Response) => {
  * ============================
  * CANCEL RESERVATION
  * ============================
+ * Body opcional: { reason }
+ * Aplica a política de cancelamento (services/cancellation.ts):
+ * gera os reembolsos e devolve o detalhamento em "cancellation".
  */
 export const cancelReservation = async (req: Request, res: Response) => {
   try {
     const { reservationId } = req.params;
+    const { reason } = (req.body ?? {}) as { reason?: string };
 
     const existing = await pool.query(
-      'SELECT status FROM reservations WHERE id = $1',
+      'SELECT status, branch_id FROM reservations WHERE id = $1',
       [reservationId],
     );
 
     if (!existing.rows[0]) {
       return res.status(404).json({ error: 'reservation_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
 
-    const sql = `
-      UPDATE reservations
-      SET status = 'CANCELLED',
-          updated_at = NOW()
-      WHERE id = $1
-      RETURNING *;
-    `;
+    const { result, breakdown } = await cancelReservationWithRefund(reservationId, {
+      actorId: req.user?.sub,
+      reason: reason ?? null,
+    });
+    if (!result.ok) return sendTransitionError(res, result, 'CANCELLED');
 
-    const { rows } = await pool.query(sql, [reservationId]);
-    return res.json(rows[0]);
+    return res.json({ ...result.reservation, cancellation: breakdown });
 
   } catch (err) {
     return sendInternalError(res, err, 'cancelReservation');
   }
 };
 
+
+/**
+ * ============================
+ * CANCELLATION QUOTE
+ * ============================
+ * Prévia do reembolso se a reserva fosse cancelada agora (não grava nada).
+ */
+export const fetchCancellationQuote = async (req: Request, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const { reservationId } = req.params;
+
+    const existing = await client.query(
+      'SELECT branch_id FROM reservations WHERE id = $1',
+      [reservationId],
+    );
+
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    return res.json(await computeRefund(client, reservationId));
+
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchCancellationQuote');
+  } finally {
+    client.release();
+  }
+};
+
+
+/**
+ * ============================
+ * RESCHEDULE RESERVATION
+ * ============================
+ * Body: { check_in_date, check_out_date, start_time, end_time, space_id?, adults_count? }
+ * Move a reserva (mesmo id, pagamentos continuam vinculados), opcionalmente para
+ * outro espaço da mesma filial. Refaz capacidade/conflito ignorando a própria
+ * reserva, recalcula total_amount (reaplicando o cupom já usado e os adicionais,
+ * com PER_GUEST acompanhando adults_count) e informa saldo a pagar ou crédito.
+ */
+const RESCHEDULABLE_STATUSES = ['HOLD', 'PENDING', 'CONFIRMED'];
+
+export const rescheduleReservation = async (req: Request, res: Response) => {
+  try {
+    const { reservationId } = req.params;
+    const body = req.body as ReservationSlot & { space_id?: string };
+
+    const existing = await pool.query(
+      `
+        SELECT id, space_id, branch_id, status, adults_count,
+               to_char(check_in_date, 'YYYY-MM-DD')  AS check_in_date,
+               to_char(check_out_date, 'YYYY-MM-DD') AS check_out_date,
+               start_time::text AS start_time,
+               end_time::text   AS end_time,
+               total_amount::float8 AS total_amount
+        FROM reservations
+        WHERE id = $1
+      `,
+      [reservationId],
+    );
+
+    const current = existing.rows[0];
+    if (!current) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, current.branch_id))) return;
+
+    if (!RESCHEDULABLE_STATUSES.includes(current.status)) {
+      return res.status(409).json({ error: 'reservation_not_reschedulable', status: current.status });
+    }
+
+    const spaceId = body.space_id ?? current.space_id;
+
+    const slot = await checkSlot(
+      res,
+      spaceId,
+      {
+        check_in_date: body.check_in_date,
+        check_out_date: body.check_out_date,
+        start_time: body.start_time,
+        end_time: body.end_time,
+        adults_count: body.adults_count ?? current.adults_count,
+      },
+      reservationId,
+    );
+    if (!slot) return;
+
+    if (slot.branch_id !== current.branch_id) {
+      return res.status(400).json({ error: 'space_in_other_branch' });
+    }
+
+    // o desconto já concedido acompanha a reserva
+    const redeemed = await findRedeemedCoupon(reservationId);
+    const items = await repriceReservationItems(
+      reservationId,
+      Number(body.adults_count ?? current.adults_count),
+    );
+    const quote = applyAddons(redeemed ? applyCoupon(slot.quote, redeemed) : slot.quote, items);
+
+    const previous = {
+      space_id: current.space_id,
+      check_in_date: current.check_in_date,
+      check_out_date: current.check_out_date,
+      start_time: current.start_time,
+      end_time: current.end_time,
+      total_amount: current.total_amount,
+    };
+
+    const client = await pool.connect();
+    let reservation;
+    try {
+      await client.query('BEGIN');
+
+      const { rows } = await client.query(
+        `
+          UPDATE reservations
+          SET space_id       = $2,
+              check_in_date  = $3,
+              check_out_date = $4,
+              start_time     = $5,
+              end_time       = $6,
+              adults_count   = $7,
+              total_amount   = $8,
+              price_breakdown = $10,
+              -- buffers atuais do espaço (podem ter mudado desde a reserva)
+              buffer_before_minutes = (SELECT buffer_before_minutes FROM spaces WHERE id = $2),
+              buffer_after_minutes  = (SELECT buffer_after_minutes FROM spaces WHERE id = $2),
+              updated_at     = NOW()
+          WHERE id = $1
+            AND status = ANY($9::text[])
+          RETURNING *;
+        `,
+        [
+          reservationId,
+          spaceId,
+          slot.period.check_in_date,
+          slot.period.check_out_date,
+          slot.period.start_time,
+          slot.period.end_time,
+          Number(body.adults_count ?? current.adults_count),
+          quote.total_amount,
+          RESCHEDULABLE_STATUSES,
+          JSON.stringify(quote),
+        ],
+      );
+      reservation = rows[0];
+
+      if (!reservation) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'reservation_not_reschedulable' });
+      }
+
+      await saveReservationItems(client, reservationId, items);
+
+      if (quote.coupon) {
+        await client.query(
+          'UPDATE coupon_redemptions SET discount_amount = $2 WHERE reservation_id = $1',
+          [reservationId, quote.coupon.discount_amount],
+        );
+      }
+
+      // remarcação não muda o status, mas fica na trilha de auditoria
+      await recordStatusChange(client, reservationId, reservation.status, reservation.status, {
+        actorId: req.user?.sub,
+        reason:
+          `rescheduled from ${previous.check_in_date} ${previous.start_time}` +
+          (previous.space_id !== spaceId ? ` (space ${previous.space_id})` : ''),
+      });
+
+      if (reservation.status !== 'HOLD') {
+        await notifyCustomer(client, 'reservation.rescheduled', reservationId, {
+          previous_check_in_date: previous.check_in_date,
+          previous_start_time: previous.start_time.slice(0, 5),
+        });
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      if (isOverlapViolation(err)) {
+        return res.status(409).json({ error: 'conflicting_reservation' });
+      }
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    // novo total pode já estar quitado
+    await recomputeReservationStatus(reservationId, req.user?.sub);
+
+    const paid = await netPaidAmount(reservationId);
+    const totalCents = Math.round(Number(quote.total_amount) * 100);
+    const paidCents = Math.round(paid * 100);
+
+    const refreshed = await pool.query('SELECT * FROM reservations WHERE id = $1', [reservationId]);
+
+    return res.json({
+      ...refreshed.rows[0],
+      reschedule: {
+        previous,
+        total_amount: quote.total_amount,
+        paid_total: paid,
+        balance_due: Math.max(totalCents - paidCents, 0) / 100,
+        credit: Math.max(paidCents - totalCents, 0) / 100,
+      },
+    });
+
+  } catch (err) {
+    return sendInternalError(res, err, 'rescheduleReservation');
+  }
+};
+
+
+/**
+ * ============================
+ * CHANGE STATUS
+ * ============================
+ * Body: { status, reason? }
+ * Check-in, conclusão, no-show etc. Só transições válidas
+ * (services/reservationStatus.ts); HOLD -> PENDING é pelo /convert.
+ */
+export const updateReservationStatus = async (req: Request, res: Response) => {
+  try {
+    const { reservationId } = req.params;
+    const { status, reason } = req.body as { status?: string; reason?: string };
+
+    if (!isReservationStatus(status) || status === 'HOLD') {
+      return res.status(400).json({ error: 'invalid_status' });
+    }
+
+    const existing = await pool.query(
+      'SELECT status, branch_id FROM reservations WHERE id = $1',
+      [reservationId],
+    );
+
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    if (existing.rows[0].status === 'HOLD' && status === 'PENDING') {
+      const reservation = await convertHoldToReservation(res, reservationId, req.user?.sub);
+      if (!reservation) return;
+      return res.json(reservation);
+    }
+
+    // cancelamento sempre passa pela política de reembolso
+    if (status === 'CANCELLED') {
+      const { result, breakdown } = await cancelReservationWithRefund(reservationId, {
+        actorId: req.user?.sub,
+        reason: reason ?? null,
+      });
+      if (!result.ok) return sendTransitionError(res, result, status);
+      return res.json({ ...result.reservation, cancellation: breakdown });
+    }
+
+    const result = await changeReservationStatus(reservationId, status, {
+      actorId: req.user?.sub,
+      reason: reason ?? null,
+    });
+    if (!result.ok) return sendTransitionError(res, result, status);
+
+    return res.json(result.reservation);
+
+  } catch (err) {
+    return sendInternalError(res, err, 'updateReservationStatus');
+  }
+};
+
+
+/**
+ * ============================
+ * STATUS HISTORY
+ * ============================
+ */
+export const listReservationHistory = async (req: Request, res: Response) => {
+  try {
+    const { reservationId } = req.params;
+
+    const existing = await pool.query(
+      'SELECT branch_id FROM reservations WHERE id = $1',
+      [reservationId],
+    );
+
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'reservation_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    const { rows } = await pool.query(
+      `
+        SELECT
+          h.id,
+          h.reservation_id,
+          h.from_status,
+          h.to_status,
+          h.reason,
+          h.created_at,
+          h.actor_user_id,
+          u.name  AS actor_name,
+          u.email AS actor_email,
+          u.role  AS actor_role
+        FROM reservation_status_history h
+        LEFT JOIN users u ON u.id = h.actor_user_id
+        WHERE h.reservation_id = $1
+        ORDER BY h.created_at ASC, h.id ASC
+      `,
+      [reservationId],
+    );
+    return res.json(rows);
+
+  } catch (err) {
+    return sendInternalError(res, err, 'listReservationHistory');
+  }
+};
+
 export {};
@@ -0,0 +1,394 @@
+// src/controllers/reservationSeries.ts
+// Reservas recorrentes: uma chamada cria uma reserva por ocorrência
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess } from '../services/branchScope';
+import { isOverlapViolation, ReservationPeriod } from '../services/availability';
+import { applyAddons, resolveAddonItems } from '../services/addons';
+import { cancelReservationWithRefund } from '../services/cancellation';
+import {
+  expandOccurrences,
+  RecurrenceRule,
+  validateRecurrenceRule,
+} from '../services/recurrence';
+import { evaluateSlot, insertReservation, SlotCheck } from '../services/booking';
+import { isValidDepositPct } from '../services/paymentTerms';
+import { ReservationInput } from './reservation';
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[reservation-series:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type ConflictMode = 'abort' | 'skip';
+
+const CONFLICT_MODES: ConflictMode[] = ['abort', 'skip'];
+
+// ocorrências que ainda podem ser canceladas junto com a série
+const CANCELLABLE_STATUSES = ['HOLD', 'PENDING', 'CONFIRMED'];
+
+// erros de uma data específica: a ocorrência entra em conflicts em vez de barrar a série
+const OCCURRENCE_CONFLICTS = ['conflicting_reservation', 'blackout_date'];
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/reservation-series:
+ *   post:
+ *     summary: Cria uma série de reservas recorrentes
+ *     description: >
+ *       Gera uma reserva PENDING por ocorrência (mesmas regras de createReservation).
+ *       Ocorrências em conflito (ou em datas bloqueadas) são listadas em "conflicts"; com on_conflict = abort
+ *       (padrão) nada é criado, com skip as demais datas são reservadas.
+ *     tags: [Reservations]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [customer_id, check_in_date, check_out_date, start_time, end_time, adults_count, recurrence]
+ *             properties:
+ *               customer_id:
+ *                 type: string
+ *                 format: uuid
+ *               check_in_date:
+ *                 type: string
+ *                 format: date
+ *                 description: Data da primeira ocorrência
+ *               check_out_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *                 example: '19:00'
+ *               end_time:
+ *                 type: string
+ *                 example: '21:00'
+ *               adults_count:
+ *                 type: integer
+ *               deposit_pct:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 description: "% de sinal (padrão: DEFAULT_DEPOSIT_PCT)"
+ *               notes:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 description: Adicionais repetidos em cada ocorrência
+ *                 items:
+ *                   type: object
+ *               recurrence:
+ *                 type: object
+ *                 required: [frequency]
+ *                 properties:
+ *                   frequency:
+ *                     type: string
+ *                     enum: [WEEKLY, MONTHLY]
+ *                   interval:
+ *                     type: integer
+ *                     default: 1
+ *                   until:
+ *                     type: string
+ *                     format: date
+ *                   count:
+ *                     type: integer
+ *               on_conflict:
+ *                 type: string
+ *                 enum: [abort, skip]
+ *                 default: abort
+ *     responses:
+ *       201:
+ *         description: Série criada (series, reservations e conflicts pulados)
+ *       400:
+ *         description: Dados ou regra de recorrência inválidos
+ *       409:
+ *         description: Conflitos com on_conflict = abort (lista em conflicts)
+ */
+export const createReservationSeries = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+    const { recurrence, on_conflict, ...input } = req.body as ReservationInput & {
+      recurrence?: RecurrenceRule;
+      on_conflict?: ConflictMode;
+    };
+
+    const space = await pool.query('SELECT branch_id FROM spaces WHERE id = $1', [spaceId]);
+    if (space.rows[0] && !(await ensureBranchAccess(req, res, space.rows[0].branch_id))) {
+      return;
+    }
+
+    if (!input.customer_id) {
+      return res.status(400).json({ error: 'invalid_customer_id' });
+    }
+    if (input.deposit_pct !== undefined && !isValidDepositPct(input.deposit_pct)) {
+      return res.status(400).json({ error: 'invalid_deposit_pct' });
+    }
+    const mode = on_conflict ?? 'abort';
+    if (!CONFLICT_MODES.includes(mode)) {
+      return res.status(400).json({ error: 'invalid_on_conflict' });
+    }
+    const ruleError = validateRecurrenceRule(recurrence);
+    if (ruleError) {
+      return res.status(400).json({ error: ruleError });
+    }
+
+    // a primeira ocorrência valida datas, capacidade etc. como uma reserva avulsa
+    const first = await evaluateSlot(spaceId, {
+      check_in_date: input.check_in_date,
+      check_out_date: input.check_out_date,
+      start_time: input.start_time,
+      end_time: input.end_time,
+      adults_count: input.adults_count,
+    });
+    if (!first.ok && !OCCURRENCE_CONFLICTS.includes(first.error)) {
+      return res.status(first.status).json(
+        first.details ? { error: first.error, details: first.details } : { error: first.error },
+      );
+    }
+
+    const periods = expandOccurrences(
+      {
+        check_in_date: input.check_in_date,
+        check_out_date: input.check_out_date,
+        start_time: input.start_time,
+        end_time: input.end_time,
+      },
+      recurrence,
+    );
+    if (!periods) {
+      return res.status(400).json({ error: 'too_many_occurrences' });
+    }
+
+    // checa cada ocorrência com as mesmas regras de createReservation
+    const bookable: SlotCheck[] = [];
+    const conflicts: ReservationPeriod[] = [];
+
+    for (const period of periods) {
+      const slot = await evaluateSlot(spaceId, { ...period, adults_count: input.adults_count });
+      if (slot.ok) {
+        bookable.push(slot);
+      } else if (OCCURRENCE_CONFLICTS.includes(slot.error)) {
+        conflicts.push(period);
+      } else {
+        return res.status(slot.status).json({ error: slot.error, occurrence: period });
+      }
+    }
+
+    if ((conflicts.length > 0 && mode === 'abort') || bookable.length === 0) {
+      return res.status(409).json({ error: 'series_conflicts', conflicts });
+    }
+
+    const branchId = bookable[0].branch_id;
+    const addons = await resolveAddonItems(branchId, input.items, Number(input.adults_count));
+    if (addons.error) {
+      return res.status(400).json({ error: addons.error });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const series = await client.query(
+        `
+          INSERT INTO reservation_series
+            (space_id, branch_id, customer_id, frequency, interval_count,
+             until_date, occurrences, start_time, end_time, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          RETURNING *
+        `,
+        [
+          spaceId,
+          branchId,
+          input.customer_id,
+          recurrence.frequency,
+          Number(recurrence.interval ?? 1),
+          recurrence.until ?? null,
+          recurrence.count ?? null,
+          input.start_time,
+          input.end_time,
+          req.user?.sub ?? null,
+        ],
+      );
+      const seriesId = series.rows[0].id;
+
+      const reservations = [];
+      for (const slot of bookable) {
+        // savepoint: uma corrida perdida para outra reserva vira conflito da ocorrência
+        await client.query('SAVEPOINT occurrence');
+        try {
+          const reservation = await insertReservation(client, {
+            spaceId,
+            branchId,
+            customerId: input.customer_id,
+            period: slot.period,
+            adultsCount: Number(input.adults_count),
+            depositPct: input.deposit_pct === undefined ? undefined : Number(input.deposit_pct),
+            notes: input.notes,
+            quote: applyAddons(slot.quote, addons.items),
+            items: addons.items,
+            seriesId,
+            actorId: req.user?.sub,
+          });
+          await client.query('RELEASE SAVEPOINT occurrence');
+          reservations.push(reservation);
+        } catch (err) {
+          if (!isOverlapViolation(err)) throw err;
+          await client.query('ROLLBACK TO SAVEPOINT occurrence');
+          conflicts.push(slot.period);
+        }
+      }
+
+      if ((conflicts.length > 0 && mode === 'abort') || reservations.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'series_conflicts', conflicts });
+      }
+
+      await client.query('COMMIT');
+
+      conflicts.sort((a, b) => a.check_in_date.localeCompare(b.check_in_date));
+      return res.status(201).json({ series: series.rows[0], reservations, conflicts });
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    return sendInternalError(res, err, 'createReservationSeries');
+  }
+};
+
+/**
+ * @openapi
+ * /reservation-series/{seriesId}:
+ *   get:
+ *     summary: Detalhes da série e suas ocorrências
+ *     tags: [Reservations]
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Série com a lista de reservas em "reservations"
+ *       404:
+ *         description: Série não encontrada
+ */
+export const fetchReservationSeries = async (req: Request, res: Response) => {
+  try {
+    const { seriesId } = req.params;
+
+    const series = await pool.query('SELECT * FROM reservation_series WHERE id = $1', [seriesId]);
+    if (!series.rows[0]) {
+      return res.status(404).json({ error: 'reservation_series_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, series.rows[0].branch_id))) return;
+
+    const { rows } = await pool.query(
+      `
+        SELECT id, check_in_date, check_out_date, start_time, end_time,
+               status, total_amount::float8 AS total_amount
+        FROM reservations
+        WHERE series_id = $1
+        ORDER BY check_in_date ASC, start_time ASC
+      `,
+      [seriesId],
+    );
+
+    return res.json({ ...series.rows[0], reservations: rows });
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchReservationSeries');
+  }
+};
+
+/**
+ * @openapi
+ * /reservation-series/{seriesId}/cancel:
+ *   patch:
+ *     summary: Cancela a série (todas as ocorrências futuras)
+ *     description: >
+ *       Cada ocorrência futura em HOLD, PENDING ou CONFIRMED é cancelada pela
+ *       política de cancelamento, como um cancelamento avulso. As já realizadas ficam.
+ *     tags: [Reservations]
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Série cancelada, com o detalhamento por ocorrência em "cancelled"
+ *       404:
+ *         description: Série não encontrada
+ */
+export const cancelReservationSeries = async (req: Request, res: Response) => {
+  try {
+    const { seriesId } = req.params;
+    const { reason } = (req.body ?? {}) as { reason?: string };
+
+    const series = await pool.query('SELECT * FROM reservation_series WHERE id = $1', [seriesId]);
+    if (!series.rows[0]) {
+      return res.status(404).json({ error: 'reservation_series_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, series.rows[0].branch_id))) return;
+
+    const future = await pool.query(
+      `
+        SELECT id
+        FROM reservations
+        WHERE series_id = $1
+          AND status = ANY($2::text[])
+          AND (check_in_date + start_time) > NOW()
+        ORDER BY check_in_date ASC
+      `,
+      [seriesId, CANCELLABLE_STATUSES],
+    );
+
+    const cancelled = [];
+    for (const { id } of future.rows) {
+      const { result, breakdown } = await cancelReservationWithRefund(id, {
+        actorId: req.user?.sub,
+        reason: reason ?? 'series_cancelled',
+      });
+      // outra requisição pode ter mudado o status no meio do caminho
+      if (result.ok) cancelled.push({ reservation_id: id, cancellation: breakdown });
+    }
+
+    const { rows } = await pool.query(
+      `
+        UPDATE reservation_series
+        SET cancelled_at = COALESCE(cancelled_at, NOW())
+        WHERE id = $1
+        RETURNING *
+      `,
+      [seriesId],
+    );
+
+    return res.json({ ...rows[0], cancelled });
+  } catch (err) {
+    return sendInternalError(res, err, 'cancelReservationSeries');
+  }
+};
+
+export {};
@@ -0,0 +1,569 @@
+// src/controllers/schedule.ts
+// Horário de funcionamento e datas bloqueadas por filial ou espaço (regras em services/schedule.ts)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess } from '../services/branchScope';
+import {
+  BLACKOUT_COLUMNS,
+  OPENING_HOUR_COLUMNS,
+  OpeningHour,
+  timeToMinutes,
+  toOpeningHour,
+} from '../services/schedule';
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[schedule:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+type ScheduleScope = {
+  column: 'branch_id' | 'space_id';
+  id: string;
+  branch_id: string;
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Resolve o alvo a partir da rota (/branches/:id ou /spaces/:spaceId)
+ * e verifica se o usuário administra a filial. Responde 404/403 e retorna undefined.
+ */
+async function resolveScope(req: Request, res: Response): Promise<ScheduleScope | undefined> {
+  if (req.params.spaceId) {
+    const { rows } = await pool.query(
+      'SELECT id, branch_id FROM spaces WHERE id = $1',
+      [req.params.spaceId],
+    );
+    if (!rows[0]) {
+      res.status(404).json({ error: 'space_not_found' });
+      return undefined;
+    }
+    if (!(await ensureBranchAccess(req, res, rows[0].branch_id))) return undefined;
+    return { column: 'space_id', id: rows[0].id, branch_id: rows[0].branch_id };
+  }
+
+  const { rows } = await pool.query('SELECT id FROM branches WHERE id = $1', [req.params.id]);
+  if (!rows[0]) {
+    res.status(404).json({ error: 'branch_not_found' });
+    return undefined;
+  }
+  if (!(await ensureBranchAccess(req, res, rows[0].id))) return undefined;
+  return { column: 'branch_id', id: rows[0].id, branch_id: rows[0].id };
+}
+
+async function loadOpeningHours(scope: ScheduleScope): Promise<OpeningHour[]> {
+  const { rows } = await pool.query(
+    `
+      SELECT ${OPENING_HOUR_COLUMNS}
+      FROM opening_hours
+      WHERE ${scope.column} = $1
+      ORDER BY weekday ASC, open_time ASC
+    `,
+    [scope.id],
+  );
+  return rows.map(toOpeningHour);
+}
+
+/**
+ * Valida a grade enviada. Retorna o código de erro ou null.
+ */
+function validateOpeningHours(hours: unknown): string | null {
+  if (!Array.isArray(hours) || hours.length === 0) return 'invalid_hours';
+
+  const byWeekday = new Map<number, [number, number][]>();
+  for (const turn of hours as Partial<OpeningHour>[]) {
+    const weekday = Number(turn?.weekday);
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) return 'invalid_weekday';
+    if (typeof turn.open_time !== 'string' || !TIME_RE.test(turn.open_time)) {
+      return 'invalid_open_time';
+    }
+    if (
+      typeof turn.close_time !== 'string' ||
+      (turn.close_time !== '24:00' && !TIME_RE.test(turn.close_time))
+    ) {
+      return 'invalid_close_time';
+    }
+
+    const open = timeToMinutes(turn.open_time);
+    const close = timeToMinutes(turn.close_time);
+    if (close <= open) return 'close_before_open';
+
+    const turns = byWeekday.get(weekday) ?? [];
+    if (turns.some(([o, c]) => open < c && o < close)) return 'overlapping_hours';
+    turns.push([open, close]);
+    byWeekday.set(weekday, turns);
+  }
+  return null;
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     OpeningHour:
+ *       type: object
+ *       properties:
+ *         weekday:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 6
+ *           description: 0 = domingo ... 6 = sábado
+ *         open_time:
+ *           type: string
+ *           example: '08:00'
+ *         close_time:
+ *           type: string
+ *           example: '23:00'
+ *           description: "'24:00' = até o fim do dia (emenda com um turno 00:00 do dia seguinte)"
+ *     Blackout:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         branch_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         space_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         space_name:
+ *           type: string
+ *           nullable: true
+ *         start_date:
+ *           type: string
+ *           format: date
+ *         end_date:
+ *           type: string
+ *           format: date
+ *           description: Inclusiva
+ *         reason:
+ *           type: string
+ */
+
+/**
+ * @openapi
+ * /branches/{id}/opening-hours:
+ *   get:
+ *     summary: Horário de funcionamento da filial
+ *     description: Lista vazia = sem grade (espaços abertos 24h, salvo grade própria).
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Grade semanal em "hours"
+ *       404:
+ *         description: Filial não encontrada
+ * /spaces/{spaceId}/opening-hours:
+ *   get:
+ *     summary: Grade própria do espaço
+ *     description: Lista vazia = o espaço segue a grade da filial.
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Grade semanal em "hours"
+ *       404:
+ *         description: Espaço não encontrado
+ */
+export const fetchOpeningHours = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    return res.json({ [scope.column]: scope.id, hours: await loadOpeningHours(scope) });
+  } catch (err) {
+    return sendInternalError(res, err, 'fetchOpeningHours');
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/opening-hours:
+ *   put:
+ *     summary: Substitui a grade semanal da filial
+ *     description: >
+ *       Dias da semana sem turno ficam fechados. Vale para todos os espaços da
+ *       filial que não tenham grade própria. Reservas já feitas não são alteradas.
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [hours]
+ *             properties:
+ *               hours:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/OpeningHour'
+ *                 example:
+ *                   - { weekday: 5, open_time: '18:00', close_time: '24:00' }
+ *                   - { weekday: 6, open_time: '00:00', close_time: '02:00' }
+ *                   - { weekday: 6, open_time: '10:00', close_time: '24:00' }
+ *     responses:
+ *       200:
+ *         description: Grade salva
+ *       400:
+ *         description: Turnos inválidos ou sobrepostos
+ * /spaces/{spaceId}/opening-hours:
+ *   put:
+ *     summary: Define uma grade própria para o espaço (substitui a da filial)
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [hours]
+ *             properties:
+ *               hours:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/OpeningHour'
+ *     responses:
+ *       200:
+ *         description: Grade salva
+ *       400:
+ *         description: Turnos inválidos ou sobrepostos
+ */
+export const saveOpeningHours = async (req: Request, res: Response) => {
+  const { hours } = req.body as { hours?: OpeningHour[] };
+
+  const hoursError = validateOpeningHours(hours);
+  if (hoursError) {
+    return res.status(400).json({ error: hoursError });
+  }
+
+  const client = await pool.connect();
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    await client.query('BEGIN');
+
+    // a grade é sempre substituída por inteiro
+    await client.query(`DELETE FROM opening_hours WHERE ${scope.column} = $1`, [scope.id]);
+    for (const turn of hours) {
+      await client.query(
+        `
+          INSERT INTO opening_hours (${scope.column}, weekday, open_time, close_time)
+          VALUES ($1, $2, $3, $4)
+        `,
+        [scope.id, Number(turn.weekday), turn.open_time, turn.close_time],
+      );
+    }
+
+    await client.query('COMMIT');
+    return res.json({ [scope.column]: scope.id, hours: await loadOpeningHours(scope) });
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    return sendInternalError(res, err, 'saveOpeningHours');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/opening-hours:
+ *   delete:
+ *     summary: Remove a grade da filial (espaços sem grade própria abrem 24h)
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removida
+ *       404:
+ *         description: Filial não encontrada
+ * /spaces/{spaceId}/opening-hours:
+ *   delete:
+ *     summary: Remove a grade própria do espaço (passa a valer a da filial)
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removida
+ *       404:
+ *         description: Espaço não encontrado
+ */
+export const removeOpeningHours = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    await pool.query(`DELETE FROM opening_hours WHERE ${scope.column} = $1`, [scope.id]);
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeOpeningHours');
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/blackouts:
+ *   get:
+ *     summary: Datas bloqueadas da filial e dos seus espaços (de hoje em diante)
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bloqueios por data de início (space_id nulo = filial inteira)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Blackout'
+ * /spaces/{spaceId}/blackouts:
+ *   get:
+ *     summary: Datas bloqueadas que valem para o espaço (dele e da filial)
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bloqueios por data de início
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Blackout'
+ */
+export const listBlackouts = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    // na filial: os dela e os de cada espaço; no espaço: os dele e os da filial
+    const condition =
+      scope.column === 'branch_id'
+        ? 'd.branch_id = $1 OR s.branch_id = $1'
+        : 'd.space_id = $1 OR d.branch_id = $2';
+
+    const { rows } = await pool.query(
+      `
+        SELECT d.*, s.name AS space_name
+        FROM (
+          SELECT ${BLACKOUT_COLUMNS} FROM blackout_dates WHERE end_date >= CURRENT_DATE
+        ) d
+        LEFT JOIN spaces s ON s.id = d.space_id
+        WHERE ${condition}
+        ORDER BY d.start_date ASC
+      `,
+      scope.column === 'branch_id' ? [scope.id] : [scope.id, scope.branch_id],
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listBlackouts');
+  }
+};
+
+/**
+ * @openapi
+ * /branches/{id}/blackouts:
+ *   post:
+ *     summary: Bloqueia datas da filial inteira
+ *     description: >
+ *       Nenhuma reserva nova pode tocar esses dias (409 blackout_date).
+ *       Reservas já existentes não são canceladas.
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [start_date, end_date, reason]
+ *             properties:
+ *               start_date:
+ *                 type: string
+ *                 format: date
+ *               end_date:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *                 example: Dedetização
+ *     responses:
+ *       201:
+ *         description: Bloqueio criado
+ *       400:
+ *         description: Datas ou motivo inválidos
+ * /spaces/{spaceId}/blackouts:
+ *   post:
+ *     summary: Bloqueia datas de um espaço
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [start_date, end_date, reason]
+ *             properties:
+ *               start_date:
+ *                 type: string
+ *                 format: date
+ *               end_date:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Bloqueio criado
+ *       400:
+ *         description: Datas ou motivo inválidos
+ */
+export const createBlackout = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req, res);
+    if (!scope) return;
+
+    const { start_date, end_date, reason } = req.body as {
+      start_date?: string;
+      end_date?: string;
+      reason?: string;
+    };
+
+    if (!start_date || !DATE_RE.test(start_date) || !end_date || !DATE_RE.test(end_date)) {
+      return res.status(400).json({ error: 'invalid_dates' });
+    }
+    if (end_date < start_date) {
+      return res.status(400).json({ error: 'end_before_start' });
+    }
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ error: 'invalid_reason' });
+    }
+
+    const { rows } = await pool.query(
+      `
+        INSERT INTO blackout_dates (${scope.column}, start_date, end_date, reason, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING ${BLACKOUT_COLUMNS}
+      `,
+      [scope.id, start_date, end_date, reason.trim(), req.user?.sub ?? null],
+    );
+
+    return res.status(201).json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'createBlackout');
+  }
+};
+
+/**
+ * @openapi
+ * /blackouts/{blackoutId}:
+ *   delete:
+ *     summary: Remove um bloqueio de datas
+ *     tags: [Opening Hours]
+ *     parameters:
+ *       - in: path
+ *         name: blackoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Removido
+ *       404:
+ *         description: Não encontrado
+ */
+export const removeBlackout = async (req: Request, res: Response) => {
+  try {
+    const { blackoutId } = req.params;
+
+    const existing = await pool.query(
+      `
+        SELECT COALESCE(d.branch_id, s.branch_id) AS branch_id
+        FROM blackout_dates d
+        LEFT JOIN spaces s ON s.id = d.space_id
+        WHERE d.id = $1
+      `,
+      [blackoutId],
+    );
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'blackout_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    await pool.query('DELETE FROM blackout_dates WHERE id = $1', [blackoutId]);
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeBlackout');
+  }
+};
+
+export {};
@@ -2,6 +2,20 @@
 import { Request, Response } from 'express';
 import { pool } from '../db';
 import { v4 as uuid } from 'uuid';
+import { ensureBranchAccess } from '../services/branchScope';
+import {
+  bucketize,
+  freeIntervals,
+  Granularity,
+  listBufferIntervals,
+  listBusyIntervals,
+  mergeIntervals,
+  noConflictSql,
+  shiftByMinutesSql,
+} from '../services/availability';
+import { buildQuote, loadSpacePricing, reservationHours } from '../services/pricing';
+import { closedIntervals, loadSpaceSchedules, scheduleViolation } from '../services/schedule';
+import { publishEvent } from '../services/outboundWebhooks';
 
 type SqlParam = string | number | boolean | null;
 
@@ -10,6 +24,14 @@ function sendInternalError(res: Response, err: unknown, context: string) {
   return res.status(500).json({ error: 'internal_error', context });
 }
 
+// buffers de preparação/limpeza: minutos inteiros, até um dia
+const MAX_BUFFER_MINUTES = 24 * 60;
+
+function isValidBuffer(value: unknown): boolean {
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_BUFFER_MINUTES;
+}
+
 /**
  * @openapi
  * components:
@@ -39,6 +61,12 @@ function sendInternalError(res: Response, err: unknown, context: string) {
  *           type: string
  *           nullable: true
  *           description: URL pública da foto de capa do espaço
+ *         buffer_before_minutes:
+ *           type: integer
+ *           description: Preparação antes de cada evento (bloqueia o espaço, não é cobrada)
+ *         buffer_after_minutes:
+ *           type: integer
+ *           description: Limpeza depois de cada evento (bloqueia o espaço, não é cobrada)
  *         created_at:
  *           type: string
  *           format: date-time
@@ -87,6 +115,12 @@ function sendInternalError(res: Response, err: unknown, context: string) {
  *                 type: string
  *                 nullable: true
  *                 description: URL pública da foto de capa do espaço
+ *               buffer_before_minutes:
+ *                 type: integer
+ *                 example: 30
+ *               buffer_after_minutes:
+ *                 type: integer
+ *                 example: 60
  *     responses:
  *       201:
  *         description: Espaço criado
@@ -96,6 +130,8 @@ function sendInternalError(res: Response, err: unknown, context: string) {
  *               $ref: "#/components/schemas/Space"
  *       400:
  *         description: Dados inválidos
+ *       403:
+ *         description: MANAGER sem acesso a esta filial
  *       404:
  *         description: Branch não encontrada
  */
@@ -109,6 +145,8 @@ export const createSpace = async (req: Request, res: Response) => {
       price_per_hour,
       active,
       cover_url,
+      buffer_before_minutes,
+      buffer_after_minutes,
     } = req.body as {
       name?: string;
       description?: string | null;
@@ -116,6 +154,8 @@ export const createSpace = async (req: Request, res: Response) => {
       price_per_hour?: number;
       active?: boolean;
       cover_url?: string | null;
+      buffer_before_minutes?: number;
+      buffer_after_minutes?: number;
     };
 
     if (!name || typeof name !== 'string') {
@@ -127,6 +167,12 @@ export const createSpace = async (req: Request, res: Response) => {
     if (price_per_hour == null || isNaN(Number(price_per_hour)) || Number(price_per_hour) < 0) {
       return res.status(400).json({ error: 'invalid_price_per_hour' });
     }
+    if (buffer_before_minutes != null && !isValidBuffer(buffer_before_minutes)) {
+      return res.status(400).json({ error: 'invalid_buffer_before_minutes' });
+    }
+    if (buffer_after_minutes != null && !isValidBuffer(buffer_after_minutes)) {
+      return res.status(400).json({ error: 'invalid_buffer_after_minutes' });
+    }
 
     // Confere se a branch existe
     const branchCheck = await pool.query(
@@ -136,13 +182,15 @@ export const createSpace = async (req: Request, res: Response) => {
     if (branchCheck.rowCount === 0) {
       return res.status(404).json({ error: 'branch_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, branchId))) return;
 
     const spaceId = uuid();
     const sql = `
       INSERT INTO spaces
-        (id, branch_id, name, description, capacity, price_per_hour, active, cover_url)
+        (id, branch_id, name, description, capacity, price_per_hour, active, cover_url,
+         buffer_before_minutes, buffer_after_minutes)
       VALUES
-        ($1, $2, $3, $4, $5, $6, COALESCE($7, TRUE), $8)
+        ($1, $2, $3, $4, $5, $6, COALESCE($7, TRUE), $8, $9, $10)
       RETURNING *;
     `;
 
@@ -155,6 +203,8 @@ export const createSpace = async (req: Request, res: Response) => {
       Number(price_per_hour),
       active ?? true,
       cover_url ?? null,
+      Number(buffer_before_minutes ?? 0),
+      Number(buffer_after_minutes ?? 0),
     ];
 
     const { rows } = await pool.query(sql, params);
@@ -302,6 +352,12 @@ export const fetchSpace = async (req: Request, res: Response) => {
  *               cover_url:
  *                 type: string
  *                 nullable: true
+ *               buffer_before_minutes:
+ *                 type: integer
+ *                 description: Vale para novas reservas e remarcações
+ *               buffer_after_minutes:
+ *                 type: integer
+ *                 description: Vale para novas reservas e remarcações
  *     responses:
  *       200:
  *         description: Espaço atualizado
@@ -311,6 +367,8 @@ export const fetchSpace = async (req: Request, res: Response) => {
  *               $ref: "#/components/schemas/Space"
  *       400:
  *         description: Nenhum campo válido enviado
+ *       403:
+ *         description: MANAGER sem acesso à filial do espaço
  *       404:
  *         description: Espaço não encontrado
  */
@@ -324,6 +382,8 @@ export const updateSpace = async (req: Request, res: Response) => {
       price_per_hour,
       active,
       cover_url,
+      buffer_before_minutes,
+      buffer_after_minutes,
     } = req.body as {
       name?: string;
       description?: string | null;
@@ -331,6 +391,8 @@ export const updateSpace = async (req: Request, res: Response) => {
       price_per_hour?: number;
       active?: boolean;
       cover_url?: string | null;
+      buffer_before_minutes?: number;
+      buffer_after_minutes?: number;
     };
 
     const lookup = await pool.query(
@@ -340,6 +402,7 @@ export const updateSpace = async (req: Request, res: Response) => {
     if (!lookup.rows[0]) {
       return res.status(404).json({ error: 'space_not_found' });
     }
+    if (!(await ensureBranchAccess(req, res, lookup.rows[0].branch_id))) return;
 
     const fields: string[] = [];
     const params: SqlParam[] = [];
@@ -375,6 +438,21 @@ export const updateSpace = async (req: Request, res: Response) => {
       fields.push(`cover_url = $${paramIndex++}`);
       params.push(cover_url);
     }
+    // reservas já feitas mantêm os buffers de quando foram feitas/remarcadas
+    if (buffer_before_minutes !== undefined) {
+      if (!isValidBuffer(buffer_before_minutes)) {
+        return res.status(400).json({ error: 'invalid_buffer_before_minutes' });
+      }
+      fields.push(`buffer_before_minutes = $${paramIndex++}`);
+      params.push(Number(buffer_before_minutes));
+    }
+    if (buffer_after_minutes !== undefined) {
+      if (!isValidBuffer(buffer_after_minutes)) {
+        return res.status(400).json({ error: 'invalid_buffer_after_minutes' });
+      }
+      fields.push(`buffer_after_minutes = $${paramIndex++}`);
+      params.push(Number(buffer_after_minutes));
+    }
 
     if (fields.length === 0) {
       return res.status(400).json({ error: 'no_valid_fields' });
@@ -390,25 +468,351 @@ export const updateSpace = async (req: Request, res: Response) => {
     `;
     params.push(spaceId);
 
-    const { rows } = await pool.query(sql, params);
-    return res.json(rows[0]);
+    // a alteração e o webhook space.updated entram juntos
+    const client = await pool.connect();
+    let space;
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(sql, params);
+      space = rows[0];
+      await publishEvent(client, 'space.updated', { space });
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    return res.json(space);
   } catch (err) {
     return sendInternalError(res, err, 'updateSpace');
   }
 };
 
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// formato YYYY-MM-DD e data que existe no calendário (2027-13-45 e 2027-02-30 não)
+function isValidDate(value: string): boolean {
+  if (!DATE_RE.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+// limite de dias por consulta, para não gerar calendários gigantes
+const MAX_AVAILABILITY_DAYS: Record<Granularity, number> = {
+  day: 366,
+  hour: 31,
+};
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/availability:
+ *   get:
+ *     summary: Calendário de disponibilidade de um espaço
+ *     description: >
+ *       Retorna os intervalos livres e ocupados entre from e to (inclusive), usando a mesma
+ *       regra de sobreposição da criação de reservas. Reservas CANCELLED são ignoradas.
+ *       "busy" inclui os buffers de preparação/limpeza; "buffers" lista só esses trechos
+ *       (kind BEFORE/AFTER). Uma nova reserva também precisa caber com os buffers do espaço.
+ *       "closed" traz os trechos fora do horário de funcionamento ou em datas bloqueadas
+ *       (grade em "opening_hours", bloqueios em "blackouts"); eles não entram em "free" e
+ *       blocos totalmente fechados saem como CLOSED.
+ *       Rota pública (não exige token) e não expõe dados dos clientes.
+ *     tags: [Spaces]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: "Primeiro dia (padrão: hoje)."
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: "Último dia, inclusive (padrão: from + 30 dias em day, o próprio from em hour)."
+ *       - in: query
+ *         name: granularity
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [day, hour]
+ *           default: day
+ *     responses:
+ *       200:
+ *         description: Intervalos livres/ocupados e blocos classificados como FREE, PARTIAL, BUSY ou CLOSED
+ *       400:
+ *         description: Parâmetros inválidos ou janela grande demais
+ *       404:
+ *         description: Espaço não encontrado
+ */
+export const getSpaceAvailability = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+    const { from, to, granularity } = req.query as {
+      from?: string;
+      to?: string;
+      granularity?: string;
+    };
+
+    const gran = (granularity ?? 'day') as Granularity;
+    if (gran !== 'day' && gran !== 'hour') {
+      return res.status(400).json({ error: 'invalid_granularity' });
+    }
+
+    const fromDate = from ?? new Date().toISOString().slice(0, 10);
+    if (!isValidDate(fromDate)) {
+      return res.status(400).json({ error: 'invalid_from' });
+    }
+
+    const toDate = to ?? (gran === 'day' ? addDays(fromDate, 30) : fromDate);
+    if (!isValidDate(toDate)) {
+      return res.status(400).json({ error: 'invalid_to' });
+    }
+    if (toDate < fromDate) {
+      return res.status(400).json({ error: 'to_before_from' });
+    }
+
+    // janela [from 00:00, to+1 00:00)
+    const windowStart = `${fromDate}T00:00:00`;
+    const windowEnd = `${addDays(toDate, 1)}T00:00:00`;
+
+    const days = (Date.parse(`${windowEnd}Z`) - Date.parse(`${windowStart}Z`)) / 86400000;
+    if (days > MAX_AVAILABILITY_DAYS[gran]) {
+      return res.status(400).json({
+        error: 'range_too_large',
+        max_days: MAX_AVAILABILITY_DAYS[gran],
+      });
+    }
+
+    const spaceCheck = await pool.query(
+      'SELECT id, active, buffer_before_minutes, buffer_after_minutes FROM spaces WHERE id = $1',
+      [spaceId],
+    );
+    if (!spaceCheck.rows[0]) {
+      return res.status(404).json({ error: 'space_not_found' });
+    }
+
+    const busy = await listBusyIntervals(spaceId, windowStart, windowEnd);
+
+    const schedule = (await loadSpaceSchedules([spaceId], fromDate)).get(spaceId);
+    const closed = closedIntervals(schedule, windowStart, windowEnd);
+
+    return res.json({
+      space_id: spaceId,
+      active: spaceCheck.rows[0].active,
+      buffer_before_minutes: spaceCheck.rows[0].buffer_before_minutes,
+      buffer_after_minutes: spaceCheck.rows[0].buffer_after_minutes,
+      from: windowStart,
+      to: windowEnd,
+      granularity: gran,
+      opening_hours: { source: schedule.source, hours: schedule.hours },
+      blackouts: schedule.blackouts.filter((b) => b.start_date <= toDate),
+      busy,
+      buffers: await listBufferIntervals(spaceId, windowStart, windowEnd),
+      closed,
+      free: freeIntervals(mergeIntervals([...busy, ...closed]), windowStart, windowEnd),
+      slots: bucketize(busy, windowStart, windowEnd, gran, closed),
+    });
+  } catch (err) {
+    return sendInternalError(res, err, 'getSpaceAvailability');
+  }
+};
+
+const TIME_RE = /^\d{2}:\d{2}(:\d{2})?$/;
+
+/**
+ * @openapi
+ * /spaces/search:
+ *   get:
+ *     summary: Busca espaços livres em todas as filiais
+ *     description: >
+ *       Retorna apenas espaços ativos, com capacidade suficiente, dentro do preço máximo
+ *       e sem reserva conflitante no período pedido (mesma regra da criação de reservas).
+ *       Espaços fechados no período (horário de funcionamento ou data bloqueada) ficam de fora.
+ *       Cada resultado traz o orçamento detalhado do período (regras de preço do espaço).
+ *       O filtro max_price_per_hour usa o price_per_hour base do espaço.
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: query
+ *         name: city
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: check_in_date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: check_out_date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: start_time
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: '14:00'
+ *       - in: query
+ *         name: end_time
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: '22:00'
+ *       - in: query
+ *         name: adults_count
+ *         description: Capacidade mínima do espaço.
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: max_price_per_hour
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: Espaços disponíveis (mais baratos primeiro), com branch e quote
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+export const searchSpaces = async (req: Request, res: Response) => {
+  try {
+    const {
+      city,
+      state,
+      check_in_date,
+      check_out_date,
+      start_time,
+      end_time,
+      adults_count,
+      max_price_per_hour,
+    } = req.query as Record<string, string | undefined>;
+
+    if (!check_in_date || !isValidDate(check_in_date)) {
+      return res.status(400).json({ error: 'invalid_check_in_date' });
+    }
+    if (!check_out_date || !isValidDate(check_out_date)) {
+      return res.status(400).json({ error: 'invalid_check_out_date' });
+    }
+    if (!start_time || !TIME_RE.test(start_time)) {
+      return res.status(400).json({ error: 'invalid_start_time' });
+    }
+    if (!end_time || !TIME_RE.test(end_time)) {
+      return res.status(400).json({ error: 'invalid_end_time' });
+    }
+
+    const period = { check_in_date, check_out_date, start_time, end_time };
+    if (!(reservationHours(period) > 0)) {
+      return res.status(400).json({ error: 'invalid_time_range' });
+    }
+
+    const conditions: string[] = ['s.active = TRUE'];
+    const params: SqlParam[] = [check_in_date, check_out_date, start_time, end_time];
+    let paramIndex = params.length + 1;
+    let adults = 1;
+
+    if (city) {
+      conditions.push(`b.city ILIKE $${paramIndex++}`);
+      params.push(city.trim());
+    }
+    if (state) {
+      conditions.push(`b.state ILIKE $${paramIndex++}`);
+      params.push(state.trim());
+    }
+    if (adults_count !== undefined) {
+      adults = Number(adults_count);
+      if (!Number.isInteger(adults) || adults <= 0) {
+        return res.status(400).json({ error: 'invalid_adults_count' });
+      }
+      conditions.push(`s.capacity >= $${paramIndex++}`);
+      params.push(adults);
+    }
+    if (max_price_per_hour !== undefined) {
+      const maxPrice = Number(max_price_per_hour);
+      if (!Number.isFinite(maxPrice) || maxPrice < 0) {
+        return res.status(400).json({ error: 'invalid_max_price_per_hour' });
+      }
+      conditions.push(`s.price_per_hour <= $${paramIndex++}`);
+      params.push(maxPrice);
+    }
+
+    conditions.push(
+      noConflictSql(
+        's.id',
+        shiftByMinutesSql('($1::date + $3::time)', 's.buffer_before_minutes', -1),
+        shiftByMinutesSql('($2::date + $4::time)', 's.buffer_after_minutes', 1),
+      ),
+    );
+
+    const { rows } = await pool.query(
+      `
+        SELECT
+          s.*,
+          b.name  AS branch_name,
+          b.city  AS branch_city,
+          b.state AS branch_state
+        FROM spaces s
+        JOIN branches b ON b.id = s.branch_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY s.price_per_hour ASC, s.capacity ASC, s.name ASC
+      `,
+      params,
+    );
+
+    // horário de funcionamento/blackouts: mesma checagem da criação de reservas
+    const schedules = await loadSpaceSchedules(rows.map((space) => space.id), check_in_date);
+    const open = rows.filter((space) => !scheduleViolation(schedules.get(space.id), period));
+
+    // orçamento com as regras de preço de cada espaço
+    const pricing = await loadSpacePricing(open.map((space) => space.id));
+    return res.json(
+      open.map((space) => ({
+        ...space,
+        quote: buildQuote(pricing.get(space.id), period, adults),
+      })),
+    );
+  } catch (err) {
+    return sendInternalError(res, err, 'searchSpaces');
+  }
+};
+
 export const deleteSpace = async (req: Request, res: Response) => {
   try {
     const { spaceId } = req.params;
 
-    const result = await pool.query(
-      "DELETE FROM spaces WHERE id = $1",
+    const lookup = await pool.query(
+      "SELECT branch_id FROM spaces WHERE id = $1",
       [spaceId]
     );
-
-    if (result.rowCount === 0) {
+    if (!lookup.rows[0]) {
       return res.status(404).json({ error: "space_not_found" });
     }
+    if (!(await ensureBranchAccess(req, res, lookup.rows[0].branch_id))) return;
+
+    await pool.query("DELETE FROM spaces WHERE id = $1", [spaceId]);
 
     return res.status(204).send();
   } catch (err) {
@@ -0,0 +1,308 @@
+// src/controllers/user.ts
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { v4 as uuid } from 'uuid';
+import { AuthRole } from '../middleware/auth';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../services/password';
+import { isValidEmail } from '../services/emailAddress';
+
+type SqlParam = string | number | boolean | null;
+
+// contas CUSTOMER nascem vinculadas a um cliente (signup ou POST /customers com senha)
+const STAFF_ROLES: AuthRole[] = ['ADMIN', 'MANAGER'];
+
+const USER_COLUMNS = 'id, name, email, role, active, last_login_at, created_at, updated_at';
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[users:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         role:
+ *           type: string
+ *           enum: [ADMIN, MANAGER, CUSTOMER]
+ *         active:
+ *           type: boolean
+ *         last_login_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /users:
+ *   post:
+ *     summary: Cria uma conta de acesso
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, email, password, role]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MANAGER]
+ *     responses:
+ *       201:
+ *         description: Usuário criado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Dados inválidos
+ *       409:
+ *         description: E-mail já cadastrado
+ */
+export const createUser = async (req: Request, res: Response) => {
+  try {
+    const { name, email, password, role } = req.body as {
+      name?: string;
+      email?: string;
+      password?: string;
+      role?: AuthRole;
+    };
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ error: 'invalid_name' });
+    }
+    if (typeof email !== 'string' || !isValidEmail(email.trim())) {
+      return res.status(400).json({ error: 'invalid_email' });
+    }
+    if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: 'invalid_password', min_length: MIN_PASSWORD_LENGTH });
+    }
+    if (!role || !STAFF_ROLES.includes(role)) {
+      return res.status(400).json({ error: 'invalid_role' });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const emailCheck = await pool.query(
+      'SELECT id FROM users WHERE email = $1',
+      [normalizedEmail],
+    );
+    if (emailCheck.rowCount > 0) {
+      return res.status(409).json({ error: 'email_already_in_use' });
+    }
+
+    const sql = `
+      INSERT INTO users (id, name, email, password_hash, role)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${USER_COLUMNS};
+    `;
+
+    const params: SqlParam[] = [
+      uuid(),
+      name.trim(),
+      normalizedEmail,
+      await hashPassword(password),
+      role,
+    ];
+
+    const { rows } = await pool.query(sql, params);
+    return res.status(201).json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'createUser');
+  }
+};
+
+/**
+ * @openapi
+ * /users:
+ *   get:
+ *     summary: Lista contas de acesso
+ *     tags: [Users]
+ *     parameters:
+ *       - in: query
+ *         name: role
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [ADMIN, MANAGER, CUSTOMER]
+ *     responses:
+ *       200:
+ *         description: Lista de usuários
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/User'
+ */
+export const listUsers = async (req: Request, res: Response) => {
+  try {
+    const { role } = req.query as { role?: string };
+
+    let sql = `SELECT ${USER_COLUMNS} FROM users`;
+    const params: SqlParam[] = [];
+
+    if (role) {
+      sql += ' WHERE role = $1';
+      params.push(role);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const { rows } = await pool.query(sql, params);
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listUsers');
+  }
+};
+
+/**
+ * @openapi
+ * /users/{userId}:
+ *   patch:
+ *     summary: Atualiza uma conta de acesso
+ *     description: Desativar um usuário (active = false) também revoga os refresh tokens dele.
+ *     tags: [Users]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MANAGER]
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Usuário atualizado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Nenhum campo válido enviado ou dados inválidos
+ *       404:
+ *         description: Usuário não encontrado
+ */
+export const updateUser = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { name, password, role, active } = req.body as {
+      name?: string;
+      password?: string;
+      role?: AuthRole;
+      active?: boolean;
+    };
+
+    const lookup = await pool.query('SELECT id, role FROM users WHERE id = $1', [userId]);
+    if (!lookup.rows[0]) {
+      return res.status(404).json({ error: 'user_not_found' });
+    }
+    if (role !== undefined && lookup.rows[0].role === 'CUSTOMER') {
+      return res.status(400).json({ error: 'cannot_change_customer_role' });
+    }
+
+    const fields: string[] = [];
+    const params: SqlParam[] = [];
+    let paramIndex = 1;
+
+    if (name !== undefined) {
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({ error: 'invalid_name' });
+      }
+      fields.push(`name = $${paramIndex++}`);
+      params.push(name.trim());
+    }
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: 'invalid_password', min_length: MIN_PASSWORD_LENGTH });
+      }
+      fields.push(`password_hash = $${paramIndex++}`);
+      params.push(await hashPassword(password));
+    }
+    if (role !== undefined) {
+      if (!STAFF_ROLES.includes(role)) {
+        return res.status(400).json({ error: 'invalid_role' });
+      }
+      fields.push(`role = $${paramIndex++}`);
+      params.push(role);
+    }
+    if (active !== undefined) {
+      fields.push(`active = $${paramIndex++}`);
+      params.push(Boolean(active));
+    }
+
+    if (fields.length === 0) {
+      return res.status(400).json({ error: 'no_valid_fields' });
+    }
+
+    fields.push('updated_at = NOW()');
+
+    const sql = `
+      UPDATE users
+      SET ${fields.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING ${USER_COLUMNS};
+    `;
+    params.push(userId);
+
+    const { rows } = await pool.query(sql, params);
+
+    // troca de senha ou desativação encerra as sessões abertas
+    if (password !== undefined || active === false) {
+      await pool.query(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL',
+        [userId],
+      );
+    }
+
+    return res.json(rows[0]);
+  } catch (err) {
+    return sendInternalError(res, err, 'updateUser');
+  }
+};
+
+export {};
@@ -0,0 +1,406 @@
+// src/controllers/waitlist.ts
+// Lista de espera por horários ocupados (ofertas em services/waitlist.ts)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { ensureBranchAccess } from '../services/branchScope';
+import { evaluateSlot } from '../services/booking';
+import { cancelReservationWithRefund } from '../services/cancellation';
+import {
+  ACTIVE_WAITLIST_STATUSES,
+  syncWaitlistOffers,
+  WAITLIST_SELECT,
+  WAITLIST_STATUSES,
+  WaitlistStatus,
+} from '../services/waitlist';
+
+type SqlParam = string | number | boolean | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[waitlist:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+export type WaitlistInput = {
+  check_in_date?: string;
+  check_out_date?: string;
+  start_time?: string;
+  end_time?: string;
+  adults_count?: number;
+  notes?: string;
+};
+
+// posição na fila (só para WAITING): entradas do mesmo espaço que chegaram antes
+const POSITION_SQL = `
+  CASE WHEN e.status = 'WAITING' THEN (
+    SELECT COUNT(*)
+    FROM waitlist_entries q
+    WHERE q.space_id = e.space_id
+      AND q.status = 'WAITING'
+      AND q.created_at <= e.created_at
+  )::int END AS position
+`;
+
+/**
+ * Coloca o cliente na fila do espaço/período.
+ * Só entra na fila quem foi barrado por conflito: se o horário estiver livre
+ * responde 409 slot_available (basta reservar). Demais validações são as da
+ * reserva (datas, capacidade, espaço ativo).
+ * Responde o erro e retorna undefined se algo falhar.
+ */
+export async function addToWaitlist(
+  res: Response,
+  spaceId: string,
+  customerId: string,
+  input: WaitlistInput,
+  actorId?: string,
+) {
+  const slot = await evaluateSlot(spaceId, {
+    check_in_date: input.check_in_date,
+    check_out_date: input.check_out_date,
+    start_time: input.start_time,
+    end_time: input.end_time,
+    adults_count: input.adults_count,
+  });
+
+  if (slot.ok) {
+    res.status(409).json({ error: 'slot_available' });
+    return undefined;
+  }
+  if (slot.error !== 'conflicting_reservation') {
+    res.status(slot.status).json(
+      slot.details ? { error: slot.error, details: slot.details } : { error: slot.error },
+    );
+    return undefined;
+  }
+
+  const duplicate = await pool.query(
+    `
+      SELECT 1
+      FROM waitlist_entries
+      WHERE space_id = $1
+        AND customer_id = $2
+        AND check_in_date = $3 AND check_out_date = $4
+        AND start_time = $5 AND end_time = $6
+        AND status = ANY($7::text[])
+    `,
+    [
+      spaceId,
+      customerId,
+      input.check_in_date,
+      input.check_out_date,
+      input.start_time,
+      input.end_time,
+      ACTIVE_WAITLIST_STATUSES,
+    ],
+  );
+  if (duplicate.rowCount > 0) {
+    res.status(409).json({ error: 'already_on_waitlist' });
+    return undefined;
+  }
+
+  const space = await pool.query('SELECT branch_id FROM spaces WHERE id = $1', [spaceId]);
+
+  const inserted = await pool.query(
+    `
+      INSERT INTO waitlist_entries
+        (space_id, branch_id, customer_id, check_in_date, check_out_date,
+         start_time, end_time, adults_count, notes, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id
+    `,
+    [
+      spaceId,
+      space.rows[0].branch_id,
+      customerId,
+      input.check_in_date,
+      input.check_out_date,
+      input.start_time,
+      input.end_time,
+      Number(input.adults_count),
+      input.notes ?? null,
+      actorId ?? null,
+    ] as SqlParam[],
+  );
+
+  const { rows } = await pool.query(
+    `SELECT e.*, ${POSITION_SQL} FROM (${WAITLIST_SELECT}) e WHERE e.id = $1`,
+    [inserted.rows[0].id],
+  );
+
+  return rows[0];
+}
+
+/**
+ * Tira a entrada da fila. Se ela já tinha uma oferta em aberto, o HOLD
+ * oferecido é cancelado e o horário segue para o próximo da fila.
+ * Retorna o erro (409 se já encerrada) ou a entrada atualizada.
+ */
+export async function leaveWaitlist(
+  entryId: string,
+  actorId?: string,
+): Promise<{ status?: number; error?: string; entry?: unknown }> {
+  const { rows } = await pool.query(
+    `
+      UPDATE waitlist_entries
+      SET status = 'CANCELLED', updated_at = NOW()
+      WHERE id = $1
+        AND status = ANY($2::text[])
+      RETURNING id, status, offered_reservation_id
+    `,
+    [entryId, ACTIVE_WAITLIST_STATUSES],
+  );
+  if (!rows[0]) return { status: 409, error: 'waitlist_entry_not_active' };
+
+  if (rows[0].offered_reservation_id) {
+    const hold = await pool.query('SELECT status FROM reservations WHERE id = $1', [
+      rows[0].offered_reservation_id,
+    ]);
+    if (hold.rows[0]?.status === 'HOLD') {
+      await cancelReservationWithRefund(rows[0].offered_reservation_id, {
+        actorId,
+        reason: 'waitlist_declined',
+      });
+    }
+  }
+
+  const entry = await pool.query(`${WAITLIST_SELECT} WHERE id = $1`, [entryId]);
+  return { entry: entry.rows[0] };
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     WaitlistEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         space_id:
+ *           type: string
+ *           format: uuid
+ *         customer_id:
+ *           type: string
+ *           format: uuid
+ *         check_in_date:
+ *           type: string
+ *           format: date
+ *         check_out_date:
+ *           type: string
+ *           format: date
+ *         start_time:
+ *           type: string
+ *         end_time:
+ *           type: string
+ *         adults_count:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [WAITING, OFFERED, ACCEPTED, EXPIRED, CANCELLED]
+ *         position:
+ *           type: integer
+ *           nullable: true
+ *           description: Posição na fila do espaço (só WAITING)
+ *         offered_reservation_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: HOLD oferecido; converter o HOLD aceita a oferta
+ *         offer_expires_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/waitlist:
+ *   post:
+ *     summary: Coloca um cliente na lista de espera do espaço
+ *     description: >
+ *       Só para horários ocupados (409 slot_available se estiver livre). Quando o horário
+ *       vagar, a entrada mais antiga compatível recebe um HOLD com prazo para aceitar.
+ *     tags: [Waitlist]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [customer_id, check_in_date, check_out_date, start_time, end_time, adults_count]
+ *             properties:
+ *               customer_id:
+ *                 type: string
+ *                 format: uuid
+ *               check_in_date:
+ *                 type: string
+ *                 format: date
+ *               check_out_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *               adults_count:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Entrada criada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WaitlistEntry'
+ *       400:
+ *         description: Dados inválidos
+ *       409:
+ *         description: Horário livre (slot_available) ou cliente já na fila
+ */
+export const joinWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+    const { customer_id, ...input } = req.body as WaitlistInput & { customer_id?: string };
+
+    const space = await pool.query('SELECT branch_id FROM spaces WHERE id = $1', [spaceId]);
+    if (space.rows[0] && !(await ensureBranchAccess(req, res, space.rows[0].branch_id))) {
+      return;
+    }
+
+    if (!customer_id) {
+      return res.status(400).json({ error: 'invalid_customer_id' });
+    }
+
+    const entry = await addToWaitlist(res, spaceId, customer_id, input, req.user?.sub);
+    if (!entry) return;
+
+    return res.status(201).json(entry);
+  } catch (err) {
+    return sendInternalError(res, err, 'joinWaitlist');
+  }
+};
+
+/**
+ * @openapi
+ * /spaces/{spaceId}/waitlist:
+ *   get:
+ *     summary: Lista de espera do espaço (equipe)
+ *     tags: [Waitlist]
+ *     parameters:
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [WAITING, OFFERED, ACCEPTED, EXPIRED, CANCELLED]
+ *         description: Sem filtro, lista as entradas ativas (WAITING e OFFERED)
+ *     responses:
+ *       200:
+ *         description: Entradas por ordem de chegada, com o nome do cliente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WaitlistEntry'
+ *       404:
+ *         description: Espaço não encontrado
+ */
+export const listSpaceWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { spaceId } = req.params;
+    const { status } = req.query as { status?: string };
+
+    const space = await pool.query('SELECT branch_id FROM spaces WHERE id = $1', [spaceId]);
+    if (!space.rows[0]) {
+      return res.status(404).json({ error: 'space_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, space.rows[0].branch_id))) return;
+
+    if (status && !WAITLIST_STATUSES.includes(status as WaitlistStatus)) {
+      return res.status(400).json({ error: 'invalid_status' });
+    }
+
+    // ofertas vencidas/aceitas aparecem com o status atual
+    await syncWaitlistOffers();
+
+    const { rows } = await pool.query(
+      `
+        SELECT e.*, ${POSITION_SQL}, c.name AS customer_name, c.email AS customer_email
+        FROM (${WAITLIST_SELECT}) e
+        JOIN customers c ON c.id = e.customer_id
+        WHERE e.space_id = $1
+          AND e.status = ANY($2::text[])
+        ORDER BY e.created_at ASC
+      `,
+      [spaceId, status ? [status] : ACTIVE_WAITLIST_STATUSES],
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listSpaceWaitlist');
+  }
+};
+
+/**
+ * @openapi
+ * /waitlist/{entryId}/cancel:
+ *   patch:
+ *     summary: Remove a entrada da lista de espera
+ *     description: >
+ *       Se a entrada tinha uma oferta em aberto, o HOLD é cancelado e o horário
+ *       vai para o próximo da fila.
+ *     tags: [Waitlist]
+ *     parameters:
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entrada cancelada
+ *       404:
+ *         description: Entrada não encontrada
+ *       409:
+ *         description: Entrada já encerrada
+ */
+export const cancelWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    const { entryId } = req.params;
+
+    const existing = await pool.query('SELECT branch_id FROM waitlist_entries WHERE id = $1', [
+      entryId,
+    ]);
+    if (!existing.rows[0]) {
+      return res.status(404).json({ error: 'waitlist_entry_not_found' });
+    }
+    if (!(await ensureBranchAccess(req, res, existing.rows[0].branch_id))) return;
+
+    const result = await leaveWaitlist(entryId, req.user?.sub);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    return res.json(result.entry);
+  } catch (err) {
+    return sendInternalError(res, err, 'cancelWaitlistEntry');
+  }
+};
+
+export {};
@@ -0,0 +1,454 @@
+// src/controllers/webhookSubscription.ts
+// Assinaturas de webhooks de saída e log de entregas (envio em services/outboundWebhooks.ts)
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import {
+  DELIVERY_COLUMNS,
+  generateWebhookSecret,
+  isWebhookEventType,
+  replayDelivery,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WebhookDeliveryStatus,
+} from '../services/outboundWebhooks';
+
+type SqlParam = string | number | boolean | string[] | null;
+
+function sendInternalError(res: Response, err: unknown, context: string) {
+  console.error(`[webhook-subscriptions:${context}]`, err);
+  return res.status(500).json({ error: 'internal_error', context });
+}
+
+const LIST_LIMIT_DEFAULT = 100;
+const LIST_LIMIT_MAX = 500;
+
+// o secret só aparece na criação e quando é trocado
+const SUBSCRIPTION_COLUMNS = `
+  s.id,
+  s.url,
+  s.events,
+  s.description,
+  s.active,
+  '…' || right(s.secret, 4) AS secret_hint,
+  (
+    SELECT COUNT(*) FROM webhook_deliveries d
+    WHERE d.subscription_id = s.id AND d.status = 'PENDING'
+  )::int AS pending_deliveries,
+  (
+    SELECT COUNT(*) FROM webhook_deliveries d
+    WHERE d.subscription_id = s.id AND d.status = 'FAILED'
+  )::int AS failed_deliveries,
+  s.created_by,
+  s.created_at,
+  s.updated_at
+`;
+
+function isValidUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Valida a lista de eventos. Responde 400 e retorna undefined.
+ */
+function parseEvents(res: Response, events: unknown): string[] | undefined {
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    !events.every((event) => isWebhookEventType(event))
+  ) {
+    res.status(400).json({ error: 'invalid_events', allowed: WEBHOOK_EVENTS });
+    return undefined;
+  }
+  return [...new Set(events as string[])];
+}
+
+async function fetchSubscription(id: string) {
+  const { rows } = await pool.query(
+    `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions s WHERE s.id = $1`,
+    [id],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * @openapi
+ * /webhook-subscriptions:
+ *   get:
+ *     summary: Lista as assinaturas de webhooks
+ *     description: >
+ *       O secret não é devolvido (só secret_hint, os 4 últimos caracteres). Traz quantas
+ *       entregas estão na fila e quantas falharam.
+ *     tags: [Webhooks]
+ *     responses:
+ *       200:
+ *         description: Lista de assinaturas
+ */
+export const listWebhookSubscriptions = async (_req: Request, res: Response) => {
+  try {
+    const { rows } = await pool.query(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions s ORDER BY s.created_at`,
+    );
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listWebhookSubscriptions');
+  }
+};
+
+/**
+ * @openapi
+ * /webhook-subscriptions:
+ *   post:
+ *     summary: Cria uma assinatura de webhooks
+ *     description: >
+ *       Os eventos assinados são enviados por POST para a URL, com o corpo
+ *       { id, type, created_at, data } e os cabeçalhos X-Webhook-Id, X-Webhook-Event,
+ *       X-Webhook-Timestamp e X-Webhook-Signature ("sha256=" + HMAC-SHA256 do secret sobre
+ *       "<timestamp>.<corpo>"). Sem secret, um é gerado. O secret só é devolvido aqui.
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url, events]
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: https://contabil.example.com/hooks/seucantinho
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [reservation.created, reservation.confirmed, reservation.cancelled, payment.paid, payment.refunded, space.updated]
+ *               secret:
+ *                 type: string
+ *                 minLength: 16
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Assinatura criada (com o secret)
+ *       400:
+ *         description: invalid_url, invalid_events ou invalid_secret
+ */
+export const createWebhookSubscription = async (req: Request, res: Response) => {
+  try {
+    const { url, events, secret, description } = req.body as {
+      url?: string;
+      events?: unknown;
+      secret?: string;
+      description?: string | null;
+    };
+
+    if (!isValidUrl(url)) {
+      return res.status(400).json({ error: 'invalid_url' });
+    }
+    const eventList = parseEvents(res, events);
+    if (!eventList) return;
+    if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+      return res.status(400).json({ error: 'invalid_secret', min_length: 16 });
+    }
+
+    const finalSecret = secret ?? generateWebhookSecret();
+    const { rows } = await pool.query(
+      `
+        INSERT INTO webhook_subscriptions (url, secret, events, description, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id
+      `,
+      [url, finalSecret, eventList, description ?? null, req.user?.sub ?? null],
+    );
+
+    const subscription = await fetchSubscription(rows[0].id);
+    return res.status(201).json({ ...subscription, secret: finalSecret });
+  } catch (err) {
+    return sendInternalError(res, err, 'createWebhookSubscription');
+  }
+};
+
+/**
+ * @openapi
+ * /webhook-subscriptions/{subscriptionId}:
+ *   patch:
+ *     summary: Altera uma assinatura de webhooks
+ *     description: >
+ *       Desativar (active = false) encerra como FAILED as entregas ainda na fila, que podem
+ *       ser reenviadas depois. rotate_secret = true gera um secret novo, devolvido na resposta.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *               rotate_secret:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Assinatura alterada
+ *       400:
+ *         description: invalid_url, invalid_events ou no_valid_fields
+ *       404:
+ *         description: Assinatura não encontrada
+ */
+export const updateWebhookSubscription = async (req: Request, res: Response) => {
+  try {
+    const { subscriptionId } = req.params;
+    const { url, events, description, active, rotate_secret } = req.body as {
+      url?: string;
+      events?: unknown;
+      description?: string | null;
+      active?: boolean;
+      rotate_secret?: boolean;
+    };
+
+    const fields: string[] = [];
+    const params: SqlParam[] = [];
+    let idx = 1;
+
+    if (url !== undefined) {
+      if (!isValidUrl(url)) {
+        return res.status(400).json({ error: 'invalid_url' });
+      }
+      fields.push(`url = $${idx++}`);
+      params.push(url);
+    }
+    if (events !== undefined) {
+      const eventList = parseEvents(res, events);
+      if (!eventList) return;
+      fields.push(`events = $${idx++}`);
+      params.push(eventList);
+    }
+    if (description !== undefined) {
+      fields.push(`description = $${idx++}`);
+      params.push(description);
+    }
+    if (active !== undefined) {
+      fields.push(`active = $${idx++}`);
+      params.push(Boolean(active));
+    }
+    const newSecret = rotate_secret ? generateWebhookSecret() : null;
+    if (newSecret) {
+      fields.push(`secret = $${idx++}`);
+      params.push(newSecret);
+    }
+
+    if (fields.length === 0) {
+      return res.status(400).json({ error: 'no_valid_fields' });
+    }
+    fields.push('updated_at = NOW()');
+    params.push(subscriptionId);
+
+    const { rows } = await pool.query(
+      `
+        UPDATE webhook_subscriptions
+        SET ${fields.join(', ')}
+        WHERE id = $${idx}
+        RETURNING id, active
+      `,
+      params,
+    );
+    if (!rows[0]) {
+      return res.status(404).json({ error: 'webhook_subscription_not_found' });
+    }
+
+    if (!rows[0].active) {
+      await pool.query(
+        `
+          UPDATE webhook_deliveries
+          SET status = 'FAILED', last_error = 'assinatura desativada'
+          WHERE subscription_id = $1 AND status = 'PENDING'
+        `,
+        [subscriptionId],
+      );
+    }
+
+    const subscription = await fetchSubscription(subscriptionId);
+    return res.json(newSecret ? { ...subscription, secret: newSecret } : subscription);
+  } catch (err) {
+    return sendInternalError(res, err, 'updateWebhookSubscription');
+  }
+};
+
+/**
+ * @openapi
+ * /webhook-subscriptions/{subscriptionId}:
+ *   delete:
+ *     summary: Remove uma assinatura de webhooks (e o log de entregas dela)
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Assinatura removida
+ *       404:
+ *         description: Assinatura não encontrada
+ */
+export const removeWebhookSubscription = async (req: Request, res: Response) => {
+  try {
+    const { rowCount } = await pool.query('DELETE FROM webhook_subscriptions WHERE id = $1', [
+      req.params.subscriptionId,
+    ]);
+    if (!rowCount) {
+      return res.status(404).json({ error: 'webhook_subscription_not_found' });
+    }
+    return res.status(204).send();
+  } catch (err) {
+    return sendInternalError(res, err, 'removeWebhookSubscription');
+  }
+};
+
+/**
+ * @openapi
+ * /webhook-deliveries:
+ *   get:
+ *     summary: Log de entregas dos webhooks
+ *     description: Mais recentes primeiro, com o payload enviado, tentativas e a última resposta.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: query
+ *         name: subscription_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, DELIVERED, FAILED]
+ *       - in: query
+ *         name: event_type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *     responses:
+ *       200:
+ *         description: Lista de entregas
+ *       400:
+ *         description: status inválido (invalid_status)
+ */
+export const listWebhookDeliveries = async (req: Request, res: Response) => {
+  try {
+    const { subscription_id, status, event_type, limit } = req.query as {
+      subscription_id?: string;
+      status?: string;
+      event_type?: string;
+      limit?: string;
+    };
+
+    if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return res.status(400).json({ error: 'invalid_status' });
+    }
+
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+    let idx = 1;
+
+    if (subscription_id) {
+      conditions.push(`d.subscription_id = $${idx++}`);
+      params.push(subscription_id);
+    }
+    if (status) {
+      conditions.push(`d.status = $${idx++}`);
+      params.push(status);
+    }
+    if (event_type) {
+      conditions.push(`d.event_type = $${idx++}`);
+      params.push(event_type);
+    }
+
+    const rowLimit = Math.min(Math.max(Number(limit) || LIST_LIMIT_DEFAULT, 1), LIST_LIMIT_MAX);
+    params.push(rowLimit);
+
+    const { rows } = await pool.query(
+      `
+        SELECT ${DELIVERY_COLUMNS}, s.url
+        FROM webhook_deliveries d
+        JOIN webhook_subscriptions s ON s.id = d.subscription_id
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY d.created_at DESC
+        LIMIT $${idx}
+      `,
+      params,
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return sendInternalError(res, err, 'listWebhookDeliveries');
+  }
+};
+
+/**
+ * @openapi
+ * /webhook-deliveries/{deliveryId}/replay:
+ *   post:
+ *     summary: Reenvia uma entrega
+ *     description: >
+ *       Cria uma nova entrega PENDING com o mesmo evento (mesmo X-Webhook-Id e payload) e
+ *       replay_of apontando para a original. Vale para entregas FAILED ou DELIVERED.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       201:
+ *         description: Nova entrega na fila
+ *       404:
+ *         description: Entrega não encontrada
+ *       409:
+ *         description: >
+ *           A entrega ainda está na fila (delivery_pending) ou a assinatura está desativada
+ *           (subscription_inactive)
+ */
+export const replayWebhookDelivery = async (req: Request, res: Response) => {
+  try {
+    const result = await replayDelivery(req.params.deliveryId);
+    if (!result.ok) {
+      const status = result.error === 'delivery_not_found' ? 404 : 409;
+      return res.status(status).json({ error: result.error });
+    }
+    return res.status(201).json(result.delivery);
+  } catch (err) {
+    return sendInternalError(res, err, 'replayWebhookDelivery');
+  }
+};
+
+export {};
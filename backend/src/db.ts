@@ -4,3 +4,12 @@ const { Pool } = pkg;
 export const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
+
+/**
+ * true se o erro do Postgres for violação de UNIQUE (23505), ou seja, outra
+ * requisição gravou o mesmo valor entre a checagem e o INSERT.
+ */
+export function isUniqueViolation(err: unknown): boolean {
+  const pgErr = err as { code?: string } | undefined;
+  return pgErr?.code === '23505';
+}
@@ -1,6 +1,7 @@
 // src/middleware/auth.ts
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { pool } from '../db';
 
 const JWT_SECRET = process.env.JWT_SECRET ?? 'CHANGE_ME_IN_ENV';
 
@@ -25,9 +26,12 @@ declare global {
  * Middleware de validação de token JWT.
  * Usa o header Authorization: Bearer <token>.
  * Se optional = true, deixa passar mesmo sem token (req.user fica undefined).
+ * O usuário do token precisa existir e estar ativo: desativar (ou remover)
+ * corta o acesso na hora, sem esperar o token vencer. O papel vem do banco,
+ * então mudar o role também vale para tokens já emitidos.
  */
 export function tokenValidation(optional = false) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers['authorization'] || req.headers['Authorization'];
 
     if (!authHeader || typeof authHeader !== 'string') {
@@ -42,15 +46,30 @@ export function tokenValidation(optional = false) {
       return res.status(401).json({ error: 'invalid_authorization_format' });
     }
 
+    let decoded: AuthPayload;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as AuthPayload;
-      req.user = decoded;
-      return next();
+      decoded = jwt.verify(token, JWT_SECRET) as AuthPayload;
     } catch (err) {
       if (optional) return next();
       console.error('[auth:tokenValidation] invalid token', err);
       return res.status(401).json({ error: 'invalid_token' });
     }
+
+    try {
+      const { rows } = await pool.query('SELECT role, active FROM users WHERE id = $1', [
+        decoded.sub,
+      ]);
+      if (!rows[0]?.active) {
+        if (optional) return next();
+        return res.status(401).json({ error: 'user_inactive' });
+      }
+
+      req.user = { ...decoded, role: rows[0].role };
+      return next();
+    } catch (err) {
+      console.error('[auth:tokenValidation]', err);
+      return res.status(500).json({ error: 'internal_error', context: 'tokenValidation' });
+    }
   };
 }
 
@@ -82,12 +101,14 @@ export function authorize(...allowedRoles: AuthRole[]) {
 }
 
 /**
- * Helper opcional pra gerar token no controller de login.
- * Pode ser usado em loginUser:
+ * Helper pra gerar o access token (usado em /auth/login e /auth/refresh):
  *
  *   const token = generateToken({ id: user.id, role: user.role, email: user.email });
  */
-export function generateToken(payload: { id: string; role: AuthRole; email?: string }, expiresIn = '8h'): string {
+export function generateToken(
+  payload: { id: string; role: AuthRole; email?: string },
+  expiresIn: SignOptions['expiresIn'] = '8h',
+): string {
   const tokenPayload: AuthPayload = {
     sub: payload.id,
     role: payload.role,
@@ -1,6 +1,26 @@
 // src/routes/index.ts
 import { Router } from 'express';
 
+import { tokenValidation, authorize } from '../middleware/auth';
+
+import { login, signup, refresh, logout } from '../controllers/auth';
+
+import {
+  fetchMyProfile,
+  updateMyProfile,
+  listMyReservations,
+  createMyReservation,
+  cancelMyReservation,
+  createMyHold,
+  convertMyHold,
+  fetchMyCancellationQuote,
+  joinMyWaitlist,
+  listMyWaitlist,
+  leaveMyWaitlist,
+} from '../controllers/me';
+
+import { createUser, listUsers, updateUser } from '../controllers/user';
+
 import {
   registerBranch,
   searchBranches,
@@ -8,6 +28,9 @@ import {
   patchBranch,
   removeBranch,
   listBranchSpaces,
+  listBranchManagers,
+  assignBranchManager,
+  unassignBranchManager,
 } from '../controllers/branch';
 
 import {
@@ -23,7 +46,9 @@ import {
   listSpacesByBranch,
   fetchSpace,
   updateSpace,
-  deleteSpace
+  deleteSpace,
+  getSpaceAvailability,
+  searchSpaces,
 } from '../controllers/space';
 
 import {
@@ -31,60 +56,293 @@ import {
   fetchReservation,
   listReservationsBySpace,
   cancelReservation,
+  createHold,
+  convertHold,
+  updateReservationStatus,
+  listReservationHistory,
+  fetchCancellationQuote,
+  rescheduleReservation,
 } from '../controllers/reservation';
 
+import {
+  quoteSpace,
+  fetchSpacePricing,
+  saveSpacePricingRules,
+  createSurcharge,
+  removeSurcharge,
+} from '../controllers/pricing';
+
+import {
+  listCoupons,
+  createCoupon,
+  updateCoupon,
+  removeCoupon,
+} from '../controllers/coupon';
+
+import {
+  listBranchAddons,
+  createAddon,
+  updateAddon,
+  removeAddon,
+  replaceReservationItems,
+} from '../controllers/addon';
+
+import {
+  createReservationSeries,
+  fetchReservationSeries,
+  cancelReservationSeries,
+} from '../controllers/reservationSeries';
+
+import {
+  joinWaitlist,
+  listSpaceWaitlist,
+  cancelWaitlistEntry,
+} from '../controllers/waitlist';
+
+import {
+  fetchCancellationPolicy,
+  saveCancellationPolicy,
+  removeCancellationPolicy,
+} from '../controllers/cancellationPolicy';
+
+import {
+  fetchOpeningHours,
+  saveOpeningHours,
+  removeOpeningHours,
+  listBlackouts,
+  createBlackout,
+  removeBlackout,
+} from '../controllers/schedule';
+
 import {
   registerPayment,
   fetchPayment,
   confirmPayment,
+  syncPayment,
+  createPaymentRefund,
+  listPaymentRefunds,
   removePayment,
   listPayments,
 } from '../controllers/payment';
 
+import { receivePaymentWebhook } from '../controllers/paymentWebhook';
+
+import {
+  fetchPaymentPlan,
+  savePaymentPlan,
+  removePaymentPlan,
+  listUpcomingInstallments,
+} from '../controllers/paymentPlan';
+
+import { getReceivables } from '../controllers/report';
+
+import { listNotifications, retryNotification } from '../controllers/notification';
+
+import {
+  createWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  removeWebhookSubscription,
+  replayWebhookDelivery,
+  updateWebhookSubscription,
+} from '../controllers/webhookSubscription';
+
 const router = Router();
 
+/**
+ * AUTH
+ * únicas rotas públicas da API
+ */
+router.post('/auth/login', login);
+router.post('/auth/signup', signup);
+router.post('/auth/refresh', refresh);
+router.post('/auth/logout', logout);
+
+/**
+ * ME
+ * portal do cliente (CUSTOMER)
+ */
+router.get('/me', tokenValidation(), authorize('CUSTOMER'), fetchMyProfile);
+router.patch('/me', tokenValidation(), authorize('CUSTOMER'), updateMyProfile);
+router.get('/me/reservations', tokenValidation(), authorize('CUSTOMER'), listMyReservations);
+router.post('/me/reservations', tokenValidation(), authorize('CUSTOMER'), createMyReservation);
+router.get('/me/reservations/:reservationId/cancellation-quote', tokenValidation(), authorize('CUSTOMER'), fetchMyCancellationQuote);
+router.patch('/me/reservations/:reservationId/cancel', tokenValidation(), authorize('CUSTOMER'), cancelMyReservation);
+router.post('/me/holds', tokenValidation(), authorize('CUSTOMER'), createMyHold);
+router.patch('/me/reservations/:reservationId/convert', tokenValidation(), authorize('CUSTOMER'), convertMyHold);
+router.get('/me/waitlist', tokenValidation(), authorize('CUSTOMER'), listMyWaitlist);
+router.post('/me/waitlist', tokenValidation(), authorize('CUSTOMER'), joinMyWaitlist);
+router.patch('/me/waitlist/:entryId/cancel', tokenValidation(), authorize('CUSTOMER'), leaveMyWaitlist);
+
+/**
+ * USERS
+ * contas de acesso (somente ADMIN)
+ */
+router.post('/users', tokenValidation(), authorize('ADMIN'), createUser);
+router.get('/users', tokenValidation(), authorize('ADMIN'), listUsers);
+router.patch('/users/:userId', tokenValidation(), authorize('ADMIN'), updateUser);
+
 /**
  * CUSTOMERS
  */
-router.post('/customers', createCustomer);
-router.get('/customers', listCustomers);
-router.get('/customers/:customerId', fetchCustomer);
-router.patch('/customers/:customerId', updateCustomer);
-router.delete('/customers/:customerId', removeCustomer);
+router.post('/customers', tokenValidation(), authorize('ADMIN', 'MANAGER'), createCustomer);
+router.get('/customers', tokenValidation(), authorize('ADMIN', 'MANAGER'), listCustomers);
+router.get('/customers/:customerId', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchCustomer);
+router.patch('/customers/:customerId', tokenValidation(), authorize('ADMIN', 'MANAGER'), updateCustomer);
+router.delete('/customers/:customerId', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeCustomer);
 
 /**
  * SPACES
  * espaços sempre associados a uma branch
  */
-router.post('/branches/:branchId/spaces', createSpace);
-router.get('/branches/:branchId/spaces', listSpacesByBranch);
-router.get('/spaces/:spaceId', fetchSpace);
-router.patch('/spaces/:spaceId', updateSpace);
-router.delete('/spaces/:spaceId', deleteSpace);
+router.post('/branches/:branchId/spaces', tokenValidation(), authorize('ADMIN', 'MANAGER'), createSpace);
+router.get('/branches/:branchId/spaces', tokenValidation(), authorize(), listSpacesByBranch);
+// antes de /spaces/:spaceId para "search" não virar um id
+router.get('/spaces/search', tokenValidation(), authorize(), searchSpaces);
+router.get('/spaces/:spaceId', tokenValidation(), authorize(), fetchSpace);
+// calendário público: só intervalos, sem dados de clientes
+router.get('/spaces/:spaceId/availability', getSpaceAvailability);
+router.patch('/spaces/:spaceId', tokenValidation(), authorize('ADMIN', 'MANAGER'), updateSpace);
+router.delete('/spaces/:spaceId', tokenValidation(), authorize('ADMIN', 'MANAGER'), deleteSpace);
+
+/**
+ * PRICING
+ * orçamento para qualquer usuário; regras só para a equipe da filial
+ */
+router.post('/spaces/:spaceId/quote', tokenValidation(), authorize(), quoteSpace);
+router.get('/spaces/:spaceId/pricing', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchSpacePricing);
+router.put('/spaces/:spaceId/pricing', tokenValidation(), authorize('ADMIN', 'MANAGER'), saveSpacePricingRules);
+router.post('/spaces/:spaceId/pricing/surcharges', tokenValidation(), authorize('ADMIN', 'MANAGER'), createSurcharge);
+router.delete('/spaces/:spaceId/pricing/surcharges/:surchargeId', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeSurcharge);
 
 /**
  * RESERVATIONS
  * reservas associadas a um espaço (e, por tabela, a uma branch)
  */
-router.post('/spaces/:spaceId/reservations', createReservation);
-router.get('/spaces/:spaceId/reservations', listReservationsBySpace);
-router.get('/reservations/:reservationId', fetchReservation);
-router.patch('/reservations/:reservationId/cancel', cancelReservation);
+router.post('/spaces/:spaceId/reservations', tokenValidation(), authorize('ADMIN', 'MANAGER'), createReservation);
+router.get('/spaces/:spaceId/reservations', tokenValidation(), authorize('ADMIN', 'MANAGER'), listReservationsBySpace);
+router.get('/reservations/:reservationId', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchReservation);
+router.patch('/reservations/:reservationId/cancel', tokenValidation(), authorize('ADMIN', 'MANAGER'), cancelReservation);
+router.patch('/reservations/:reservationId/status', tokenValidation(), authorize('ADMIN', 'MANAGER'), updateReservationStatus);
+router.patch('/reservations/:reservationId/reschedule', tokenValidation(), authorize('ADMIN', 'MANAGER'), rescheduleReservation);
+router.get('/reservations/:reservationId/history', tokenValidation(), authorize('ADMIN', 'MANAGER'), listReservationHistory);
+router.get('/reservations/:reservationId/cancellation-quote', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchCancellationQuote);
+router.put('/reservations/:reservationId/items', tokenValidation(), authorize('ADMIN', 'MANAGER'), replaceReservationItems);
+
+// HOLD: bloqueio temporário do horário durante o checkout
+router.post('/spaces/:spaceId/holds', tokenValidation(), authorize('ADMIN', 'MANAGER'), createHold);
+router.patch('/reservations/:reservationId/convert', tokenValidation(), authorize('ADMIN', 'MANAGER'), convertHold);
+
+// Reservas recorrentes
+router.post('/spaces/:spaceId/reservation-series', tokenValidation(), authorize('ADMIN', 'MANAGER'), createReservationSeries);
+router.get('/reservation-series/:seriesId', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchReservationSeries);
+router.patch('/reservation-series/:seriesId/cancel', tokenValidation(), authorize('ADMIN', 'MANAGER'), cancelReservationSeries);
+
+// Lista de espera: o horário liberado vira um HOLD oferecido ao primeiro da fila
+router.get('/spaces/:spaceId/waitlist', tokenValidation(), authorize('ADMIN', 'MANAGER'), listSpaceWaitlist);
+router.post('/spaces/:spaceId/waitlist', tokenValidation(), authorize('ADMIN', 'MANAGER'), joinWaitlist);
+router.patch('/waitlist/:entryId/cancel', tokenValidation(), authorize('ADMIN', 'MANAGER'), cancelWaitlistEntry);
 
 /**
  * PAYMENTS
  * pagamentos associados a uma reserva
  */
-router.get('/payments', listPayments);
-router.post('/reservations/:reservationId/payments', registerPayment);
-router.get('/payments/:paymentId', fetchPayment);
-router.post('/payments/:paymentId/confirm', confirmPayment);
-router.delete('/payments/:paymentId', removePayment);
-
-router.post('/branches', registerBranch);
-router.get('/branches', searchBranches);
-router.get('/branches/:id', getBranchById);
-router.patch('/branches/:id', patchBranch);
-router.delete('/branches/:id', removeBranch);
+router.get('/payments', tokenValidation(), authorize('ADMIN', 'MANAGER'), listPayments);
+router.post('/reservations/:reservationId/payments', tokenValidation(), authorize('ADMIN', 'MANAGER'), registerPayment);
+router.get('/payments/:paymentId', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchPayment);
+router.post('/payments/:paymentId/confirm', tokenValidation(), authorize('ADMIN', 'MANAGER'), confirmPayment);
+router.post('/payments/:paymentId/sync', tokenValidation(), authorize('ADMIN', 'MANAGER'), syncPayment);
+router.get('/payments/:paymentId/refunds', tokenValidation(), authorize('ADMIN', 'MANAGER'), listPaymentRefunds);
+router.post('/payments/:paymentId/refunds', tokenValidation(), authorize('ADMIN', 'MANAGER'), createPaymentRefund);
+router.delete('/payments/:paymentId', tokenValidation(), authorize('ADMIN', 'MANAGER'), removePayment);
+
+// Parcelamento do saldo
+router.get('/payment-plans/upcoming', tokenValidation(), authorize('ADMIN', 'MANAGER'), listUpcomingInstallments);
+router.get('/reservations/:reservationId/payment-plan', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchPaymentPlan);
+router.put('/reservations/:reservationId/payment-plan', tokenValidation(), authorize('ADMIN', 'MANAGER'), savePaymentPlan);
+router.delete('/reservations/:reservationId/payment-plan', tokenValidation(), authorize('ADMIN', 'MANAGER'), removePaymentPlan);
+
+/**
+ * REPORTS
+ */
+router.get('/reports/receivables', tokenValidation(), authorize('ADMIN', 'MANAGER'), getReceivables);
+
+/**
+ * NOTIFICATIONS
+ */
+router.get('/notifications', tokenValidation(), authorize('ADMIN', 'MANAGER'), listNotifications);
+router.post('/notifications/:notificationId/retry', tokenValidation(), authorize('ADMIN', 'MANAGER'), retryNotification);
+
+/**
+ * OUTBOUND WEBHOOKS (fora de /webhooks, que recebe o corpo cru)
+ */
+router.get('/webhook-subscriptions', tokenValidation(), authorize('ADMIN'), listWebhookSubscriptions);
+router.post('/webhook-subscriptions', tokenValidation(), authorize('ADMIN'), createWebhookSubscription);
+router.patch('/webhook-subscriptions/:subscriptionId', tokenValidation(), authorize('ADMIN'), updateWebhookSubscription);
+router.delete('/webhook-subscriptions/:subscriptionId', tokenValidation(), authorize('ADMIN'), removeWebhookSubscription);
+router.get('/webhook-deliveries', tokenValidation(), authorize('ADMIN'), listWebhookDeliveries);
+router.post('/webhook-deliveries/:deliveryId/replay', tokenValidation(), authorize('ADMIN'), replayWebhookDelivery);
+
+// aviso do provedor: sem token, autenticado pela assinatura
+router.post('/webhooks/payments/:provider', receivePaymentWebhook);
+
+/**
+ * BRANCHES
+ * criar/remover filiais e atribuir gerentes é exclusivo do ADMIN;
+ * MANAGER só altera as filiais que administra (checado no controller)
+ */
+router.post('/branches', tokenValidation(), authorize('ADMIN'), registerBranch);
+router.get('/branches', tokenValidation(), authorize(), searchBranches);
+router.get('/branches/:id', tokenValidation(), authorize(), getBranchById);
+router.patch('/branches/:id', tokenValidation(), authorize('ADMIN', 'MANAGER'), patchBranch);
+router.delete('/branches/:id', tokenValidation(), authorize('ADMIN'), removeBranch);
+router.get('/branches/:id/managers', tokenValidation(), authorize('ADMIN'), listBranchManagers);
+router.post('/branches/:id/managers', tokenValidation(), authorize('ADMIN'), assignBranchManager);
+router.delete('/branches/:id/managers/:userId', tokenValidation(), authorize('ADMIN'), unassignBranchManager);
+
+/**
+ * CANCELLATION POLICIES
+ * por filial ou por espaço (a do espaço prevalece)
+ */
+router.get('/branches/:id/cancellation-policy', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchCancellationPolicy);
+router.put('/branches/:id/cancellation-policy', tokenValidation(), authorize('ADMIN', 'MANAGER'), saveCancellationPolicy);
+router.delete('/branches/:id/cancellation-policy', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeCancellationPolicy);
+router.get('/spaces/:spaceId/cancellation-policy', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchCancellationPolicy);
+router.put('/spaces/:spaceId/cancellation-policy', tokenValidation(), authorize('ADMIN', 'MANAGER'), saveCancellationPolicy);
+router.delete('/spaces/:spaceId/cancellation-policy', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeCancellationPolicy);
+
+/**
+ * OPENING HOURS / BLACKOUTS
+ * grade semanal por filial ou espaço (a do espaço substitui a da filial); datas bloqueadas somam
+ */
+router.get('/branches/:id/opening-hours', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchOpeningHours);
+router.put('/branches/:id/opening-hours', tokenValidation(), authorize('ADMIN', 'MANAGER'), saveOpeningHours);
+router.delete('/branches/:id/opening-hours', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeOpeningHours);
+router.get('/spaces/:spaceId/opening-hours', tokenValidation(), authorize('ADMIN', 'MANAGER'), fetchOpeningHours);
+router.put('/spaces/:spaceId/opening-hours', tokenValidation(), authorize('ADMIN', 'MANAGER'), saveOpeningHours);
+router.delete('/spaces/:spaceId/opening-hours', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeOpeningHours);
+router.get('/branches/:id/blackouts', tokenValidation(), authorize('ADMIN', 'MANAGER'), listBlackouts);
+router.post('/branches/:id/blackouts', tokenValidation(), authorize('ADMIN', 'MANAGER'), createBlackout);
+router.get('/spaces/:spaceId/blackouts', tokenValidation(), authorize('ADMIN', 'MANAGER'), listBlackouts);
+router.post('/spaces/:spaceId/blackouts', tokenValidation(), authorize('ADMIN', 'MANAGER'), createBlackout);
+router.delete('/blackouts/:blackoutId', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeBlackout);
+
+/**
+ * COUPONS
+ * cadastro exclusivo do ADMIN; o uso é via coupon_code na reserva/orçamento
+ */
+router.get('/coupons', tokenValidation(), authorize('ADMIN'), listCoupons);
+router.post('/coupons', tokenValidation(), authorize('ADMIN'), createCoupon);
+router.patch('/coupons/:couponId', tokenValidation(), authorize('ADMIN'), updateCoupon);
+router.delete('/coupons/:couponId', tokenValidation(), authorize('ADMIN'), removeCoupon);
+
+/**
+ * ADD-ONS
+ * catálogo por filial (cliente vê os ativos); itens da reserva via PUT /reservations/:id/items
+ */
+router.get('/branches/:id/addons', tokenValidation(), authorize(), listBranchAddons);
+router.post('/branches/:id/addons', tokenValidation(), authorize('ADMIN', 'MANAGER'), createAddon);
+router.patch('/addons/:addonId', tokenValidation(), authorize('ADMIN', 'MANAGER'), updateAddon);
+router.delete('/addons/:addonId', tokenValidation(), authorize('ADMIN', 'MANAGER'), removeAddon);
 
 export default router;
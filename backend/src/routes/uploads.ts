@@ -4,6 +4,8 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 
+import { tokenValidation, authorize } from '../middleware/auth';
+
 const router = Router();
 
 // Diretório base dos uploads: ./uploads
@@ -33,17 +35,24 @@ const upload = multer({ storage });
  * POST /space-cover
  * Body: multipart/form-data, campo "file"
  * Resposta: { url: "/uploads/space-covers/arquivo.ext" }
+ * Requer ADMIN ou MANAGER.
  */
-router.post('/space-cover', upload.single('file'), (req, res) => {
-  if (!req.file) {
-    return res.status(400).json({ error: 'no_file' });
-  }
-
-  const relativeUrl = `/uploads/space-covers/${req.file.filename}`;
-
-  return res.status(201).json({
-    url: relativeUrl,
-  });
-});
+router.post(
+  '/space-cover',
+  tokenValidation(),
+  authorize('ADMIN', 'MANAGER'),
+  upload.single('file'),
+  (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: 'no_file' });
+    }
+
+    const relativeUrl = `/uploads/space-covers/${req.file.filename}`;
+
+    return res.status(201).json({
+      url: relativeUrl,
+    });
+  },
+);
 
 export default router;
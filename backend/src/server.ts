@@ -1,9 +1,34 @@
 // backend/src/services/server.ts
 import 'dotenv/config';
 import app from './app';
+import { ensureAdminUser } from './services/bootstrapAdmin';
+import { assertPaymentProvidersConfigured } from './services/paymentProvider';
+import { startHoldSweeper } from './services/holds';
+import { startDepositSweeper } from './services/paymentTerms';
+import { startInstallmentSweeper } from './services/paymentPlans';
+import { startDunningSweeper } from './services/dunning';
+import { startRefundRetrier } from './services/paymentCharges';
+import { startNotificationDispatcher } from './services/notifications';
+import { startWebhookDispatcher } from './services/outboundWebhooks';
+import { startWaitlistSweeper } from './services/waitlist';
 
 const port = Number(process.env.PORT) || 3000;
 
-app.listen(port, () => {
-  console.log(`Servidor rodando em http://localhost:${port}`);
-});
+// configuração inválida de pagamentos derruba a subida (sem fallback inseguro)
+assertPaymentProvidersConfigured();
+
+ensureAdminUser()
+  .catch((err) => console.error('[bootstrap] falha ao criar ADMIN inicial', err))
+  .finally(() => {
+    app.listen(port, () => {
+      console.log(`Servidor rodando em http://localhost:${port}`);
+    });
+    startHoldSweeper();
+    startWaitlistSweeper();
+    startDepositSweeper();
+    startInstallmentSweeper();
+    startDunningSweeper();
+    startNotificationDispatcher();
+    startWebhookDispatcher();
+    startRefundRetrier();
+  });
@@ -0,0 +1,194 @@
+// src/services/addons.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import { PriceQuote } from './pricing';
+
+/**
+ * Adicionais (buffet, decoração, limpeza...) do catálogo da filial.
+ *
+ * - PER_UNIT: quantity informada pelo cliente × unit_price
+ * - PER_GUEST: adults_count da reserva × unit_price (quantity é ignorada)
+ *
+ * reservation_items guarda nome e preço do momento da compra; mudanças no
+ * catálogo não alteram reservas já feitas.
+ */
+export type AddonPricingMode = 'PER_UNIT' | 'PER_GUEST';
+
+export const ADDON_PRICING_MODES: AddonPricingMode[] = ['PER_UNIT', 'PER_GUEST'];
+
+export type ReservationItemInput = {
+  addon_id?: string;
+  quantity?: number;
+};
+
+export type ReservationItem = {
+  addon_id: string | null;
+  name: string;
+  pricing_mode: AddonPricingMode;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+};
+
+const toCents = (value: number) => Math.round(Number(value) * 100);
+
+function itemQuantity(mode: AddonPricingMode, quantity: number, adultsCount: number): number {
+  return mode === 'PER_GUEST' ? adultsCount : quantity;
+}
+
+function priceItem(
+  item: Omit<ReservationItem, 'quantity' | 'amount'>,
+  quantity: number,
+  adultsCount: number,
+): ReservationItem {
+  const finalQuantity = itemQuantity(item.pricing_mode, quantity, adultsCount);
+  return {
+    ...item,
+    quantity: finalQuantity,
+    amount: (toCents(item.unit_price) * finalQuantity) / 100,
+  };
+}
+
+/**
+ * Valida os itens pedidos contra o catálogo ativo da filial e calcula os valores.
+ * Retorna os itens ou o código de erro.
+ */
+export async function resolveAddonItems(
+  branchId: string,
+  inputs: unknown,
+  adultsCount: number,
+): Promise<{ items?: ReservationItem[]; error?: string }> {
+  if (inputs == null) return { items: [] };
+  if (!Array.isArray(inputs)) return { error: 'invalid_items' };
+
+  const requested = inputs as ReservationItemInput[];
+  const ids = requested.map((i) => i?.addon_id);
+  if (ids.some((id) => typeof id !== 'string' || !id)) return { error: 'invalid_items' };
+  if (new Set(ids).size !== ids.length) return { error: 'duplicate_addon' };
+  if (requested.length === 0) return { items: [] };
+
+  const { rows } = await pool.query(
+    `
+      SELECT id, name, pricing_mode, unit_price::float8 AS unit_price
+      FROM addons
+      WHERE id::text = ANY($1::text[])
+        AND branch_id = $2
+        AND active = TRUE
+    `,
+    [ids, branchId],
+  );
+  const catalog = new Map<string, Omit<ReservationItem, 'quantity' | 'amount'> & { id: string }>(
+    rows.map((r) => [r.id, r]),
+  );
+
+  const items: ReservationItem[] = [];
+  for (const input of requested) {
+    const addon = catalog.get(input.addon_id);
+    if (!addon) return { error: 'addon_not_found' };
+
+    const quantity = input.quantity == null ? 1 : Number(input.quantity);
+    if (addon.pricing_mode === 'PER_UNIT' && (!Number.isInteger(quantity) || quantity <= 0)) {
+      return { error: 'invalid_addon_quantity' };
+    }
+
+    items.push(
+      priceItem(
+        {
+          addon_id: addon.id,
+          name: addon.name,
+          pricing_mode: addon.pricing_mode,
+          unit_price: addon.unit_price,
+        },
+        quantity,
+        adultsCount,
+      ),
+    );
+  }
+  return { items };
+}
+
+/**
+ * Itens já gravados na reserva, recalculados para outro adults_count
+ * (remarcação): PER_GUEST acompanha o número de adultos, preço não muda.
+ */
+export async function repriceReservationItems(
+  reservationId: string,
+  adultsCount: number,
+): Promise<ReservationItem[]> {
+  const { rows } = await pool.query(
+    `
+      SELECT addon_id, name, pricing_mode, quantity, unit_price::float8 AS unit_price
+      FROM reservation_items
+      WHERE reservation_id = $1
+      ORDER BY created_at ASC
+    `,
+    [reservationId],
+  );
+  return rows.map((r) => priceItem(r, r.quantity, adultsCount));
+}
+
+/**
+ * Acrescenta uma linha ADDON por item e soma ao total do orçamento.
+ * Vem depois do cupom, que só desconta o aluguel.
+ */
+export function applyAddons(quote: PriceQuote, items: ReservationItem[]): PriceQuote {
+  if (items.length === 0) return quote;
+
+  const addonsCents = items.reduce((sum, item) => sum + toCents(item.amount), 0);
+  return {
+    ...quote,
+    lines: [
+      ...quote.lines,
+      ...items.map((item) => ({
+        code: 'ADDON' as const,
+        description: item.name,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        amount: item.amount,
+      })),
+    ],
+    total_amount: (toCents(quote.total_amount) + addonsCents) / 100,
+  };
+}
+
+/**
+ * Orçamento sem as linhas ADDON (aluguel + cupom), para trocar os adicionais.
+ */
+export function withoutAddons(quote: PriceQuote): PriceQuote {
+  const lines = quote.lines.filter((line) => line.code !== 'ADDON');
+  return {
+    ...quote,
+    lines,
+    total_amount: lines.reduce((sum, line) => sum + toCents(line.amount), 0) / 100,
+  };
+}
+
+/**
+ * Substitui os itens da reserva (dentro da transação do chamador).
+ */
+export async function saveReservationItems(
+  client: PoolClient,
+  reservationId: string,
+  items: ReservationItem[],
+) {
+  await client.query('DELETE FROM reservation_items WHERE reservation_id = $1', [reservationId]);
+
+  for (const item of items) {
+    await client.query(
+      `
+        INSERT INTO reservation_items
+          (reservation_id, addon_id, name, pricing_mode, quantity, unit_price, amount)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `,
+      [
+        reservationId,
+        item.addon_id,
+        item.name,
+        item.pricing_mode,
+        item.quantity,
+        item.unit_price,
+        item.amount,
+      ],
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// src/services/authTokens.ts
+import crypto from 'crypto';
+import { pool } from '../db';
+import { AuthRole, generateToken } from '../middleware/auth';
+
+const ACCESS_TOKEN_TTL = '8h';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export type SessionUser = {
+  id: string;
+  role: AuthRole;
+  email: string;
+};
+
+export type SessionTokens = {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'Bearer';
+  expires_in: string;
+};
+
+/**
+ * O refresh token é opaco (random) e só o hash vai pro banco,
+ * então um vazamento da tabela não permite renovar sessões.
+ */
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Gera access token (JWT via generateToken) + refresh token persistido.
+ */
+export async function issueTokens(user: SessionUser): Promise<SessionTokens> {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+
+  await pool.query(
+    `
+      INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
+      VALUES ($1, $2, NOW() + make_interval(days => $3))
+    `,
+    [user.id, hashRefreshToken(refreshToken), REFRESH_TOKEN_TTL_DAYS],
+  );
+
+  return {
+    access_token: generateToken(
+      { id: user.id, role: user.role, email: user.email },
+      ACCESS_TOKEN_TTL,
+    ),
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+  };
+}
@@ -0,0 +1,299 @@
+// src/services/availability.ts
+import { pool } from '../db';
+
+/**
+ * Regra única de sobreposição entre reservas.
+ *
+ * Consideramos o intervalo [start_ts, end_ts) de cada reserva, onde
+ * start_ts = check_in_date + start_time - buffer_before_minutes e
+ * end_ts = check_out_date + end_time + buffer_after_minutes
+ * (buffers de preparação/limpeza do espaço, copiados para a reserva).
+ * Duas reservas conflitam se:
+ *    existing_start < new_end AND new_start < existing_end
+ * com o período novo também estendido pelos buffers do espaço; ou seja,
+ * entre dois eventos sobra pelo menos after (do primeiro) + before (do segundo).
+ *
+ * Reservas CANCELLED nunca bloqueiam o espaço. HOLD bloqueia até ser
+ * convertido ou liberado pelo sweeper (services/holds.ts).
+ */
+export const BLOCKING_STATUS_SQL = "status <> 'CANCELLED'";
+
+// início/fim do período bloqueado de uma reserva (colunas de reservations)
+const BLOCKED_START_SQL =
+  "(check_in_date + start_time - buffer_before_minutes * INTERVAL '1 minute')";
+const BLOCKED_END_SQL =
+  "(check_out_date + end_time + buffer_after_minutes * INTERVAL '1 minute')";
+
+export function overlapSql(startExpr: string, endExpr: string): string {
+  return `${BLOCKED_START_SQL} < ${endExpr} AND ${startExpr} < ${BLOCKED_END_SQL}`;
+}
+
+/**
+ * Estende um instante SQL por um buffer em minutos (sign -1 antes, +1 depois).
+ */
+export function shiftByMinutesSql(tsExpr: string, minutesExpr: string, sign: 1 | -1): string {
+  return `(${tsExpr} ${sign < 0 ? '-' : '+'} ${minutesExpr} * INTERVAL '1 minute')`;
+}
+
+/**
+ * Condição SQL "nenhuma reserva bloqueante sobrepõe o período"
+ * para usar em buscas com vários espaços (ex.: NOT EXISTS por s.id).
+ * startExpr/endExpr já devem incluir os buffers do espaço (shiftByMinutesSql).
+ */
+export function noConflictSql(spaceIdExpr: string, startExpr: string, endExpr: string): string {
+  return `
+    NOT EXISTS (
+      SELECT 1
+      FROM reservations
+      WHERE space_id = ${spaceIdExpr}
+        AND ${BLOCKING_STATUS_SQL}
+        AND (${overlapSql(startExpr, endExpr)})
+    )
+  `;
+}
+
+// constraint EXCLUDE de reservations (database/init.sql)
+export const OVERLAP_CONSTRAINT = 'excl_reservations_space_period';
+
+/**
+ * true se o erro do Postgres for a violação da constraint de sobreposição,
+ * ou seja, outra requisição reservou o mesmo horário entre o SELECT e o INSERT.
+ */
+export function isOverlapViolation(err: unknown): boolean {
+  const pgErr = err as { code?: string; constraint?: string } | undefined;
+  return pgErr?.code === '23P01' && pgErr.constraint === OVERLAP_CONSTRAINT;
+}
+
+export type ReservationPeriod = {
+  check_in_date: string;
+  check_out_date: string;
+  start_time: string;
+  end_time: string;
+};
+
+/**
+ * true se existir reserva bloqueante no espaço que sobreponha o período
+ * (buffers do espaço incluídos nos dois lados).
+ * excludeReservationId ignora a própria reserva (remarcação).
+ */
+export async function hasConflictingReservation(
+  spaceId: string,
+  period: ReservationPeriod,
+  excludeReservationId?: string,
+): Promise<boolean> {
+  const start = shiftByMinutesSql(
+    '($2::date + $4::time)',
+    '(SELECT buffer_before_minutes FROM spaces WHERE id = $1)',
+    -1,
+  );
+  const end = shiftByMinutesSql(
+    '($3::date + $5::time)',
+    '(SELECT buffer_after_minutes FROM spaces WHERE id = $1)',
+    1,
+  );
+
+  const sql = `
+    SELECT 1
+    FROM reservations
+    WHERE space_id = $1
+      AND ${BLOCKING_STATUS_SQL}
+      AND (${overlapSql(start, end)})
+      AND ($6::uuid IS NULL OR id <> $6::uuid)
+    LIMIT 1;
+  `;
+
+  const { rowCount } = await pool.query(sql, [
+    spaceId,                      // $1
+    period.check_in_date,         // $2
+    period.check_out_date,        // $3
+    period.start_time,            // $4
+    period.end_time,              // $5
+    excludeReservationId ?? null, // $6
+  ]);
+  return rowCount > 0;
+}
+
+// ==================================================
+// Calendário de disponibilidade
+// ==================================================
+
+// Timestamps "locais" (sem fuso), no formato YYYY-MM-DDTHH:mm:ss,
+// do mesmo jeito que DATE + TIME ficam no banco.
+export type Interval = { start: string; end: string };
+
+// CLOSED: bloco inteiro fora do horário de funcionamento (services/schedule.ts)
+export type AvailabilityStatus = 'FREE' | 'BUSY' | 'PARTIAL' | 'CLOSED';
+
+export type Granularity = 'hour' | 'day';
+
+const TS_FORMAT = `'YYYY-MM-DD"T"HH24:MI:SS'`;
+
+// aritmética em UTC para não sofrer com horário de verão do processo
+function toMs(ts: string): number {
+  return Date.parse(`${ts}Z`);
+}
+
+function fromMs(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19);
+}
+
+/**
+ * Intervalos ocupados do espaço dentro da janela [from, to) (buffers incluídos),
+ * já recortados na janela e mesclados quando se encostam.
+ */
+export async function listBusyIntervals(
+  spaceId: string,
+  from: string,
+  to: string,
+): Promise<Interval[]> {
+  const sql = `
+    SELECT
+      to_char(${BLOCKED_START_SQL}, ${TS_FORMAT}) AS start,
+      to_char(${BLOCKED_END_SQL}, ${TS_FORMAT}) AS end
+    FROM reservations
+    WHERE space_id = $1
+      AND ${BLOCKING_STATUS_SQL}
+      AND (${overlapSql('$2::timestamp', '$3::timestamp')})
+    ORDER BY check_in_date + start_time ASC
+  `;
+  const { rows } = await pool.query<Interval>(sql, [spaceId, from, to]);
+
+  const windowStart = toMs(from);
+  const windowEnd = toMs(to);
+  const merged: { start: number; end: number }[] = [];
+
+  for (const row of rows) {
+    const start = Math.max(toMs(row.start), windowStart);
+    const end = Math.min(toMs(row.end), windowEnd);
+    const last = merged[merged.length - 1];
+
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      merged.push({ start, end });
+    }
+  }
+
+  return merged.map((i) => ({ start: fromMs(i.start), end: fromMs(i.end) }));
+}
+
+/**
+ * Só os trechos de buffer (preparação antes / limpeza depois) dentro da
+ * janela, para o calendário diferenciar do evento em si. Não são mesclados.
+ */
+export async function listBufferIntervals(
+  spaceId: string,
+  from: string,
+  to: string,
+): Promise<(Interval & { kind: 'BEFORE' | 'AFTER' })[]> {
+  const sql = `
+    SELECT kind, to_char(b_start, ${TS_FORMAT}) AS start, to_char(b_end, ${TS_FORMAT}) AS end
+    FROM (
+      SELECT 'BEFORE' AS kind, ${BLOCKED_START_SQL} AS b_start, check_in_date + start_time AS b_end
+      FROM reservations
+      WHERE space_id = $1 AND ${BLOCKING_STATUS_SQL} AND buffer_before_minutes > 0
+      UNION ALL
+      SELECT 'AFTER', check_out_date + end_time, ${BLOCKED_END_SQL}
+      FROM reservations
+      WHERE space_id = $1 AND ${BLOCKING_STATUS_SQL} AND buffer_after_minutes > 0
+    ) b
+    WHERE b_start < $3::timestamp AND $2::timestamp < b_end
+    ORDER BY b_start ASC
+  `;
+  const { rows } = await pool.query(sql, [spaceId, from, to]);
+
+  const windowStart = toMs(from);
+  const windowEnd = toMs(to);
+
+  return rows.map((row) => ({
+    kind: row.kind,
+    start: fromMs(Math.max(toMs(row.start), windowStart)),
+    end: fromMs(Math.min(toMs(row.end), windowEnd)),
+  }));
+}
+
+/**
+ * Ordena e mescla intervalos que se sobrepõem ou se encostam.
+ */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .map((i) => ({ start: toMs(i.start), end: toMs(i.end) }))
+    .filter((i) => i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged.map((i) => ({ start: fromMs(i.start), end: fromMs(i.end) }));
+}
+
+/**
+ * Complemento dos intervalos ocupados dentro da janela.
+ */
+export function freeIntervals(busy: Interval[], from: string, to: string): Interval[] {
+  const free: Interval[] = [];
+  let cursor = toMs(from);
+
+  for (const interval of busy) {
+    const start = toMs(interval.start);
+    if (start > cursor) {
+      free.push({ start: fromMs(cursor), end: interval.start });
+    }
+    cursor = Math.max(cursor, toMs(interval.end));
+  }
+
+  if (cursor < toMs(to)) {
+    free.push({ start: fromMs(cursor), end: to });
+  }
+  return free;
+}
+
+// milissegundos de [start, end) cobertos pelos intervalos (sem sobreposição entre si)
+function coveredMs(intervals: Interval[], start: number, end: number): number {
+  let covered = 0;
+  for (const interval of intervals) {
+    const overlap = Math.min(end, toMs(interval.end)) - Math.max(start, toMs(interval.start));
+    if (overlap > 0) covered += overlap;
+  }
+  return covered;
+}
+
+/**
+ * Quebra a janela em blocos (hora ou dia) e classifica cada um
+ * como FREE, BUSY (totalmente ocupado), PARTIAL ou CLOSED (todo fora do
+ * horário de funcionamento). Horário fechado conta como ocupado nos demais.
+ */
+export function bucketize(
+  busy: Interval[],
+  from: string,
+  to: string,
+  granularity: Granularity,
+  closed: Interval[] = [],
+): (Interval & { status: AvailabilityStatus })[] {
+  const step = granularity === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+  const end = toMs(to);
+  const blocked = mergeIntervals([...busy, ...closed]);
+  const buckets: (Interval & { status: AvailabilityStatus })[] = [];
+
+  for (let cursor = toMs(from); cursor < end; cursor += step) {
+    const bucketEnd = Math.min(cursor + step, end);
+    const length = bucketEnd - cursor;
+    const occupied = coveredMs(blocked, cursor, bucketEnd);
+
+    let status: AvailabilityStatus = 'FREE';
+    if (coveredMs(closed, cursor, bucketEnd) >= length) status = 'CLOSED';
+    else if (occupied >= length) status = 'BUSY';
+    else if (occupied > 0) status = 'PARTIAL';
+
+    buckets.push({ start: fromMs(cursor), end: fromMs(bucketEnd), status });
+  }
+
+  return buckets;
+}
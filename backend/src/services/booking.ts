@@ -0,0 +1,224 @@
+// src/services/booking.ts
+// Regras comuns de criação de reservas (avulsa, HOLD, série, lista de espera)
+import { PoolClient } from 'pg';
+import { v4 as uuid } from 'uuid';
+import { pool } from '../db';
+import { hasConflictingReservation, ReservationPeriod } from './availability';
+import { PriceQuote, quoteForSpace, reservationHours } from './pricing';
+import { releaseExpiredHolds } from './holds';
+import { recordStatusChange } from './reservationStatus';
+import {
+  applyCoupon,
+  Coupon,
+  COUPON_ERROR_STATUS,
+  findApplicableCoupon,
+  redeemCoupon,
+} from './coupons';
+import { ReservationItem, saveReservationItems } from './addons';
+import { checkSpaceSchedule } from './schedule';
+import { DEFAULT_DEPOSIT_PCT } from './paymentTerms';
+
+type SqlParam = string | number | boolean | null;
+
+export type ReservationSlot = {
+  check_in_date?: string;
+  check_out_date?: string;
+  start_time?: string;
+  end_time?: string;
+  adults_count?: number;
+  coupon_code?: string;
+};
+
+/**
+ * Validações compartilhadas por criação, HOLD, remarcação e séries:
+ * - datas/horários presentes e período válido, começando no futuro
+ * - espaço ativo e adults_count <= capacity
+ * - dentro do horário de funcionamento e fora de blackouts (services/schedule.ts)
+ * - sem conflito com outras reservas (excludeReservationId ignora a própria)
+ * - coupon_code (opcional) válido para o espaço, aplicado como linha COUPON
+ *
+ * evaluateSlot não responde nada (séries avaliam várias datas); ok = false
+ * traz status/error/details. checkSlot (controllers/reservation.ts) responde o
+ * erro e retorna undefined.
+ */
+export type SlotCheck = {
+  ok: boolean;
+  status?: number;
+  error?: string;
+  details?: Record<string, unknown>;
+  branch_id?: string;
+  period?: ReservationPeriod;
+  quote?: PriceQuote;
+  coupon?: Coupon;
+  total_amount?: number;
+};
+
+const slotError = (status: number, error: string, details?: Record<string, unknown>): SlotCheck => ({
+  ok: false,
+  status,
+  error,
+  details,
+});
+
+export async function evaluateSlot(
+  spaceId: string,
+  slot: ReservationSlot,
+  excludeReservationId?: string,
+): Promise<SlotCheck> {
+  const { check_in_date, check_out_date, start_time, end_time, adults_count, coupon_code } = slot;
+
+  if (!check_in_date) return slotError(400, 'invalid_check_in_date');
+  if (!check_out_date) return slotError(400, 'invalid_check_out_date');
+  if (!start_time) return slotError(400, 'invalid_start_time');
+  if (!end_time) return slotError(400, 'invalid_end_time');
+  if (adults_count == null || Number(adults_count) <= 0) {
+    return slotError(400, 'invalid_adults_count');
+  }
+  if (coupon_code != null && (typeof coupon_code !== 'string' || !coupon_code.trim())) {
+    return slotError(400, 'invalid_coupon_code');
+  }
+
+  // check-out não pode ser antes do check-in
+  if (check_out_date < check_in_date) return slotError(400, 'checkout_before_checkin');
+
+  // nem começar no passado (check_in_date + start_time no fuso do servidor)
+  const startsAt = new Date(`${check_in_date}T${start_time}`).getTime();
+  if (startsAt < Date.now()) return slotError(400, 'check_in_in_past');
+
+  // busca espaço (com capacity)
+  const spaceCheck = await pool.query(
+    'SELECT id, branch_id, capacity FROM spaces WHERE id = $1 AND active = TRUE',
+    [spaceId],
+  );
+
+  if (spaceCheck.rowCount === 0) return slotError(404, 'space_not_found_or_inactive');
+
+  const { branch_id, capacity } = spaceCheck.rows[0];
+
+  // valida capacidade (adultos não podem exceder capacity)
+  if (Number(adults_count) > Number(capacity)) {
+    return slotError(400, 'capacity_exceeded', {
+      capacity: Number(capacity),
+      adults_count: Number(adults_count),
+    });
+  }
+
+  // cálculo da duração em horas (para total_amount)
+  const period = { check_in_date, check_out_date, start_time, end_time };
+
+  if (reservationHours(period) <= 0) return slotError(400, 'invalid_time_range');
+
+  const closed = await checkSpaceSchedule(spaceId, period);
+  if (closed) return slotError(closed.status, closed.error, closed.details);
+
+  let quote = await quoteForSpace(spaceId, period, Number(adults_count));
+
+  let coupon: Coupon | undefined;
+  if (coupon_code) {
+    const found = await findApplicableCoupon(coupon_code, { branchId: branch_id, spaceId });
+    if (found.error) return slotError(COUPON_ERROR_STATUS[found.error], found.error);
+    coupon = found.coupon;
+    quote = applyCoupon(quote, coupon);
+  }
+
+  // ===== checagem de conflito de reserva para o mesmo espaço =====
+  // (regra de sobreposição compartilhada com o calendário de disponibilidade)
+  // O SELECT dá a resposta rápida; a constraint EXCLUDE do banco cobre a
+  // corrida entre duas requisições simultâneas na escrita.
+  // HOLDs vencidos ainda não varridos não devem bloquear o horário.
+  await releaseExpiredHolds(spaceId);
+
+  const conflict = await hasConflictingReservation(spaceId, period, excludeReservationId);
+  if (conflict) return slotError(409, 'conflicting_reservation');
+
+  return {
+    ok: true,
+    branch_id: branch_id as string,
+    period,
+    quote,
+    coupon,
+    total_amount: quote.total_amount,
+  };
+}
+
+/**
+ * Grava a reserva já validada dentro da transação do chamador: linha em
+ * reservations (com os buffers atuais do espaço), uso do cupom, adicionais e
+ * histórico (from = null).
+ * Retorna null se o cupom esgotou (o chamador faz ROLLBACK).
+ * Violação da EXCLUDE de período sobe como erro (ver isOverlapViolation).
+ */
+export type NewReservation = {
+  spaceId: string;
+  branchId: string;
+  customerId: string;
+  period: ReservationPeriod;
+  adultsCount: number;
+  depositPct?: number | null; // sem valor: DEFAULT_DEPOSIT_PCT
+  notes?: string | null;
+  quote: PriceQuote;
+  coupon?: Coupon;
+  items: ReservationItem[];
+  holdMinutes?: number;
+  seriesId?: string | null;
+  actorId?: string;
+};
+
+export async function insertReservation(client: PoolClient, data: NewReservation) {
+  const reservationId = uuid();
+
+  const sql = `
+    INSERT INTO reservations
+      (id, space_id, branch_id, customer_id,
+       check_in_date, check_out_date,
+       start_time, end_time,
+       adults_count,
+       status, total_amount, deposit_pct, notes,
+       hold_expires_at, price_breakdown, series_id,
+       buffer_before_minutes, buffer_after_minutes)
+    VALUES
+      ($1, $2, $3, $4,
+       $5, $6,
+       $7, $8,
+       $9,
+       $13, $10, $11, $12,
+       NOW() + make_interval(mins => $14::int), $15, $16,
+       (SELECT buffer_before_minutes FROM spaces WHERE id = $2),
+       (SELECT buffer_after_minutes FROM spaces WHERE id = $2))
+    RETURNING *;
+  `;
+
+  const params: SqlParam[] = [
+    reservationId,
+    data.spaceId,
+    data.branchId,
+    data.customerId,
+    data.period.check_in_date,
+    data.period.check_out_date,
+    data.period.start_time,
+    data.period.end_time,
+    data.adultsCount,
+    data.quote.total_amount,
+    data.depositPct ?? DEFAULT_DEPOSIT_PCT,
+    data.notes ?? null,
+    data.holdMinutes ? 'HOLD' : 'PENDING',
+    data.holdMinutes ?? null,
+    JSON.stringify(data.quote),
+    data.seriesId ?? null,
+  ];
+
+  const { rows } = await client.query(sql, params);
+
+  if (
+    data.coupon &&
+    !(await redeemCoupon(client, data.coupon.id, reservationId, data.quote.coupon.discount_amount))
+  ) {
+    return null;
+  }
+
+  await saveReservationItems(client, reservationId, data.items);
+  await recordStatusChange(client, reservationId, null, rows[0].status, {
+    actorId: data.actorId,
+  });
+  return rows[0];
+}
@@ -0,0 +1,35 @@
+// src/services/bootstrapAdmin.ts
+import { pool } from '../db';
+import { hashPassword } from './password';
+
+/**
+ * Cria o primeiro ADMIN a partir de ADMIN_EMAIL / ADMIN_PASSWORD
+ * caso ainda não exista nenhum administrador no banco.
+ * Sem essas variáveis não faz nada.
+ */
+export async function ensureAdminUser(): Promise<void> {
+  const email = process.env.ADMIN_EMAIL?.trim();
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!email || !password) {
+    return;
+  }
+
+  const existing = await pool.query(
+    "SELECT 1 FROM users WHERE role = 'ADMIN' LIMIT 1",
+  );
+  if (existing.rowCount > 0) {
+    return;
+  }
+
+  await pool.query(
+    `
+      INSERT INTO users (name, email, password_hash, role)
+      VALUES ($1, $2, $3, 'ADMIN')
+      ON CONFLICT (email) DO NOTHING
+    `,
+    ['Administrador', email.toLowerCase(), await hashPassword(password)],
+  );
+
+  console.log(`[bootstrap] usuário ADMIN criado para ${email}`);
+}
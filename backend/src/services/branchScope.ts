@@ -0,0 +1,44 @@
+// src/services/branchScope.ts
+import { Request, Response } from 'express';
+import { pool } from '../db';
+import { AuthPayload } from '../middleware/auth';
+
+/**
+ * Filiais que o usuário pode operar.
+ * - ADMIN: null (sem restrição)
+ * - MANAGER: ids em branch_managers
+ * - demais papéis: lista vazia
+ */
+export async function managedBranchIds(user?: AuthPayload): Promise<string[] | null> {
+  if (user?.role === 'ADMIN') {
+    return null;
+  }
+  if (user?.role !== 'MANAGER') {
+    return [];
+  }
+
+  const { rows } = await pool.query(
+    'SELECT branch_id FROM branch_managers WHERE user_id = $1',
+    [user.sub],
+  );
+  return rows.map((r) => r.branch_id as string);
+}
+
+/**
+ * Responde 403 e retorna false se o usuário não administra a filial.
+ * Uso: if (!(await ensureBranchAccess(req, res, branchId))) return;
+ */
+export async function ensureBranchAccess(
+  req: Request,
+  res: Response,
+  branchId: string,
+): Promise<boolean> {
+  const allowed = await managedBranchIds(req.user);
+
+  if (allowed === null || allowed.includes(branchId)) {
+    return true;
+  }
+
+  res.status(403).json({ error: 'branch_not_managed' });
+  return false;
+}
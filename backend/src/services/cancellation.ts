@@ -0,0 +1,332 @@
+// src/services/cancellation.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import { notifyCustomer } from './notifications';
+import { publishReservationEvent } from './outboundWebhooks';
+import { applyChargeStatus, refundInTransaction, RefundResult, submitProviderRefund } from './paymentCharges';
+import { getPaymentProvider } from './paymentProvider';
+import { applyTransition, TransitionMeta, TransitionResult } from './reservationStatus';
+import { promoteWaitlist } from './waitlist';
+
+/**
+ * Política de cancelamento: faixas por antecedência (dias antes do check-in).
+ * Vale a faixa de maior min_days_before que a antecedência atual atinge;
+ * abaixo de todas as faixas nada é reembolsado.
+ *
+ * refund_pct incide sobre o valor pago (líquido de reembolsos anteriores);
+ * com refund_deposit = false os pagamentos DEPOSIT ficam de fora (sinal retido).
+ */
+export type PolicyTier = {
+  min_days_before: number;
+  refund_pct: number;
+  refund_deposit: boolean;
+};
+
+export type CancellationPolicy = {
+  id: string;
+  name: string;
+  branch_id: string | null;
+  space_id: string | null;
+  tiers: PolicyTier[];
+};
+
+// refund_status / refund_id / failure_reason só vêm no cancelamento (não na prévia)
+export type RefundLine = {
+  payment_id: string;
+  purpose: string;
+  paid: number;
+  refund: number;
+  refund_status?: 'COMPLETED' | 'PENDING' | 'FAILED';
+  refund_id?: string | null;
+  failure_reason?: string | null;
+};
+
+export type RefundBreakdown = {
+  policy: { id: string; name: string; scope: 'SPACE' | 'BRANCH' } | null;
+  days_before_check_in: number;
+  tier: PolicyTier | null;
+  paid_total: number;
+  refundable_base: number;
+  refund_total: number;
+  retained_total: number;
+  lines: RefundLine[];
+};
+
+// sem política cadastrada: reembolso integral
+const DEFAULT_TIER: PolicyTier = { min_days_before: 0, refund_pct: 100, refund_deposit: true };
+
+const toCents = (value: number) => Math.round(Number(value) * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Política do espaço, senão a da filial, senão null.
+ */
+export async function resolvePolicy(
+  client: PoolClient,
+  spaceId: string,
+  branchId: string,
+): Promise<CancellationPolicy | null> {
+  const { rows } = await client.query(
+    `
+      SELECT id, name, branch_id, space_id
+      FROM cancellation_policies
+      WHERE space_id = $1 OR branch_id = $2
+      ORDER BY (space_id IS NOT NULL) DESC
+      LIMIT 1
+    `,
+    [spaceId, branchId],
+  );
+  if (!rows[0]) return null;
+
+  const tiers = await client.query(
+    `
+      SELECT min_days_before, refund_pct::float8 AS refund_pct, refund_deposit
+      FROM cancellation_policy_tiers
+      WHERE policy_id = $1
+      ORDER BY min_days_before DESC
+    `,
+    [rows[0].id],
+  );
+
+  return { ...rows[0], tiers: tiers.rows };
+}
+
+export function pickTier(policy: CancellationPolicy | null, daysBefore: number): PolicyTier | null {
+  if (!policy) return DEFAULT_TIER;
+  return policy.tiers.find((t) => daysBefore >= t.min_days_before) ?? null;
+}
+
+/**
+ * Calcula quanto devolver se a reserva for cancelada agora.
+ * Não grava nada; usado tanto na prévia quanto no cancelamento.
+ */
+export async function computeRefund(
+  client: PoolClient,
+  reservationId: string,
+): Promise<RefundBreakdown | null> {
+  const reservation = await client.query(
+    `
+      SELECT
+        space_id,
+        branch_id,
+        FLOOR(EXTRACT(EPOCH FROM ((check_in_date + start_time) - NOW())) / 86400)::int AS days_before
+      FROM reservations
+      WHERE id = $1
+    `,
+    [reservationId],
+  );
+  if (!reservation.rows[0]) return null;
+
+  const { space_id, branch_id, days_before } = reservation.rows[0];
+  const policy = await resolvePolicy(client, space_id, branch_id);
+  const tier = pickTier(policy, days_before);
+
+  // valor pago líquido por pagamento (descontando reembolsos já feitos);
+  // BALANCE primeiro, assim o sinal é o último a ser devolvido
+  const payments = await client.query(
+    `
+      SELECT
+        p.id,
+        p.purpose,
+        (p.amount - COALESCE((
+          SELECT SUM(rf.amount) FROM refunds rf
+          WHERE rf.payment_id = p.id AND rf.status <> 'FAILED'
+        ), 0))::float8 AS net_paid
+      FROM payments p
+      WHERE p.reservation_id = $1
+        AND p.status = 'PAID'
+      ORDER BY (p.purpose = 'DEPOSIT') ASC, p.paid_at DESC NULLS LAST
+    `,
+    [reservationId],
+  );
+
+  const paid = payments.rows.filter((p) => toCents(p.net_paid) > 0);
+  const eligible = paid.filter((p) => tier && (tier.refund_deposit || p.purpose !== 'DEPOSIT'));
+
+  const paidCents = paid.reduce((sum, p) => sum + toCents(p.net_paid), 0);
+  const baseCents = eligible.reduce((sum, p) => sum + toCents(p.net_paid), 0);
+  let remainingCents = tier ? Math.round((baseCents * Number(tier.refund_pct)) / 100) : 0;
+  const refundCents = remainingCents;
+
+  const lines: RefundLine[] = paid.map((p) => {
+    const isEligible = eligible.includes(p);
+    const cents = isEligible ? Math.min(toCents(p.net_paid), remainingCents) : 0;
+    remainingCents -= cents;
+    return {
+      payment_id: p.id,
+      purpose: p.purpose,
+      paid: fromCents(toCents(p.net_paid)),
+      refund: fromCents(cents),
+    };
+  });
+
+  return {
+    policy: policy
+      ? { id: policy.id, name: policy.name, scope: policy.space_id ? 'SPACE' : 'BRANCH' }
+      : null,
+    days_before_check_in: days_before,
+    tier,
+    paid_total: fromCents(paidCents),
+    refundable_base: fromCents(baseCents),
+    refund_total: fromCents(refundCents),
+    retained_total: fromCents(paidCents - refundCents),
+    lines,
+  };
+}
+
+/**
+ * Cancela a reserva aplicando a política: transição para CANCELLED,
+ * reembolsos via refundInTransaction, pagamentos totalmente devolvidos viram
+ * REFUNDED e pagamentos ainda PENDING são cancelados. Tudo numa transação;
+ * depois do COMMIT os reembolsos do provedor são enviados a ele
+ * (submitProviderRefund) e as cobranças PENDING canceladas nele também
+ * (cancelProviderCharges).
+ */
+export async function cancelReservationWithRefund(
+  reservationId: string,
+  meta: TransitionMeta = {},
+): Promise<{ result: TransitionResult; breakdown: RefundBreakdown | null }> {
+  const { pendingCharges, providerRefunds, ...outcome } = await cancelInTransaction(reservationId, meta);
+
+  // falha do provedor deixa o reembolso PENDING; o job de reenvio tenta de novo
+  for (const line of providerRefunds) {
+    const submitted = await submitProviderRefund(line.refund_id, meta.actorId).catch((err) => {
+      console.error(`[payments] falha ao enviar o reembolso ${line.refund_id}`, err);
+      return null;
+    });
+    if (submitted) setRefundLine(line, submitted);
+  }
+  await cancelProviderCharges(pendingCharges, meta.actorId);
+
+  // o horário liberado vai para a lista de espera; falha aqui não desfaz o
+  // cancelamento (o sweeper da lista tenta de novo)
+  if (outcome.result.ok) {
+    await promoteWaitlist(outcome.result.reservation.space_id).catch((err) =>
+      console.error('[waitlist] falha ao promover a lista de espera', err),
+    );
+  }
+  return outcome;
+}
+
+type PendingCharge = { id: string; provider: string; external_ref: string };
+
+// status do reembolso na linha do detalhamento (payment_provider_error: segue PENDING)
+function setRefundLine(line: RefundLine, refunded: RefundResult) {
+  const refund = refunded.refund ?? refunded.details?.refund;
+  if (!refund) return;
+  line.refund_status = refund.status;
+  line.refund_id = refund.id;
+  line.failure_reason = refund.failure_reason;
+}
+
+/**
+ * Sem isso o cliente ainda conseguiria pagar a cobrança aberta de uma reserva
+ * cancelada. O retorno do provedor passa por applyChargeStatus: se ele já
+ * tinha capturado, o pagamento vira PAID e é reembolsado (captura tardia).
+ * Falha só vai para o log; o webhook PAID que chegar depois cai no mesmo caso.
+ */
+async function cancelProviderCharges(charges: PendingCharge[], actorId?: string) {
+  for (const pending of charges) {
+    try {
+      const provider = getPaymentProvider(pending.provider);
+      if (!provider) throw new Error(`provedor ${pending.provider} indisponível`);
+      const charge = await provider.cancelCharge(pending.external_ref);
+      if (charge) await applyChargeStatus(pending.id, charge, actorId);
+    } catch (err) {
+      console.error(`[payments] falha ao cancelar a cobrança do pagamento ${pending.id}`, err);
+    }
+  }
+}
+
+async function cancelInTransaction(
+  reservationId: string,
+  meta: TransitionMeta,
+): Promise<{
+  result: TransitionResult;
+  breakdown: RefundBreakdown | null;
+  pendingCharges: PendingCharge[];
+  providerRefunds: RefundLine[];
+}> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await applyTransition(client, reservationId, 'CANCELLED', meta);
+    if (!result.ok) {
+      await client.query('ROLLBACK');
+      return { result, breakdown: null, pendingCharges: [], providerRefunds: [] };
+    }
+
+    const breakdown = await computeRefund(client, reservationId);
+
+    // cada linha passa pelo mesmo caminho do reembolso avulso: pagamento do
+    // provedor fica PENDING até a resposta dele (enviado depois do COMMIT);
+    // provedor indisponível vira um reembolso FAILED e o pagamento continua
+    // PAID para a equipe refazer
+    const providerRefunds: RefundLine[] = [];
+    for (const line of breakdown.lines) {
+      if (line.refund <= 0) continue;
+
+      const refunded = await refundInTransaction(
+        client,
+        line.payment_id,
+        { amount: line.refund, reason: 'cancellation' },
+        meta.actorId,
+      );
+
+      if (refunded.ok) {
+        setRefundLine(line, refunded);
+        if (refunded.awaitingProvider) providerRefunds.push(line);
+        continue;
+      }
+
+      if (refunded.error !== 'payment_provider_unavailable') {
+        throw new Error(`reembolso do pagamento ${line.payment_id} recusado: ${refunded.error}`);
+      }
+
+      const failed = await client.query(
+        `
+          INSERT INTO refunds (payment_id, reservation_id, amount, status, reason, failure_reason, created_by)
+          VALUES ($1, $2, $3, 'FAILED', 'cancellation', $4, $5)
+          RETURNING id
+        `,
+        [line.payment_id, reservationId, line.refund, refunded.error, meta.actorId ?? null],
+      );
+      line.refund_status = 'FAILED';
+      line.refund_id = failed.rows[0].id;
+      line.failure_reason = refunded.error;
+    }
+
+    const cancelled = await client.query(
+      `
+        UPDATE payments SET status = 'CANCELLED'
+        WHERE reservation_id = $1 AND status = 'PENDING'
+        RETURNING id, provider, external_ref
+      `,
+      [reservationId],
+    );
+    const pendingCharges: PendingCharge[] = cancelled.rows.filter(
+      (row) => row.provider && row.external_ref,
+    );
+
+    // HOLD cancelado (oferta recusada, desistência no checkout) não avisa
+    if (result.from !== 'HOLD') {
+      await notifyCustomer(client, 'reservation.cancelled', reservationId, {
+        reason: meta.reason,
+        refund_total: breakdown.refund_total,
+      });
+      await publishReservationEvent(client, 'reservation.cancelled', reservationId, {
+        reason: meta.reason ?? null,
+        refund_total: breakdown.refund_total,
+      });
+    }
+
+    await client.query('COMMIT');
+    return { result, breakdown, pendingCharges, providerRefunds };
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
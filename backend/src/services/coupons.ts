@@ -0,0 +1,197 @@
+// src/services/coupons.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import { PriceQuote } from './pricing';
+
+/**
+ * Cupons de desconto.
+ *
+ * - PERCENT: discount_value % sobre o total do orçamento
+ * - FIXED: discount_value em reais, limitado ao total
+ * - valid_from / valid_until (opcionais) delimitam quando o cupom pode ser usado
+ * - max_redemptions (opcional) conta só reservas que não foram canceladas,
+ *   então HOLD vencido ou cancelamento devolvem o uso
+ * - coupon_targets restringe a filiais e/ou espaços; sem alvos vale em todos
+ */
+export type DiscountType = 'PERCENT' | 'FIXED';
+
+export const DISCOUNT_TYPES: DiscountType[] = ['PERCENT', 'FIXED'];
+
+export type Coupon = {
+  id: string;
+  code: string;
+  discount_type: DiscountType;
+  discount_value: number;
+};
+
+export type CouponError =
+  | 'coupon_not_found'
+  | 'coupon_inactive'
+  | 'coupon_not_yet_valid'
+  | 'coupon_expired'
+  | 'coupon_not_applicable'
+  | 'coupon_exhausted';
+
+export const COUPON_ERROR_STATUS: Record<CouponError, number> = {
+  coupon_not_found: 404,
+  coupon_inactive: 400,
+  coupon_not_yet_valid: 400,
+  coupon_expired: 400,
+  coupon_not_applicable: 400,
+  coupon_exhausted: 409,
+};
+
+// usos que ainda contam para max_redemptions
+export const ACTIVE_REDEMPTIONS_SQL = `
+  SELECT COUNT(*)::int
+  FROM coupon_redemptions cr
+  JOIN reservations r ON r.id = cr.reservation_id
+  WHERE cr.coupon_id = c.id
+    AND r.status <> 'CANCELLED'
+`;
+
+const toCents = (value: number) => Math.round(Number(value) * 100);
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Procura o cupom pelo código e verifica se vale agora para o espaço.
+ * A contagem de usos aqui é só informativa; a garantia está em redeemCoupon.
+ */
+export async function findApplicableCoupon(
+  code: string,
+  scope: { branchId: string; spaceId: string },
+): Promise<{ coupon?: Coupon; error?: CouponError }> {
+  const { rows } = await pool.query(
+    `
+      SELECT
+        c.id,
+        c.code,
+        c.discount_type,
+        c.discount_value::float8 AS discount_value,
+        c.active,
+        c.max_redemptions,
+        (c.valid_from IS NOT NULL AND c.valid_from > NOW())   AS not_started,
+        (c.valid_until IS NOT NULL AND c.valid_until < NOW()) AS expired,
+        (
+          NOT EXISTS (SELECT 1 FROM coupon_targets t WHERE t.coupon_id = c.id)
+          OR EXISTS (
+            SELECT 1 FROM coupon_targets t
+            WHERE t.coupon_id = c.id
+              AND (t.branch_id = $2 OR t.space_id = $3)
+          )
+        ) AS applicable,
+        (${ACTIVE_REDEMPTIONS_SQL}) AS redemptions_count
+      FROM coupons c
+      WHERE c.code = $1
+    `,
+    [normalizeCouponCode(code), scope.branchId, scope.spaceId],
+  );
+
+  const row = rows[0];
+  if (!row) return { error: 'coupon_not_found' };
+  if (!row.active) return { error: 'coupon_inactive' };
+  if (row.not_started) return { error: 'coupon_not_yet_valid' };
+  if (row.expired) return { error: 'coupon_expired' };
+  if (!row.applicable) return { error: 'coupon_not_applicable' };
+  if (row.max_redemptions != null && row.redemptions_count >= row.max_redemptions) {
+    return { error: 'coupon_exhausted' };
+  }
+
+  return {
+    coupon: {
+      id: row.id,
+      code: row.code,
+      discount_type: row.discount_type,
+      discount_value: row.discount_value,
+    },
+  };
+}
+
+/**
+ * Cupom já resgatado pela reserva (a remarcação reaplica o mesmo desconto).
+ */
+export async function findRedeemedCoupon(reservationId: string): Promise<Coupon | null> {
+  const { rows } = await pool.query(
+    `
+      SELECT c.id, c.code, c.discount_type, c.discount_value::float8 AS discount_value
+      FROM coupon_redemptions cr
+      JOIN coupons c ON c.id = cr.coupon_id
+      WHERE cr.reservation_id = $1
+    `,
+    [reservationId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Acrescenta a linha COUPON (valor negativo) ao orçamento e recalcula o total.
+ */
+export function applyCoupon(quote: PriceQuote, coupon: Coupon): PriceQuote {
+  const subtotalCents = toCents(quote.total_amount);
+  const discountCents =
+    coupon.discount_type === 'PERCENT'
+      ? Math.round((subtotalCents * Math.min(coupon.discount_value, 100)) / 100)
+      : Math.min(toCents(coupon.discount_value), subtotalCents);
+  const discount = discountCents / 100;
+
+  return {
+    ...quote,
+    lines: [
+      ...quote.lines,
+      {
+        code: 'COUPON',
+        description:
+          coupon.discount_type === 'PERCENT'
+            ? `Cupom ${coupon.code} (-${coupon.discount_value}%)`
+            : `Cupom ${coupon.code}`,
+        quantity: 1,
+        unit_price: -discount,
+        amount: -discount,
+      },
+    ],
+    subtotal_amount: quote.total_amount,
+    coupon: { id: coupon.id, code: coupon.code, discount_amount: discount },
+    total_amount: (subtotalCents - discountCents) / 100,
+  };
+}
+
+/**
+ * Registra o uso do cupom dentro da transação da reserva.
+ *
+ * O FOR UPDATE na linha do cupom serializa resgates concorrentes: quem chega
+ * depois espera o commit do outro e, como cada comando em READ COMMITTED vê os
+ * dados já confirmados, a contagem seguinte já inclui o uso anterior.
+ * Retorna false se o limite foi atingido (o chamador faz ROLLBACK).
+ */
+export async function redeemCoupon(
+  client: PoolClient,
+  couponId: string,
+  reservationId: string,
+  discountAmount: number,
+): Promise<boolean> {
+  const { rows } = await client.query(
+    'SELECT max_redemptions FROM coupons c WHERE c.id = $1 FOR UPDATE',
+    [couponId],
+  );
+  if (!rows[0]) return false;
+
+  if (rows[0].max_redemptions != null) {
+    const used = await client.query(
+      `SELECT (${ACTIVE_REDEMPTIONS_SQL}) AS count FROM coupons c WHERE c.id = $1`,
+      [couponId],
+    );
+    if (used.rows[0].count >= rows[0].max_redemptions) return false;
+  }
+
+  await client.query(
+    `
+      INSERT INTO coupon_redemptions (coupon_id, reservation_id, discount_amount)
+      VALUES ($1, $2, $3)
+    `,
+    [couponId, reservationId, discountAmount],
+  );
+  return true;
+}
@@ -0,0 +1,146 @@
+// src/services/dunning.ts
+import { pool } from '../db';
+import { notifyCustomer } from './notifications';
+import { netPaidSql } from './paymentTerms';
+
+/**
+ * Cobrança do saldo conforme o check-in se aproxima.
+ *
+ * Para cada reserva em aberto com saldo devido, o estágio é a menor
+ * antecedência de DUNNING_OFFSETS_DAYS (ex.: 14, 7, 2) que já foi alcançada.
+ * Cada estágio gera um lembrete (payment_reminders, um por estágio); estágios
+ * pulados (reserva feita em cima da hora) não são enviados. Depois do último
+ * lembrete, com saldo ainda devido, a reserva fica em risco (at_risk_since),
+ * até ser quitada (recomputeReservationStatus limpa o sinalizador).
+ */
+function parseOffsets(value: string | undefined): number[] {
+  const offsets = (value ?? '')
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((n) => Number.isInteger(n) && n >= 0);
+  const unique = [...new Set(offsets.length ? offsets : [14, 7, 2])];
+  return unique.sort((a, b) => b - a);
+}
+
+// antecedências (dias antes do check-in), da maior para a menor
+export const DUNNING_OFFSETS_DAYS = parseOffsets(process.env.DUNNING_OFFSETS_DAYS);
+
+// intervalo entre execuções do job (segundos)
+const DUNNING_SWEEP_INTERVAL_SECONDS = Number(process.env.DUNNING_SWEEP_INTERVAL_SECONDS) || 3600;
+
+// reservas que ainda podem receber pagamento
+export const RECEIVABLE_STATUSES = ['PENDING', 'CONFIRMED', 'CHECKED_IN'];
+
+type DunningCandidate = {
+  id: string;
+  check_in_date: string;
+  days_left: number;
+  amount_due: number;
+  last_offset: number | null;
+};
+
+/**
+ * Enfileira os lembretes devidos (outbox de avisos, na mesma transação do
+ * registro em payment_reminders) e sinaliza as reservas em risco.
+ * Retorna quantos lembretes foram gerados.
+ */
+export async function sendDunningReminders(): Promise<number> {
+  if (DUNNING_OFFSETS_DAYS.length === 0) return 0;
+
+  const { rows } = await pool.query<DunningCandidate>(
+    `
+      SELECT *
+      FROM (
+        SELECT
+          r.id,
+          to_char(r.check_in_date, 'YYYY-MM-DD') AS check_in_date,
+          (r.check_in_date - CURRENT_DATE) AS days_left,
+          (r.total_amount - (${netPaidSql()}))::float8 AS amount_due,
+          (
+            SELECT MIN(pr.offset_days) FROM payment_reminders pr
+            WHERE pr.reservation_id = r.id
+          ) AS last_offset
+        FROM reservations r
+        WHERE r.status = ANY($1::text[])
+          AND r.check_in_date >= CURRENT_DATE
+          AND r.check_in_date - CURRENT_DATE <= $2::int
+      ) t
+      WHERE t.amount_due > 0.004
+    `,
+    [RECEIVABLE_STATUSES, DUNNING_OFFSETS_DAYS[0]],
+  );
+
+  const finalOffset = DUNNING_OFFSETS_DAYS[DUNNING_OFFSETS_DAYS.length - 1];
+  let sent = 0;
+
+  for (const candidate of rows) {
+    // menor antecedência já alcançada
+    const stage = DUNNING_OFFSETS_DAYS.filter((offset) => candidate.days_left <= offset).pop();
+    if (stage === undefined) continue;
+    if (candidate.last_offset !== null && candidate.last_offset <= stage) continue;
+
+    const client = await pool.connect();
+    let recorded = false;
+    try {
+      await client.query('BEGIN');
+
+      const inserted = await client.query(
+        `
+          INSERT INTO payment_reminders (reservation_id, offset_days, amount_due)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (reservation_id, offset_days) DO NOTHING
+          RETURNING id
+        `,
+        [candidate.id, stage, Math.round(candidate.amount_due * 100) / 100],
+      );
+      recorded = Boolean(inserted.rows[0]);
+
+      if (recorded) {
+        await notifyCustomer(client, 'payment.reminder', candidate.id, {
+          amount: Math.round(candidate.amount_due * 100) / 100,
+          days_left: candidate.days_left,
+          final: stage === finalOffset,
+        });
+      }
+
+      if (recorded && stage === finalOffset) {
+        await client.query(
+          `
+            UPDATE reservations
+            SET at_risk_since = NOW()
+            WHERE id = $1 AND at_risk_since IS NULL
+          `,
+          [candidate.id],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    if (recorded) sent += 1;
+  }
+
+  return sent;
+}
+
+/**
+ * Job em background que envia os lembretes de saldo periodicamente.
+ */
+export function startDunningSweeper() {
+  const timer = setInterval(() => {
+    sendDunningReminders()
+      .then((sent) => {
+        if (sent > 0) console.log(`[dunning] ${sent} lembrete(s) de saldo gerado(s)`);
+      })
+      .catch((err) => console.error('[dunning] falha ao gerar lembretes de saldo', err));
+  }, DUNNING_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,27 @@
+// src/services/emailAddress.ts
+
+/**
+ * Validação de e-mail compartilhada por cadastro, perfil e avisos.
+ *
+ * Propositalmente simples (local@domínio.tld), mas sem espaços nem
+ * caracteres de controle: o endereço vai para cabeçalhos e comandos SMTP,
+ * onde um CR/LF permitiria injetar cabeçalhos ou comandos.
+ */
+export const MAX_EMAIL_LENGTH = 254;
+
+const EMAIL_RE = /^[^\s@<>()[\]\\,;:"]+@[^\s@<>()[\]\\,;:"]+\.[^\s@<>()[\]\\,;:".]+$/;
+const CONTROL_RE = /[\x00-\x1f\x7f]/;
+
+export function isValidEmail(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length <= MAX_EMAIL_LENGTH &&
+    !CONTROL_RE.test(value) &&
+    EMAIL_RE.test(value)
+  );
+}
+
+// forma gravada no banco (comparações de unicidade usam o mesmo formato)
+export function normalizeEmail(value: string): string {
+  return value.trim().toLowerCase();
+}
@@ -0,0 +1,61 @@
+// src/services/holds.ts
+import { pool } from '../db';
+
+// duração padrão e máxima de um HOLD (minutos)
+export const HOLD_DEFAULT_MINUTES = Number(process.env.HOLD_DEFAULT_MINUTES) || 15;
+export const HOLD_MAX_MINUTES = Number(process.env.HOLD_MAX_MINUTES) || 120;
+
+// intervalo entre execuções do sweeper (segundos)
+const HOLD_SWEEP_INTERVAL_SECONDS = Number(process.env.HOLD_SWEEP_INTERVAL_SECONDS) || 60;
+
+/**
+ * Cancela os HOLDs vencidos, liberando o horário.
+ * Com spaceId, limita a um espaço (usado antes de checar conflito na reserva).
+ * Retorna quantos HOLDs foram liberados.
+ */
+export async function releaseExpiredHolds(spaceId?: string): Promise<number> {
+  const params: string[] = [];
+  let spaceFilter = '';
+
+  if (spaceId) {
+    spaceFilter = 'AND space_id = $1';
+    params.push(spaceId);
+  }
+
+  // libera e registra no histórico no mesmo comando (ator = sistema)
+  const sql = `
+    WITH released AS (
+      UPDATE reservations
+      SET status = 'CANCELLED',
+          hold_expires_at = NULL,
+          updated_at = NOW()
+      WHERE status = 'HOLD'
+        AND hold_expires_at <= NOW()
+        ${spaceFilter}
+      RETURNING id
+    )
+    INSERT INTO reservation_status_history (reservation_id, from_status, to_status, reason)
+    SELECT id, 'HOLD', 'CANCELLED', 'hold_expired'
+    FROM released
+  `;
+
+  const { rowCount } = await pool.query(sql, params);
+  return rowCount ?? 0;
+}
+
+/**
+ * Job em background que libera HOLDs vencidos periodicamente.
+ */
+export function startHoldSweeper() {
+  const timer = setInterval(() => {
+    releaseExpiredHolds()
+      .then((released) => {
+        if (released > 0) console.log(`[holds] ${released} hold(s) expirado(s) liberado(s)`);
+      })
+      .catch((err) => console.error('[holds] falha ao liberar holds expirados', err));
+  }, HOLD_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,38 @@
+// src/services/logNotificationChannel.ts
+import { appendFile } from 'fs/promises';
+import type { NotificationChannel, OutgoingMessage } from './notificationChannel';
+
+/**
+ * Canal de desenvolvimento: nada sai da máquina. O aviso vai para o console
+ * e, com NOTIFICATION_LOG_FILE, é acrescentado ao arquivo.
+ */
+const LOG_FILE = process.env.NOTIFICATION_LOG_FILE || '';
+
+async function logMessage(message: OutgoingMessage) {
+  const header =
+    `[notifications] ${message.kind} para ${message.recipient}` +
+    (message.subject ? ` - ${message.subject}` : '');
+  console.log(`${header}\n${message.body}`);
+
+  if (LOG_FILE) {
+    const entry = {
+      at: new Date().toISOString(),
+      id: message.id,
+      kind: message.kind,
+      recipient: message.recipient,
+      subject: message.subject,
+      body: message.body,
+    };
+    await appendFile(LOG_FILE, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+}
+
+export const logEmailChannel: NotificationChannel = {
+  name: 'log',
+  send: logMessage,
+};
+
+export const logSmsChannel: NotificationChannel = {
+  name: 'log',
+  send: logMessage,
+};
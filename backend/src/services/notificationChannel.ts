@@ -0,0 +1,48 @@
+// src/services/notificationChannel.ts
+import { logEmailChannel, logSmsChannel } from './logNotificationChannel';
+import { smsGatewayChannel } from './smsGatewayNotificationChannel';
+import { smtpChannel } from './smtpNotificationChannel';
+
+/**
+ * Contrato com os canais de envio dos avisos.
+ *
+ * - EMAIL: smtp (SMTP_*) ou log
+ * - SMS: http (gateway genérico, SMS_GATEWAY_*) ou log
+ *
+ * O canal log escreve no console e, com NOTIFICATION_LOG_FILE, também no
+ * arquivo (desenvolvimento). "none" desliga o tipo: nada é enfileirado.
+ * send lança erro quando o envio falha; o dispatcher tenta de novo.
+ */
+export type NotificationKind = 'EMAIL' | 'SMS';
+
+export type OutgoingMessage = {
+  id: string;
+  kind: NotificationKind;
+  recipient: string;
+  subject: string | null;
+  body: string;
+};
+
+export interface NotificationChannel {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export const NOTIFICATION_EMAIL_CHANNEL = process.env.NOTIFICATION_EMAIL_CHANNEL || 'log';
+export const NOTIFICATION_SMS_CHANNEL = process.env.NOTIFICATION_SMS_CHANNEL || 'log';
+
+const CHANNELS: Record<NotificationKind, Record<string, NotificationChannel>> = {
+  EMAIL: {
+    [smtpChannel.name]: smtpChannel,
+    [logEmailChannel.name]: logEmailChannel,
+  },
+  SMS: {
+    [smsGatewayChannel.name]: smsGatewayChannel,
+    [logSmsChannel.name]: logSmsChannel,
+  },
+};
+
+export function getNotificationChannel(kind: NotificationKind): NotificationChannel | undefined {
+  const name = kind === 'EMAIL' ? NOTIFICATION_EMAIL_CHANNEL : NOTIFICATION_SMS_CHANNEL;
+  return CHANNELS[kind][name];
+}
@@ -0,0 +1,207 @@
+// src/services/notificationTemplates.ts
+
+/**
+ * Textos dos avisos ao cliente, um modelo por evento.
+ * E-mail tem assunto e corpo; o SMS é uma linha curta.
+ */
+export type NotificationEvent =
+  | 'reservation.created'
+  | 'reservation.confirmed'
+  | 'reservation.rescheduled'
+  | 'reservation.cancelled'
+  | 'payment.paid'
+  | 'payment.refunded'
+  | 'payment.reminder'
+  | 'waitlist.offered';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'reservation.created',
+  'reservation.confirmed',
+  'reservation.rescheduled',
+  'reservation.cancelled',
+  'payment.paid',
+  'payment.refunded',
+  'payment.reminder',
+  'waitlist.offered',
+];
+
+// fuso usado para mostrar prazos (ex.: validade da oferta da lista de espera)
+const NOTIFICATION_TIMEZONE = process.env.NOTIFICATION_TIMEZONE || 'America/Sao_Paulo';
+
+// campos próprios de cada evento
+export type NotificationFields = {
+  amount?: number;
+  reason?: string | null;
+  refund_total?: number;
+  previous_check_in_date?: string;
+  previous_start_time?: string;
+  hold_expires_at?: string | Date;
+  days_left?: number;
+  final?: boolean;
+};
+
+// dados da reserva + campos do evento
+export type NotificationContext = NotificationFields & {
+  reservation_id: string;
+  customer_name: string;
+  space_name: string;
+  branch_name: string;
+  check_in_date: string;
+  check_out_date: string;
+  start_time: string;
+  end_time: string;
+  total_amount: number;
+  balance_due: number;
+};
+
+export type RenderedNotification = {
+  subject: string;
+  email: string;
+  sms: string;
+};
+
+function formatDate(date: string): string {
+  return date ? date.split('-').reverse().join('/') : '-';
+}
+
+function formatMoney(value: number | undefined): string {
+  return `R$ ${(value ?? 0).toLocaleString('pt-BR', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatDateTime(value: string | Date | undefined): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('pt-BR', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+    timeZone: NOTIFICATION_TIMEZONE,
+  });
+}
+
+function period(ctx: NotificationContext): string {
+  const days =
+    ctx.check_out_date && ctx.check_out_date !== ctx.check_in_date
+      ? `de ${formatDate(ctx.check_in_date)} ${ctx.start_time} a ${formatDate(ctx.check_out_date)} ${ctx.end_time}`
+      : `em ${formatDate(ctx.check_in_date)}, das ${ctx.start_time} às ${ctx.end_time}`;
+  return `${ctx.space_name} (${ctx.branch_name}) ${days}`;
+}
+
+// motivos gravados pelo sistema -> texto para o cliente (texto livre passa direto)
+const CANCELLATION_REASONS: Record<string, string> = {
+  deposit_not_paid: 'o sinal não foi pago no prazo',
+  cancelled_by_customer: 'cancelamento feito por você',
+  series_cancelled: 'a série de reservas foi cancelada',
+};
+
+function describeReason(reason: string): string {
+  return CANCELLATION_REASONS[reason] ?? reason;
+}
+
+function email(ctx: NotificationContext, ...paragraphs: string[]): string {
+  return [
+    `Olá, ${ctx.customer_name}!`,
+    ...paragraphs,
+    `Código da reserva: ${ctx.reservation_id}`,
+    'Equipe Seu Cantinho',
+  ].join('\n\n');
+}
+
+const TEMPLATES: Record<NotificationEvent, (ctx: NotificationContext) => RenderedNotification> = {
+  'reservation.created': (ctx) => ({
+    subject: 'Recebemos sua reserva',
+    email: email(
+      ctx,
+      `Recebemos sua reserva: ${period(ctx)}.`,
+      `Valor total: ${formatMoney(ctx.total_amount)}. A reserva é confirmada quando o pagamento for concluído.`,
+    ),
+    sms: `Seu Cantinho: recebemos sua reserva de ${ctx.space_name} em ${formatDate(ctx.check_in_date)} ${ctx.start_time}. Total ${formatMoney(ctx.total_amount)}.`,
+  }),
+
+  'reservation.confirmed': (ctx) => ({
+    subject: 'Reserva confirmada',
+    email: email(ctx, `Sua reserva está confirmada: ${period(ctx)}.`, 'Até lá!'),
+    sms: `Seu Cantinho: reserva confirmada! ${ctx.space_name} em ${formatDate(ctx.check_in_date)} ${ctx.start_time}.`,
+  }),
+
+  'reservation.rescheduled': (ctx) => ({
+    subject: 'Reserva remarcada',
+    email: email(
+      ctx,
+      `Sua reserva foi remarcada para ${period(ctx)}.`,
+      ...(ctx.previous_check_in_date
+        ? [`Data anterior: ${formatDate(ctx.previous_check_in_date)} às ${ctx.previous_start_time}.`]
+        : []),
+      `Valor total atualizado: ${formatMoney(ctx.total_amount)}.`,
+    ),
+    sms: `Seu Cantinho: sua reserva foi remarcada para ${formatDate(ctx.check_in_date)} ${ctx.start_time} (${ctx.space_name}).`,
+  }),
+
+  'reservation.cancelled': (ctx) => ({
+    subject: 'Reserva cancelada',
+    email: email(
+      ctx,
+      `Sua reserva foi cancelada: ${period(ctx)}.`,
+      ...(ctx.reason ? [`Motivo: ${describeReason(ctx.reason)}.`] : []),
+      ctx.refund_total && ctx.refund_total > 0
+        ? `Reembolso de ${formatMoney(ctx.refund_total)} conforme a política de cancelamento.`
+        : 'Não há valor a reembolsar.',
+    ),
+    sms:
+      `Seu Cantinho: sua reserva de ${formatDate(ctx.check_in_date)} ${ctx.start_time} foi cancelada.` +
+      (ctx.refund_total && ctx.refund_total > 0 ? ` Reembolso: ${formatMoney(ctx.refund_total)}.` : ''),
+  }),
+
+  'payment.paid': (ctx) => ({
+    subject: 'Pagamento recebido',
+    email: email(
+      ctx,
+      `Recebemos seu pagamento de ${formatMoney(ctx.amount)} referente a ${period(ctx)}.`,
+      ctx.balance_due > 0.004
+        ? `Saldo restante: ${formatMoney(ctx.balance_due)}.`
+        : 'A reserva está quitada.',
+    ),
+    sms: `Seu Cantinho: pagamento de ${formatMoney(ctx.amount)} recebido. Saldo: ${formatMoney(Math.max(ctx.balance_due, 0))}.`,
+  }),
+
+  'payment.refunded': (ctx) => ({
+    subject: 'Reembolso registrado',
+    email: email(
+      ctx,
+      `Registramos um reembolso de ${formatMoney(ctx.amount)} referente a ${period(ctx)}.`,
+      'O prazo para o valor aparecer depende do meio de pagamento.',
+    ),
+    sms: `Seu Cantinho: reembolso de ${formatMoney(ctx.amount)} registrado para sua reserva de ${formatDate(ctx.check_in_date)}.`,
+  }),
+
+  'payment.reminder': (ctx) => ({
+    subject: ctx.final ? 'Último aviso: saldo da sua reserva' : 'Lembrete: saldo da sua reserva',
+    email: email(
+      ctx,
+      `Faltam ${ctx.days_left} dia(s) para ${period(ctx)}.`,
+      `Ainda há ${formatMoney(ctx.amount)} a pagar.` +
+        (ctx.final ? ' Este é o último aviso antes do check-in.' : ''),
+    ),
+    sms:
+      `Seu Cantinho: faltam ${ctx.days_left} dia(s) para sua reserva e há ${formatMoney(ctx.amount)} a pagar.` +
+      (ctx.final ? ' Último aviso.' : ''),
+  }),
+
+  'waitlist.offered': (ctx) => ({
+    subject: 'Um horário vagou para você',
+    email: email(
+      ctx,
+      `O horário que você esperava vagou: ${period(ctx)}.`,
+      `Ele está reservado no seu nome até ${formatDateTime(ctx.hold_expires_at)}. Confirme a reserva até lá para garanti-lo.`,
+    ),
+    sms: `Seu Cantinho: vagou ${ctx.space_name} em ${formatDate(ctx.check_in_date)} ${ctx.start_time}. Confirme até ${formatDateTime(ctx.hold_expires_at)}.`,
+  }),
+};
+
+export function renderNotification(
+  event: NotificationEvent,
+  ctx: NotificationContext,
+): RenderedNotification {
+  return TEMPLATES[event](ctx);
+}
@@ -0,0 +1,279 @@
+// src/services/notifications.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import { isValidEmail } from './emailAddress';
+import { getNotificationChannel, NotificationKind } from './notificationChannel';
+import {
+  NotificationEvent,
+  NotificationFields,
+  renderNotification,
+} from './notificationTemplates';
+import { netPaidSql } from './paymentTerms';
+
+/**
+ * Avisos ao cliente (e-mail e SMS) por outbox.
+ *
+ * notifyCustomer roda dentro da transação da mudança (reserva, pagamento,
+ * lista de espera): renderiza o modelo do evento e grava uma linha em
+ * notifications por canal (e-mail se o cliente tem email, SMS se tem phone).
+ * Se a transação desfaz, o aviso some junto.
+ *
+ * O dispatcher envia as PENDING; falha conta tentativa e reagenda com espera
+ * crescente (1, 2, 4... minutos). Depois de NOTIFICATION_MAX_ATTEMPTS fica
+ * FAILED (reenviável por POST /notifications/:id/retry).
+ */
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+export const NOTIFICATION_STATUSES: NotificationStatus[] = ['PENDING', 'SENT', 'FAILED'];
+
+export const NOTIFICATION_MAX_ATTEMPTS = Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+
+// intervalo entre execuções do dispatcher (segundos)
+const NOTIFICATION_DISPATCH_INTERVAL_SECONDS =
+  Number(process.env.NOTIFICATION_DISPATCH_INTERVAL_SECONDS) || 15;
+
+// tempo que um aviso fica reservado enquanto o canal envia (segundos)
+const NOTIFICATION_LEASE_SECONDS = Number(process.env.NOTIFICATION_LEASE_SECONDS) || 120;
+
+// avisos enviados por execução do dispatcher
+const DISPATCH_BATCH = 50;
+
+export const NOTIFICATION_COLUMNS = `
+  n.id,
+  n.event_type,
+  n.channel,
+  n.recipient,
+  n.subject,
+  n.body,
+  n.customer_id,
+  n.reservation_id,
+  n.status,
+  n.attempts,
+  n.last_error,
+  n.sent_via,
+  n.next_attempt_at,
+  n.sent_at,
+  n.created_at
+`;
+
+// telefone só com dígitos (mantém o + do DDI)
+function normalizePhone(phone: string): string {
+  const trimmed = phone.trim();
+  return (trimmed.startsWith('+') ? '+' : '') + trimmed.replace(/\D/g, '');
+}
+
+/**
+ * Enfileira o aviso do evento para o cliente da reserva.
+ * Chamar com o client da transação que fez a mudança.
+ * Retorna quantos avisos foram enfileirados.
+ */
+export async function notifyCustomer(
+  client: PoolClient,
+  event: NotificationEvent,
+  reservationId: string,
+  fields: NotificationFields = {},
+): Promise<number> {
+  const { rows } = await client.query(
+    `
+      SELECT
+        r.id AS reservation_id,
+        r.customer_id,
+        c.name  AS customer_name,
+        c.email AS customer_email,
+        c.phone AS customer_phone,
+        s.name  AS space_name,
+        b.name  AS branch_name,
+        to_char(r.check_in_date, 'YYYY-MM-DD')  AS check_in_date,
+        to_char(r.check_out_date, 'YYYY-MM-DD') AS check_out_date,
+        to_char(r.start_time, 'HH24:MI') AS start_time,
+        to_char(r.end_time, 'HH24:MI')   AS end_time,
+        r.total_amount::float8 AS total_amount,
+        (r.total_amount - (${netPaidSql()}))::float8 AS balance_due
+      FROM reservations r
+      JOIN customers c ON c.id = r.customer_id
+      JOIN spaces    s ON s.id = r.space_id
+      JOIN branches  b ON b.id = r.branch_id
+      WHERE r.id = $1
+    `,
+    [reservationId],
+  );
+  const row = rows[0];
+  if (!row) return 0;
+
+  const rendered = renderNotification(event, { ...row, ...fields });
+
+  const outgoing: { kind: NotificationKind; recipient: string; subject: string | null; body: string }[] = [];
+  // e-mail malformado (cadastros antigos) não entra na fila
+  if (isValidEmail(row.customer_email) && getNotificationChannel('EMAIL')) {
+    outgoing.push({
+      kind: 'EMAIL',
+      recipient: row.customer_email,
+      subject: rendered.subject,
+      body: rendered.email,
+    });
+  }
+  const phone = row.customer_phone ? normalizePhone(row.customer_phone) : '';
+  if (phone.replace('+', '').length >= 8 && getNotificationChannel('SMS')) {
+    outgoing.push({ kind: 'SMS', recipient: phone, subject: null, body: rendered.sms });
+  }
+
+  for (const message of outgoing) {
+    await client.query(
+      `
+        INSERT INTO notifications
+          (event_type, channel, recipient, subject, body, customer_id, reservation_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `,
+      [
+        event,
+        message.kind,
+        message.recipient,
+        message.subject,
+        message.body,
+        row.customer_id,
+        reservationId,
+      ],
+    );
+  }
+  return outgoing.length;
+}
+
+/**
+ * Envia um aviso PENDING vencido (travado com SKIP LOCKED, então mais de uma
+ * instância pode rodar o dispatcher). Retorna null quando a fila está vazia.
+ */
+/**
+ * Reserva (lease) o próximo aviso PENDING vencido num único UPDATE: SKIP
+ * LOCKED deixa mais de uma instância rodar o dispatcher, e empurrar
+ * next_attempt_at por NOTIFICATION_LEASE_SECONDS impede outra de pegar o
+ * mesmo aviso enquanto o canal (SMTP, SMS) responde. Se o processo cair no
+ * meio, o lease vence e o aviso volta para a fila.
+ */
+async function claimNext() {
+  const { rows } = await pool.query(
+    `
+      WITH next AS (
+        SELECT id
+        FROM notifications
+        WHERE status = 'PENDING' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE notifications n
+      SET next_attempt_at = NOW() + make_interval(secs => $1::int)
+      FROM next
+      WHERE n.id = next.id
+      RETURNING n.id, n.channel, n.recipient, n.subject, n.body, n.attempts
+    `,
+    [NOTIFICATION_LEASE_SECONDS],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Envia um aviso: lease (claimNext), envio fora de qualquer transação e
+ * resultado gravado depois. Retorna null quando a fila está vazia.
+ */
+async function dispatchNext(): Promise<NotificationStatus | 'RETRY' | null> {
+  const notification = await claimNext();
+  if (!notification) return null;
+
+  const channel = getNotificationChannel(notification.channel);
+  let error: string | null = null;
+  try {
+    if (!channel) throw new Error(`nenhum canal configurado para ${notification.channel}`);
+    await channel.send({
+      id: notification.id,
+      kind: notification.channel,
+      recipient: notification.recipient,
+      subject: notification.subject,
+      body: notification.body,
+    });
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = notification.attempts + 1;
+  const outcome = !error ? 'SENT' : attempts >= NOTIFICATION_MAX_ATTEMPTS ? 'FAILED' : 'RETRY';
+
+  await pool.query(
+    `
+      UPDATE notifications
+      SET status = CASE WHEN $2::text = 'RETRY' THEN 'PENDING' ELSE $2::text END,
+          attempts = $3,
+          last_error = $4,
+          sent_via = $5,
+          sent_at = CASE WHEN $2::text = 'SENT' THEN NOW() END,
+          next_attempt_at = CASE
+            WHEN $2::text = 'RETRY' THEN NOW() + make_interval(mins => power(2, $3::int - 1)::int)
+            ELSE next_attempt_at
+          END
+      WHERE id = $1 AND status = 'PENDING'
+    `,
+    [notification.id, outcome, attempts, error, channel?.name ?? null],
+  );
+
+  return outcome;
+}
+
+/**
+ * Envia os avisos pendentes (até DISPATCH_BATCH por execução).
+ */
+export async function dispatchNotifications(): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+
+  for (let i = 0; i < DISPATCH_BATCH; i += 1) {
+    const outcome = await dispatchNext();
+    if (outcome === null) break;
+    if (outcome === 'SENT') sent += 1;
+    if (outcome === 'FAILED') failed += 1;
+  }
+  return { sent, failed };
+}
+
+/**
+ * Volta um aviso FAILED para a fila, zerando as tentativas.
+ */
+export async function retryNotification(id: string) {
+  const { rows } = await pool.query(
+    `
+      UPDATE notifications n
+      SET status = 'PENDING',
+          attempts = 0,
+          next_attempt_at = NOW()
+      WHERE n.id = $1 AND n.status = 'FAILED'
+      RETURNING ${NOTIFICATION_COLUMNS}
+    `,
+    [id],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Job em background que envia os avisos da outbox.
+ */
+export function startNotificationDispatcher() {
+  // um lote pode levar mais que o intervalo (SMTP lento): não sobrepõe execuções
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    dispatchNotifications()
+      .then(({ sent, failed }) => {
+        if (sent > 0) console.log(`[notifications] ${sent} aviso(s) enviado(s)`);
+        if (failed > 0) console.error(`[notifications] ${failed} aviso(s) falharam de vez`);
+      })
+      .catch((err) => console.error('[notifications] falha ao enviar avisos', err))
+      .finally(() => {
+        running = false;
+      });
+  }, NOTIFICATION_DISPATCH_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
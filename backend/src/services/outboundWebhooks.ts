@@ -0,0 +1,342 @@
+// src/services/outboundWebhooks.ts
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import { netPaidSql } from './paymentTerms';
+
+/**
+ * Webhooks de saída: eventos do domínio para sistemas externos.
+ *
+ * publishEvent roda dentro da transação que gerou o evento e grava uma
+ * entrega (webhook_deliveries) por assinatura ativa que escuta o tipo.
+ * O dispatcher reserva a entrega e faz o POST assinado fora da transação; resposta 2xx = DELIVERED, o resto conta
+ * tentativa e reagenda com espera crescente (1, 2, 4... minutos) até
+ * WEBHOOK_MAX_ATTEMPTS, quando fica FAILED. replayDelivery reenvia qualquer
+ * entrega já encerrada como uma nova linha (mesmo event_id).
+ *
+ * Assinatura: X-Webhook-Signature = "sha256=" + HMAC-SHA256(secret,
+ * "<X-Webhook-Timestamp>.<corpo>") em hex. O destino deve recusar timestamps
+ * antigos e usar X-Webhook-Id para ignorar repetições.
+ */
+export type WebhookEventType =
+  | 'reservation.created'
+  | 'reservation.confirmed'
+  | 'reservation.cancelled'
+  | 'payment.paid'
+  | 'payment.refunded'
+  | 'space.updated';
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'reservation.created',
+  'reservation.confirmed',
+  'reservation.cancelled',
+  'payment.paid',
+  'payment.refunded',
+  'space.updated',
+];
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'DELIVERED', 'FAILED'];
+
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+
+// intervalo entre execuções do dispatcher (segundos)
+const WEBHOOK_DISPATCH_INTERVAL_SECONDS =
+  Number(process.env.WEBHOOK_DISPATCH_INTERVAL_SECONDS) || 10;
+
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+
+// entregas por execução do dispatcher
+const DISPATCH_BATCH = 50;
+
+export const DELIVERY_COLUMNS = `
+  d.id,
+  d.subscription_id,
+  d.event_id,
+  d.event_type,
+  d.payload,
+  d.status,
+  d.attempts,
+  d.response_status,
+  d.last_error,
+  d.next_attempt_at,
+  d.delivered_at,
+  d.replay_of,
+  d.created_at
+`;
+
+// linha de DELIVERY_COLUMNS
+export type WebhookDeliveryRow = {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: Date;
+  delivered_at: Date | null;
+  replay_of: string | null;
+  created_at: Date;
+};
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENTS.includes(value as WebhookEventType);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Enfileira o evento para as assinaturas ativas que escutam o tipo.
+ * Chamar com o client da transação que gerou o evento.
+ * Retorna quantas entregas foram criadas.
+ */
+export async function publishEvent(
+  client: PoolClient,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<number> {
+  const eventId = crypto.randomUUID();
+  const payload = { id: eventId, type, created_at: new Date().toISOString(), data };
+
+  const { rowCount } = await client.query(
+    `
+      INSERT INTO webhook_deliveries (subscription_id, event_id, event_type, payload)
+      SELECT s.id, $1, $2, $3::jsonb
+      FROM webhook_subscriptions s
+      WHERE s.active AND $2 = ANY(s.events)
+    `,
+    [eventId, type, JSON.stringify(payload)],
+  );
+  return rowCount ?? 0;
+}
+
+/**
+ * Publica um evento de reserva com o retrato atual dela (+ campos extras).
+ */
+export async function publishReservationEvent(
+  client: PoolClient,
+  type: WebhookEventType,
+  reservationId: string,
+  extra: Record<string, unknown> = {},
+): Promise<number> {
+  const { rows } = await client.query(
+    `
+      SELECT
+        r.id,
+        r.status,
+        r.branch_id,
+        r.space_id,
+        r.customer_id,
+        r.series_id,
+        to_char(r.check_in_date, 'YYYY-MM-DD')  AS check_in_date,
+        to_char(r.check_out_date, 'YYYY-MM-DD') AS check_out_date,
+        to_char(r.start_time, 'HH24:MI') AS start_time,
+        to_char(r.end_time, 'HH24:MI')   AS end_time,
+        r.adults_count,
+        r.total_amount::float8 AS total_amount,
+        (${netPaidSql()})::float8 AS paid_amount,
+        r.created_at,
+        r.updated_at
+      FROM reservations r
+      WHERE r.id = $1
+    `,
+    [reservationId],
+  );
+  if (!rows[0]) return 0;
+  return publishEvent(client, type, { reservation: rows[0], ...extra });
+}
+
+/**
+ * Reserva (lease) a próxima entrega PENDING vencida numa transação curta:
+ * SKIP LOCKED deixa mais de uma instância rodar o dispatcher, e empurrar
+ * next_attempt_at para depois do timeout impede outra de pegar a mesma
+ * entrega enquanto o POST está em andamento. Se o processo cair no meio,
+ * o lease vence e a entrega volta para a fila.
+ */
+async function claimNext() {
+  const { rows } = await pool.query(
+    `
+      WITH next AS (
+        SELECT d.id
+        FROM webhook_deliveries d
+        WHERE d.status = 'PENDING' AND d.next_attempt_at <= NOW()
+        ORDER BY d.next_attempt_at, d.created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE webhook_deliveries d
+      SET next_attempt_at = NOW() + make_interval(secs => $1::int)
+      FROM next, webhook_subscriptions s
+      WHERE d.id = next.id AND s.id = d.subscription_id
+      RETURNING d.id, d.event_id, d.event_type, d.payload, d.attempts,
+                s.url, s.secret, s.active
+    `,
+    [Math.ceil(WEBHOOK_TIMEOUT_MS / 1000) * 2 + 60],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Envia uma entrega: lease (claimNext), POST fora de qualquer transação e
+ * resultado gravado depois. Retorna null quando a fila está vazia.
+ */
+async function deliverNext(): Promise<WebhookDeliveryStatus | 'RETRY' | null> {
+  const delivery = await claimNext();
+  if (!delivery) return null;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!delivery.active) {
+    error = 'assinatura desativada';
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SeuCantinho-Webhooks/1.0',
+          'X-Webhook-Id': delivery.event_id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhook(delivery.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 500);
+        error = `HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const attempts = delivery.attempts + 1;
+  const outcome =
+    !error ? 'DELIVERED'
+    : !delivery.active || attempts >= WEBHOOK_MAX_ATTEMPTS ? 'FAILED'
+    : 'RETRY';
+
+  // status = 'PENDING': desativar a assinatura durante o envio já encerrou a entrega
+  await pool.query(
+    `
+      UPDATE webhook_deliveries
+      SET status = CASE WHEN $2::text = 'RETRY' THEN 'PENDING' ELSE $2::text END,
+          attempts = $3,
+          response_status = $4,
+          last_error = $5,
+          delivered_at = CASE WHEN $2::text = 'DELIVERED' THEN NOW() END,
+          next_attempt_at = CASE
+            WHEN $2::text = 'RETRY' THEN NOW() + make_interval(mins => power(2, $3::int - 1)::int)
+            ELSE next_attempt_at
+          END
+      WHERE id = $1 AND status = 'PENDING'
+    `,
+    [delivery.id, outcome, attempts, responseStatus, error],
+  );
+
+  return outcome;
+}
+
+/**
+ * Envia as entregas pendentes (até DISPATCH_BATCH por execução).
+ */
+export async function dispatchWebhooks(): Promise<{ delivered: number; failed: number }> {
+  let delivered = 0;
+  let failed = 0;
+
+  for (let i = 0; i < DISPATCH_BATCH; i += 1) {
+    const outcome = await deliverNext();
+    if (outcome === null) break;
+    if (outcome === 'DELIVERED') delivered += 1;
+    if (outcome === 'FAILED') failed += 1;
+  }
+  return { delivered, failed };
+}
+
+export type ReplayResult = {
+  ok: boolean;
+  delivery?: WebhookDeliveryRow;
+  status?: WebhookDeliveryStatus;
+  error?: 'delivery_not_found' | 'delivery_pending' | 'subscription_inactive';
+};
+
+/**
+ * Reenvia uma entrega encerrada (FAILED ou DELIVERED): nova linha PENDING com
+ * o mesmo evento (event_id/payload) e replay_of apontando para a original.
+ */
+export async function replayDelivery(deliveryId: string): Promise<ReplayResult> {
+  const { rows } = await pool.query(
+    `
+      SELECT d.status, s.active
+      FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.id = $1
+    `,
+    [deliveryId],
+  );
+  if (!rows[0]) return { ok: false, error: 'delivery_not_found' };
+  if (rows[0].status === 'PENDING') {
+    return { ok: false, error: 'delivery_pending', status: rows[0].status };
+  }
+  if (!rows[0].active) return { ok: false, error: 'subscription_inactive' };
+
+  const inserted = await pool.query<WebhookDeliveryRow>(
+    `
+      WITH replay AS (
+        INSERT INTO webhook_deliveries (subscription_id, event_id, event_type, payload, replay_of)
+        SELECT subscription_id, event_id, event_type, payload, id
+        FROM webhook_deliveries
+        WHERE id = $1
+        RETURNING *
+      )
+      SELECT ${DELIVERY_COLUMNS} FROM replay d
+    `,
+    [deliveryId],
+  );
+  return { ok: true, delivery: inserted.rows[0] };
+}
+
+/**
+ * Job em background que envia os webhooks pendentes.
+ */
+export function startWebhookDispatcher() {
+  // um lote pode levar mais que o intervalo (destinos lentos): não sobrepõe execuções
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    dispatchWebhooks()
+      .then(({ delivered, failed }) => {
+        if (delivered > 0) console.log(`[webhooks] ${delivered} entrega(s) feita(s)`);
+        if (failed > 0) console.error(`[webhooks] ${failed} entrega(s) falharam de vez`);
+      })
+      .catch((err) => console.error('[webhooks] falha ao enviar webhooks', err))
+      .finally(() => {
+        running = false;
+      });
+  }, WEBHOOK_DISPATCH_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
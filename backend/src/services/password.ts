@@ -0,0 +1,15 @@
+// src/services/password.ts
+import bcrypt from 'bcryptjs';
+
+const SALT_ROUNDS = Number(process.env.BCRYPT_ROUNDS) || 10;
+
+// tamanho mínimo aceito para senhas novas
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function hashPassword(plain: string): Promise<string> {
+  return bcrypt.hash(plain, SALT_ROUNDS);
+}
+
+export function verifyPassword(plain: string, hash: string): Promise<boolean> {
+  return bcrypt.compare(plain, hash);
+}
@@ -0,0 +1,723 @@
+// src/services/paymentCharges.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import {
+  Charge,
+  ChargeRequest,
+  ChargeStatus,
+  getPaymentProvider,
+  PaymentProvider,
+  ProviderRefund,
+} from './paymentProvider';
+import { notifyCustomer } from './notifications';
+import { publishEvent } from './outboundWebhooks';
+import { recomputeReservationStatus } from './reservationPayments';
+
+/**
+ * Ponte entre payments e o provedor de pagamentos.
+ *
+ * Status da cobrança -> pagamento:
+ * - PAID -> PAID (e a reserva é recalculada)
+ * - DECLINED / CANCELLED -> CANCELLED
+ * - REFUNDED -> REFUNDED (o que faltava devolver entra em refunds)
+ * - PENDING: nada muda
+ *
+ * provider_payload guarda o que a tela precisa mostrar (QR code do PIX,
+ * final do cartão, motivo da recusa). Nunca guarda o número do cartão.
+ */
+export type PaymentStatus = 'PENDING' | 'PAID' | 'CANCELLED' | 'REFUNDED';
+
+// mudanças aceitas por confirmPayment, sync e webhooks; o resto é ignorado
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['PAID', 'CANCELLED'],
+  PAID: ['REFUNDED'],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+export function chargeToPaymentStatus(status: ChargeStatus): PaymentStatus | null {
+  switch (status) {
+    case 'PAID':
+      return 'PAID';
+    case 'DECLINED':
+    case 'CANCELLED':
+      return 'CANCELLED';
+    case 'REFUNDED':
+      return 'REFUNDED';
+    default:
+      return null;
+  }
+}
+
+export const PAYMENT_RETURNING = `
+  id,
+  reservation_id,
+  amount::float8 AS amount,
+  method,
+  status,
+  purpose,
+  external_ref,
+  provider,
+  provider_payload,
+  (
+    SELECT COALESCE(SUM(rf.amount), 0)
+    FROM refunds rf
+    WHERE rf.payment_id = payments.id AND rf.status <> 'FAILED'
+  )::float8 AS refunded_amount,
+  paid_at,
+  created_at
+`;
+
+// linha de PAYMENT_RETURNING
+export type PaymentRow = {
+  id: string;
+  reservation_id: string;
+  amount: number;
+  method: string;
+  status: PaymentStatus;
+  purpose: string;
+  external_ref: string | null;
+  provider: string | null;
+  provider_payload: Record<string, unknown> | null;
+  refunded_amount: number;
+  paid_at: string | null;
+  created_at: string | null;
+};
+
+function chargePayload(charge: Charge) {
+  return {
+    status: charge.status,
+    pix: charge.pix ?? null,
+    card_last4: charge.card_last4 ?? null,
+    decline_reason: charge.decline_reason ?? null,
+  };
+}
+
+export type PaymentTransitionResult = {
+  ok: boolean;
+  from?: PaymentStatus;
+  payment?: PaymentRow;
+  error?: 'payment_not_found' | 'invalid_payment_transition';
+  lateCapture?: boolean; // ver applyProviderStatus
+};
+
+/**
+ * Muda o status do pagamento dentro de uma transação aberta pelo chamador:
+ * trava a linha e valida contra PAYMENT_TRANSITIONS. Em REFUNDED, o saldo
+ * ainda não devolvido é registrado em refunds. PAID e reembolso avisam o
+ * cliente e geram webhook. Quem chama recalcula a reserva depois do COMMIT (settleReservation).
+ */
+export async function transitionPayment(
+  client: PoolClient,
+  paymentId: string,
+  to: PaymentStatus,
+  options: {
+    paidAt?: string | null;
+    externalRef?: string | null;
+    actorId?: string | null;
+    reason?: string;
+  } = {},
+): Promise<PaymentTransitionResult> {
+  const current = await client.query(
+    'SELECT status FROM payments WHERE id = $1 FOR UPDATE',
+    [paymentId],
+  );
+  if (!current.rows[0]) {
+    return { ok: false, error: 'payment_not_found' };
+  }
+
+  const from = current.rows[0].status as PaymentStatus;
+  if (!PAYMENT_TRANSITIONS[from]?.includes(to)) {
+    return { ok: false, error: 'invalid_payment_transition', from };
+  }
+
+  let refunded = 0;
+  if (to === 'REFUNDED') {
+    const inserted = await client.query(
+      `
+        INSERT INTO refunds (payment_id, reservation_id, amount, reason, created_by)
+        SELECT p.id, p.reservation_id, p.amount - COALESCE(SUM(rf.amount), 0), $2, $3
+        FROM payments p
+        LEFT JOIN refunds rf ON rf.payment_id = p.id AND rf.status <> 'FAILED'
+        WHERE p.id = $1
+        GROUP BY p.id
+        HAVING p.amount - COALESCE(SUM(rf.amount), 0) > 0
+        RETURNING amount::float8 AS amount
+      `,
+      [paymentId, options.reason ?? 'provider_refund', options.actorId ?? null],
+    );
+    refunded = inserted.rows[0]?.amount ?? 0;
+  }
+
+  const { rows } = await client.query<PaymentRow>(
+    `
+      UPDATE payments
+      SET status = $2,
+          paid_at = CASE
+            WHEN $2::text = 'PAID' THEN COALESCE($3::timestamptz, NOW())
+            ELSE paid_at
+          END,
+          external_ref = COALESCE($4, external_ref)
+      WHERE id = $1
+      RETURNING ${PAYMENT_RETURNING}
+    `,
+    [paymentId, to, options.paidAt ?? null, options.externalRef ?? null],
+  );
+  const payment = rows[0];
+
+  if (to === 'PAID') {
+    await notifyCustomer(client, 'payment.paid', payment.reservation_id, { amount: payment.amount });
+    await publishEvent(client, 'payment.paid', { payment });
+  } else if (refunded > 0) {
+    await notifyCustomer(client, 'payment.refunded', payment.reservation_id, { amount: refunded });
+    await publishEvent(client, 'payment.refunded', { payment, amount: refunded });
+  }
+
+  return { ok: true, from, payment };
+}
+
+/**
+ * Status vindo do provedor (webhook, sync, abertura da cobrança): igual a
+ * transitionPayment, mais a captura tardia. PAID para um pagamento já
+ * CANCELLED (reserva cancelada, mas o provedor capturou antes de cancelar a
+ * cobrança) não é ignorado: o dinheiro entrou, então o pagamento vira PAID e
+ * lateCapture = true pede ao chamador o reembolso integral depois do COMMIT
+ * (refundLateCapture).
+ */
+export async function applyProviderStatus(
+  client: PoolClient,
+  paymentId: string,
+  to: PaymentStatus,
+  options: { paidAt?: string | null; actorId?: string | null } = {},
+): Promise<PaymentTransitionResult> {
+  const transition = await transitionPayment(client, paymentId, to, options);
+  if (transition.ok || to !== 'PAID' || transition.from !== 'CANCELLED') return transition;
+
+  const { rows } = await client.query<PaymentRow>(
+    `
+      UPDATE payments
+      SET status = 'PAID',
+          paid_at = COALESCE($2::timestamptz, NOW())
+      WHERE id = $1 AND status = 'CANCELLED'
+      RETURNING ${PAYMENT_RETURNING}
+    `,
+    [paymentId, options.paidAt ?? null],
+  );
+  return { ok: true, from: 'CANCELLED', payment: rows[0], lateCapture: true };
+}
+
+/**
+ * Devolve pelo provedor o valor de uma captura tardia (applyProviderStatus).
+ * Falha fica no log e no reembolso FAILED; a equipe refaz pelo reembolso avulso.
+ */
+export async function refundLateCapture(payment: { id: string; amount: number }, actorId?: string) {
+  const result = await refundPayment(
+    payment.id,
+    { amount: Number(payment.amount), reason: 'late_capture' },
+    actorId,
+  );
+  if (!result.ok) {
+    console.error(`[payments] falha ao reembolsar captura tardia do pagamento ${payment.id}`, result.error);
+  }
+  return result;
+}
+
+// PAID e REFUNDED mexem no valor pago da reserva
+export async function settleReservation(
+  payment: { reservation_id: string },
+  to: PaymentStatus,
+  actorId?: string,
+) {
+  if (to === 'PAID' || to === 'REFUNDED') {
+    await recomputeReservationStatus(payment.reservation_id, actorId);
+  }
+}
+
+/**
+ * Grava o status atual da cobrança no pagamento (via applyProviderStatus;
+ * mudança inválida só atualiza os dados do provedor) e recalcula a reserva.
+ * Captura tardia é reembolsada em seguida.
+ * Retorna o pagamento atualizado.
+ */
+export async function applyChargeStatus(paymentId: string, charge: Charge, actorId?: string) {
+  const to = chargeToPaymentStatus(charge.status);
+
+  const client = await pool.connect();
+  let transition: PaymentTransitionResult | null = null;
+  let payment: PaymentRow | undefined;
+  try {
+    await client.query('BEGIN');
+
+    if (to) {
+      transition = await applyProviderStatus(client, paymentId, to, {
+        paidAt: charge.paid_at,
+        actorId,
+      });
+    }
+
+    const { rows } = await client.query<PaymentRow>(
+      `
+        UPDATE payments
+        SET external_ref = $2,
+            provider_payload = $3
+        WHERE id = $1
+        RETURNING ${PAYMENT_RETURNING}
+      `,
+      [paymentId, charge.external_ref, JSON.stringify(chargePayload(charge))],
+    );
+    payment = rows[0];
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  if (payment && to && transition?.ok) {
+    await settleReservation(payment, to, actorId);
+  }
+  if (payment && transition?.lateCapture) {
+    const refunded = await refundLateCapture(payment, actorId);
+    if (refunded.ok) return refunded.payment;
+  }
+  return payment;
+}
+
+/**
+ * Abre a cobrança de um pagamento PENDING recém-criado e aplica o resultado.
+ * Se o provedor falhar, o pagamento é cancelado e o erro sobe.
+ */
+export async function startProviderCharge(
+  provider: PaymentProvider,
+  payment: { id: string; amount: number; method: string; reservation_id: string },
+  options: Pick<ChargeRequest, 'payer' | 'card'>,
+  actorId?: string,
+) {
+  let charge: Charge;
+  try {
+    charge = await provider.createCharge({
+      reference: payment.id,
+      amount: Number(payment.amount),
+      method: payment.method as ChargeRequest['method'],
+      description: `Reserva ${payment.reservation_id}`,
+      payer: options.payer,
+      card: options.card,
+    });
+  } catch (err) {
+    await pool.query(
+      `
+        UPDATE payments
+        SET status = 'CANCELLED', provider_payload = $2
+        WHERE id = $1
+      `,
+      [payment.id, JSON.stringify({ error: 'provider_error' })],
+    );
+    throw err;
+  }
+
+  return { payment: await applyChargeStatus(payment.id, charge, actorId), charge };
+}
+
+export const REFUND_COLUMNS = `
+  id,
+  payment_id,
+  reservation_id,
+  amount::float8 AS amount,
+  status,
+  reason,
+  external_ref,
+  failure_reason,
+  created_by,
+  created_at
+`;
+
+// linha de REFUND_COLUMNS
+export type RefundRow = {
+  id: string;
+  payment_id: string;
+  reservation_id: string;
+  amount: number;
+  status: ProviderRefund['status'];
+  reason: string | null;
+  external_ref: string | null;
+  failure_reason: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+// ok = false traz status HTTP, error e, às vezes, details
+export type RefundResult = {
+  ok: boolean;
+  refund?: RefundRow;
+  payment?: PaymentRow;
+  status?: number;
+  error?: string;
+  details?: Record<string, unknown> & { refund?: RefundRow };
+  awaitingProvider?: boolean; // reembolso PENDING ainda não enviado (submitProviderRefund)
+};
+
+// reembolso PENDING sem resposta do provedor é reenviado depois disso (segundos)
+const REFUND_RETRY_AFTER_SECONDS = Number(process.env.REFUND_RETRY_AFTER_SECONDS) || 60;
+
+// ...e desiste (vira FAILED) depois disso (horas)
+const REFUND_RETRY_MAX_HOURS = Number(process.env.REFUND_RETRY_MAX_HOURS) || 24;
+
+// intervalo entre execuções do job de reenvio (segundos)
+const REFUND_RETRY_INTERVAL_SECONDS = Number(process.env.REFUND_RETRY_INTERVAL_SECONDS) || 60;
+
+/**
+ * Devolve parte (ou todo) de um pagamento PAID.
+ * - nunca passa do que ainda não foi devolvido (409 refund_exceeds_paid)
+ * - pagamento cobrado pelo provedor: o reembolso é gravado PENDING e
+ *   confirmado antes de chamar o provedor (submitProviderRefund), então
+ *   nenhuma transação fica aberta esperando a rede; recusa vira FAILED e
+ *   502 refund_failed
+ * - ao zerar o saldo o pagamento vira REFUNDED
+ * A reserva é recalculada pelo valor líquido (pode voltar a PENDING).
+ */
+export async function refundPayment(
+  paymentId: string,
+  input: { amount: number; reason?: string | null },
+  actorId?: string,
+): Promise<RefundResult> {
+  const client = await pool.connect();
+  let result: RefundResult;
+  try {
+    await client.query('BEGIN');
+    result = await refundInTransaction(client, paymentId, input, actorId);
+    await client.query(result.ok ? 'COMMIT' : 'ROLLBACK');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  if (result.awaitingProvider) {
+    result = await submitProviderRefund(result.refund.id, actorId);
+  }
+  if (result.ok) {
+    await recomputeReservationStatus(result.refund.reservation_id, actorId);
+  }
+  return result;
+}
+
+/**
+ * Núcleo de refundPayment, na transação do chamador (o cancelamento usa o
+ * mesmo caminho). Não grava nada quando o erro é de validação ou do provedor
+ * fora do ar (payment_provider_unavailable). Pagamento do provedor sai com
+ * o reembolso PENDING e awaitingProvider: depois do COMMIT o chamador envia
+ * com submitProviderRefund. Não recalcula a reserva.
+ */
+export async function refundInTransaction(
+  client: PoolClient,
+  paymentId: string,
+  input: { amount: number; reason?: string | null },
+  actorId?: string,
+): Promise<RefundResult> {
+  const { rows } = await client.query(
+    `
+      SELECT
+        p.status,
+        p.reservation_id,
+        p.provider,
+        p.external_ref,
+        p.amount::float8 AS amount,
+        (
+          SELECT COALESCE(SUM(rf.amount), 0)
+          FROM refunds rf
+          WHERE rf.payment_id = p.id AND rf.status <> 'FAILED'
+        )::float8 AS refunded
+      FROM payments p
+      WHERE p.id = $1
+      FOR UPDATE
+    `,
+    [paymentId],
+  );
+  const payment = rows[0];
+
+  const amountCents = Math.round(input.amount * 100);
+  const refundableCents = payment
+    ? Math.round(Number(payment.amount) * 100) - Math.round(Number(payment.refunded) * 100)
+    : 0;
+
+  if (!payment) {
+    return { ok: false, status: 404, error: 'payment_not_found' };
+  }
+  if (payment.status !== 'PAID') {
+    return {
+      ok: false,
+      status: 409,
+      error: 'payment_not_refundable',
+      details: { status: payment.status },
+    };
+  }
+  if (amountCents > refundableCents) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'refund_exceeds_paid',
+      details: { refundable: refundableCents / 100 },
+    };
+  }
+  if (payment.provider && (!getPaymentProvider(payment.provider) || !payment.external_ref)) {
+    return { ok: false, status: 503, error: 'payment_provider_unavailable' };
+  }
+
+  // PENDING já conta como devolvido: outro reembolso não passa do saldo
+  // enquanto o provedor responde
+  const inserted = await client.query<RefundRow>(
+    `
+      INSERT INTO refunds (payment_id, reservation_id, amount, status, reason, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${REFUND_COLUMNS}
+    `,
+    [
+      paymentId,
+      payment.reservation_id,
+      amountCents / 100,
+      payment.provider ? 'PENDING' : 'COMPLETED',
+      input.reason ?? null,
+      actorId ?? null,
+    ],
+  );
+  const refund = inserted.rows[0];
+
+  if (payment.provider) {
+    return { ok: true, refund, awaitingProvider: true };
+  }
+  return { ok: true, refund, payment: await completeRefund(client, refund, actorId) };
+}
+
+/**
+ * Envia ao provedor um reembolso PENDING já gravado, fora de qualquer
+ * transação. O id do reembolso vai como idempotency_key: reenviar (job
+ * startRefundRetrier, outra instância) não devolve o dinheiro duas vezes.
+ * Provedor fora do ar deixa o reembolso PENDING para o job reenviar
+ * (502 payment_provider_error).
+ */
+export async function submitProviderRefund(refundId: string, actorId?: string): Promise<RefundResult> {
+  const { rows } = await pool.query(
+    `
+      SELECT rf.id, rf.amount::float8 AS amount, rf.reason, p.provider, p.external_ref
+      FROM refunds rf
+      JOIN payments p ON p.id = rf.payment_id
+      WHERE rf.id = $1 AND rf.status = 'PENDING' AND rf.submitted_at IS NULL
+    `,
+    [refundId],
+  );
+  const pending = rows[0];
+  if (!pending) {
+    return loadRefundResult(refundId);
+  }
+
+  let providerRefund: ProviderRefund;
+  try {
+    const provider = getPaymentProvider(pending.provider);
+    if (!provider || !pending.external_ref) throw new Error(`provedor ${pending.provider} indisponível`);
+    providerRefund = await provider.refund({
+      external_ref: pending.external_ref,
+      amount: Number(pending.amount),
+      reason: pending.reason ?? undefined,
+      idempotency_key: pending.id,
+    });
+  } catch (err) {
+    console.error(`[payments:refund] falha no provedor ao reembolsar ${refundId}`, err);
+    const current = await loadRefundResult(refundId);
+    return {
+      ok: false,
+      status: 502,
+      error: 'payment_provider_error',
+      details: { refund: current.refund ?? current.details?.refund },
+    };
+  }
+
+  return recordProviderRefund(refundId, providerRefund, actorId);
+}
+
+/**
+ * Grava a resposta do provedor. submitted_at IS NULL garante que só a
+ * primeira resposta conta (avisos e webhook uma vez só).
+ */
+async function recordProviderRefund(
+  refundId: string,
+  providerRefund: ProviderRefund,
+  actorId?: string,
+): Promise<RefundResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query<RefundRow>(
+      `
+        UPDATE refunds
+        SET status = $2,
+            external_ref = $3,
+            failure_reason = $4,
+            submitted_at = NOW()
+        WHERE id = $1 AND status = 'PENDING' AND submitted_at IS NULL
+        RETURNING ${REFUND_COLUMNS}
+      `,
+      [refundId, providerRefund.status, providerRefund.refund_ref, providerRefund.failure_reason ?? null],
+    );
+    const refund = rows[0];
+
+    let payment: PaymentRow | undefined;
+    if (refund && refund.status !== 'FAILED') {
+      payment = await completeRefund(client, refund, actorId);
+    }
+
+    await client.query('COMMIT');
+
+    if (!refund) return loadRefundResult(refundId);
+    if (refund.status === 'FAILED') {
+      return {
+        ok: false,
+        status: 502,
+        error: 'refund_failed',
+        details: { failure_reason: refund.failure_reason, refund },
+      };
+    }
+    return { ok: true, refund, payment };
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Efeitos do reembolso aceito: aviso ao cliente, pagamento REFUNDED quando
+ * não sobra saldo e webhook payment.refunded. Devolve o pagamento atualizado.
+ */
+async function completeRefund(client: PoolClient, refund: RefundRow, actorId?: string) {
+  await notifyCustomer(client, 'payment.refunded', refund.reservation_id, {
+    amount: refund.amount,
+  });
+
+  const { rows } = await client.query(
+    `
+      SELECT p.status,
+             p.amount - (
+               SELECT COALESCE(SUM(rf.amount), 0)
+               FROM refunds rf
+               WHERE rf.payment_id = p.id AND rf.status <> 'FAILED'
+             ) <= 0 AS settled
+      FROM payments p
+      WHERE p.id = $1
+      FOR UPDATE
+    `,
+    [refund.payment_id],
+  );
+  if (rows[0]?.status === 'PAID' && rows[0].settled) {
+    await transitionPayment(client, refund.payment_id, 'REFUNDED', { actorId });
+  }
+
+  const updated = await client.query<PaymentRow>(
+    `SELECT ${PAYMENT_RETURNING} FROM payments WHERE id = $1`,
+    [refund.payment_id],
+  );
+  await publishEvent(client, 'payment.refunded', {
+    payment: updated.rows[0],
+    amount: refund.amount,
+    refund,
+  });
+  return updated.rows[0];
+}
+
+// reembolso já gravado (outra instância respondeu antes), no formato de RefundResult
+async function loadRefundResult(refundId: string): Promise<RefundResult> {
+  const { rows } = await pool.query<RefundRow>(
+    `SELECT ${REFUND_COLUMNS} FROM refunds WHERE id = $1`,
+    [refundId],
+  );
+  const refund = rows[0];
+  if (!refund) {
+    return { ok: false, status: 404, error: 'refund_not_found' };
+  }
+  if (refund.status === 'FAILED') {
+    return {
+      ok: false,
+      status: 502,
+      error: 'refund_failed',
+      details: { failure_reason: refund.failure_reason, refund },
+    };
+  }
+  const payment = await pool.query<PaymentRow>(
+    `SELECT ${PAYMENT_RETURNING} FROM payments WHERE id = $1`,
+    [refund.payment_id],
+  );
+  return { ok: true, refund, payment: payment.rows[0] };
+}
+
+/**
+ * Reenvia os reembolsos PENDING que o provedor ainda não respondeu (queda
+ * do provedor ou da API entre o COMMIT e a chamada). Passado
+ * REFUND_RETRY_MAX_HOURS o reembolso vira FAILED para a equipe refazer.
+ */
+export async function retryPendingRefunds(): Promise<{ submitted: number; failed: number }> {
+  const expired = await pool.query(
+    `
+      UPDATE refunds
+      SET status = 'FAILED',
+          failure_reason = 'payment_provider_error',
+          submitted_at = NOW()
+      WHERE status = 'PENDING'
+        AND submitted_at IS NULL
+        AND created_at < NOW() - make_interval(hours => $1::int)
+    `,
+    [REFUND_RETRY_MAX_HOURS],
+  );
+
+  const { rows } = await pool.query(
+    `
+      SELECT id, reservation_id
+      FROM refunds
+      WHERE status = 'PENDING'
+        AND submitted_at IS NULL
+        AND created_at < NOW() - make_interval(secs => $1::int)
+      ORDER BY created_at
+      LIMIT 50
+    `,
+    [REFUND_RETRY_AFTER_SECONDS],
+  );
+
+  let submitted = 0;
+  for (const pending of rows) {
+    const result = await submitProviderRefund(pending.id);
+    if (result.error === 'payment_provider_error') continue;
+    submitted += 1;
+    if (result.ok) await recomputeReservationStatus(pending.reservation_id);
+  }
+  return { submitted, failed: expired.rowCount ?? 0 };
+}
+
+/**
+ * Job em background que reenvia reembolsos sem resposta do provedor.
+ */
+export function startRefundRetrier() {
+  // uma chamada ao provedor pode levar mais que o intervalo: não sobrepõe execuções
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    retryPendingRefunds()
+      .then(({ submitted, failed }) => {
+        if (submitted > 0) console.log(`[refunds] ${submitted} reembolso(s) reenviado(s) ao provedor`);
+        if (failed > 0) console.error(`[refunds] ${failed} reembolso(s) sem resposta do provedor viraram FAILED`);
+      })
+      .catch((err) => console.error('[refunds] falha ao reenviar reembolsos', err))
+      .finally(() => {
+        running = false;
+      });
+  }, REFUND_RETRY_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
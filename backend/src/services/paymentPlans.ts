@@ -0,0 +1,213 @@
+// src/services/paymentPlans.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+
+/**
+ * Parcelamento do saldo da reserva.
+ *
+ * As parcelas somam o saldo em aberto quando o plano é criado
+ * (covered_amount guarda o que já estava pago). Os pagamentos pagos, líquidos
+ * de reembolso e em ordem de pagamento, cobrem primeiro covered_amount e
+ * depois a parcela 1, a 2... (installment_allocations). O casamento é refeito
+ * a cada mudança de pagamento (recomputeReservationStatus), então um
+ * reembolso volta a abrir a última parcela coberta.
+ *
+ * Parcela vencida e não quitada vira OVERDUE (sweeper).
+ */
+export const INSTALLMENT_MAX = 24;
+
+// intervalo entre execuções do sweeper (segundos)
+const INSTALLMENT_SWEEP_INTERVAL_SECONDS =
+  Number(process.env.INSTALLMENT_SWEEP_INTERVAL_SECONDS) || 3600;
+
+export type InstallmentStatus = 'PENDING' | 'PAID' | 'OVERDUE';
+
+// colunas de payment_installments i
+export const INSTALLMENT_COLUMNS = `
+  i.id,
+  i.plan_id,
+  i.seq,
+  to_char(i.due_date, 'YYYY-MM-DD') AS due_date,
+  i.amount::float8      AS amount,
+  i.paid_amount::float8 AS paid_amount,
+  i.status,
+  i.paid_at
+`;
+
+const cents = (value: unknown) => Math.round(Number(value) * 100);
+
+/**
+ * Refaz o casamento pagamentos -> parcelas do plano (já travado pelo chamador)
+ * e atualiza paid_amount/status das parcelas e do plano.
+ */
+export async function allocateInstallments(
+  client: PoolClient,
+  plan: { id: string; reservation_id: string; covered_amount: number },
+) {
+  const payments = await client.query(
+    `
+      SELECT
+        p.id,
+        (p.amount - COALESCE((
+          SELECT SUM(rf.amount) FROM refunds rf
+          WHERE rf.payment_id = p.id AND rf.status <> 'FAILED'
+        ), 0))::float8 AS net
+      FROM payments p
+      WHERE p.reservation_id = $1
+        AND p.status IN ('PAID', 'REFUNDED')
+      ORDER BY p.paid_at NULLS LAST, p.created_at
+    `,
+    [plan.reservation_id],
+  );
+
+  const installments = await client.query(
+    `
+      SELECT id, amount::float8 AS amount, due_date < CURRENT_DATE AS past_due
+      FROM payment_installments
+      WHERE plan_id = $1
+      ORDER BY seq
+    `,
+    [plan.id],
+  );
+
+  const allocations: { installment_id: string; payment_id: string; cents: number }[] = [];
+  const paidCents = new Map<string, number>();
+
+  let skip = cents(plan.covered_amount);
+  let index = 0;
+  for (const payment of payments.rows) {
+    let available = Math.max(cents(payment.net), 0);
+
+    const skipped = Math.min(skip, available);
+    skip -= skipped;
+    available -= skipped;
+
+    while (available > 0 && index < installments.rows.length) {
+      const installment = installments.rows[index];
+      const filled = paidCents.get(installment.id) ?? 0;
+      const take = Math.min(cents(installment.amount) - filled, available);
+
+      allocations.push({ installment_id: installment.id, payment_id: payment.id, cents: take });
+      paidCents.set(installment.id, filled + take);
+      available -= take;
+
+      if (filled + take >= cents(installment.amount)) index += 1;
+    }
+  }
+
+  await client.query(
+    `
+      DELETE FROM installment_allocations
+      WHERE installment_id IN (SELECT id FROM payment_installments WHERE plan_id = $1)
+    `,
+    [plan.id],
+  );
+  for (const allocation of allocations) {
+    await client.query(
+      `
+        INSERT INTO installment_allocations (installment_id, payment_id, amount)
+        VALUES ($1, $2, $3)
+      `,
+      [allocation.installment_id, allocation.payment_id, allocation.cents / 100],
+    );
+  }
+
+  let allPaid = true;
+  for (const installment of installments.rows) {
+    const paid = paidCents.get(installment.id) ?? 0;
+    const status: InstallmentStatus =
+      paid >= cents(installment.amount) ? 'PAID' : installment.past_due ? 'OVERDUE' : 'PENDING';
+    if (status !== 'PAID') allPaid = false;
+
+    await client.query(
+      `
+        UPDATE payment_installments
+        SET paid_amount = $2,
+            status = $3,
+            paid_at = CASE WHEN $3::text = 'PAID' THEN COALESCE(paid_at, NOW()) END
+        WHERE id = $1
+      `,
+      [installment.id, paid / 100, status],
+    );
+  }
+
+  await client.query('UPDATE payment_plans SET status = $2 WHERE id = $1', [
+    plan.id,
+    allPaid ? 'COMPLETED' : 'ACTIVE',
+  ]);
+}
+
+/**
+ * Casa os pagamentos da reserva com as parcelas do plano atual (se houver).
+ */
+export async function matchInstallments(reservationId: string) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+        SELECT id, reservation_id, covered_amount::float8 AS covered_amount
+        FROM payment_plans
+        WHERE reservation_id = $1 AND status <> 'CANCELLED'
+        FOR UPDATE
+      `,
+      [reservationId],
+    );
+    if (rows[0]) {
+      await allocateInstallments(client, rows[0]);
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Marca como OVERDUE as parcelas vencidas e encerra os planos de reservas
+ * que não vão mais ser pagas (canceladas ou no-show).
+ * Retorna quantas parcelas venceram.
+ */
+export async function markOverdueInstallments(): Promise<number> {
+  await pool.query(`
+    UPDATE payment_plans pl
+    SET status = 'CANCELLED',
+        cancelled_at = NOW()
+    FROM reservations r
+    WHERE r.id = pl.reservation_id
+      AND pl.status = 'ACTIVE'
+      AND r.status IN ('CANCELLED', 'NO_SHOW')
+  `);
+
+  const { rowCount } = await pool.query(`
+    UPDATE payment_installments i
+    SET status = 'OVERDUE'
+    FROM payment_plans pl
+    WHERE pl.id = i.plan_id
+      AND pl.status = 'ACTIVE'
+      AND i.status = 'PENDING'
+      AND i.due_date < CURRENT_DATE
+  `);
+  return rowCount ?? 0;
+}
+
+/**
+ * Job em background que vence parcelas periodicamente.
+ */
+export function startInstallmentSweeper() {
+  const timer = setInterval(() => {
+    markOverdueInstallments()
+      .then((overdue) => {
+        if (overdue > 0) console.log(`[installments] ${overdue} parcela(s) vencida(s)`);
+      })
+      .catch((err) => console.error('[installments] falha ao vencer parcelas', err));
+  }, INSTALLMENT_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,111 @@
+// src/services/paymentProvider.ts
+import { sandboxProvider } from './sandboxPaymentProvider';
+
+/**
+ * Contrato com os provedores (gateways) de pagamento.
+ *
+ * - createCharge: abre a cobrança; cartão pode voltar aprovado/recusado na
+ *   hora, PIX volta PENDING com o QR code e liquida depois
+ * - getCharge: consulta o status atual (reconciliação manual)
+ * - cancelCharge: cancela uma cobrança ainda PENDING (reserva cancelada);
+ *   se já foi paga, devolve a cobrança como está para o chamador reembolsar
+ * - refund: devolve parte ou todo o valor de uma cobrança paga
+ * - webhook: o provedor avisa mudanças de status por POST assinado
+ *   (signatureHeader + verifyWebhook); parseWebhook normaliza o evento
+ *
+ * O pagamento guarda provider + external_ref (id da cobrança no provedor).
+ */
+export type ProviderMethod = 'PIX' | 'CARD';
+
+export type ChargeStatus = 'PENDING' | 'PAID' | 'DECLINED' | 'CANCELLED' | 'REFUNDED';
+
+export type ChargeRequest = {
+  reference: string; // id do pagamento
+  amount: number;
+  method: ProviderMethod;
+  description: string;
+  payer?: { name?: string; email?: string };
+  card?: { number?: string; holder_name?: string };
+};
+
+export type PixInstructions = {
+  qr_code: string;    // payload BR Code ("copia e cola")
+  expires_at: string;
+};
+
+export type Charge = {
+  external_ref: string;
+  status: ChargeStatus;
+  method: ProviderMethod;
+  amount: number;
+  refunded_amount: number;
+  pix?: PixInstructions;
+  card_last4?: string;
+  decline_reason?: string;
+  paid_at?: string | null;
+};
+
+export type RefundRequest = {
+  external_ref: string;
+  amount: number;
+  reason?: string;
+  idempotency_key: string; // id do reembolso: o mesmo pedido reenviado não devolve duas vezes
+};
+
+export type ProviderRefund = {
+  refund_ref: string | null;
+  status: 'COMPLETED' | 'PENDING' | 'FAILED';
+  failure_reason?: string;
+};
+
+// sequence cresce a cada mudança da cobrança (ordena entregas fora de ordem)
+export type WebhookEvent = {
+  event_id: string;
+  external_ref: string;
+  status: ChargeStatus;
+  sequence: number;
+  amount: number;
+  refunded_amount: number;
+  occurred_at: string;
+};
+
+export interface PaymentProvider {
+  readonly name: string;
+  readonly methods: ProviderMethod[];
+  readonly signatureHeader: string;
+  createCharge(request: ChargeRequest): Promise<Charge>;
+  getCharge(externalRef: string): Promise<Charge | null>;
+  cancelCharge(externalRef: string): Promise<Charge | null>;
+  refund(request: RefundRequest): Promise<ProviderRefund>;
+  verifyWebhook(payload: string, signature: string | undefined): boolean;
+  parseWebhook(payload: string): WebhookEvent | null;
+}
+
+// provedor usado por registerPayment com charge = true (sem valor: nenhum)
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || '';
+
+// o sandbox aprova cobranças sem dinheiro de verdade: só existe quando pedido
+// (PAYMENT_PROVIDER=sandbox ou SANDBOX_PAYMENTS_ENABLED=true), nunca por padrão
+const SANDBOX_ENABLED =
+  PAYMENT_PROVIDER === sandboxProvider.name || process.env.SANDBOX_PAYMENTS_ENABLED === 'true';
+
+const PROVIDERS: Record<string, PaymentProvider> = SANDBOX_ENABLED
+  ? { [sandboxProvider.name]: sandboxProvider }
+  : {};
+
+/**
+ * Checagem de configuração na subida da API (server.ts): lança erro e a API
+ * não sobe se um provedor habilitado não tem o secret dos webhooks.
+ */
+export function assertPaymentProvidersConfigured() {
+  if (SANDBOX_ENABLED && !process.env.SANDBOX_WEBHOOK_SECRET) {
+    throw new Error('SANDBOX_WEBHOOK_SECRET é obrigatório com o provedor sandbox habilitado');
+  }
+  if (PAYMENT_PROVIDER && !PROVIDERS[PAYMENT_PROVIDER]) {
+    throw new Error(`PAYMENT_PROVIDER desconhecido: ${PAYMENT_PROVIDER}`);
+  }
+}
+
+export function getPaymentProvider(name: string = PAYMENT_PROVIDER): PaymentProvider | undefined {
+  return PROVIDERS[name];
+}
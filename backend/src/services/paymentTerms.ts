@@ -0,0 +1,184 @@
+// src/services/paymentTerms.ts
+import { pool } from '../db';
+import { cancelReservationWithRefund } from './cancellation';
+
+/**
+ * Regras de sinal e saldo da reserva.
+ *
+ * - sinal exigido = deposit_pct × total_amount (0% = sem sinal); reserva
+ *   criada sem deposit_pct (portal, lista de espera) usa DEFAULT_DEPOSIT_PCT
+ * - a reserva está garantida (secured) quando os pagamentos DEPOSIT pagos,
+ *   menos os reembolsos deles, chegam ao sinal exigido (ou quando o total
+ *   já foi pago, qualquer que seja a finalidade)
+ * - PENDING sem garantia expira DEPOSIT_DEADLINE_HOURS depois de entrar em
+ *   PENDING (nunca depois do início do evento) e é cancelada pela política
+ * - garantida, a reserva PENDING vira CONFIRMED (recomputeReservationStatus)
+ * - o saldo (BALANCE) vence BALANCE_DUE_DAYS antes do check-in
+ */
+export const DEFAULT_DEPOSIT_PCT =
+  process.env.DEFAULT_DEPOSIT_PCT && isValidDepositPct(process.env.DEFAULT_DEPOSIT_PCT)
+    ? Number(process.env.DEFAULT_DEPOSIT_PCT)
+    : 30;
+export const DEPOSIT_DEADLINE_HOURS = Number(process.env.DEPOSIT_DEADLINE_HOURS) || 48;
+export const BALANCE_DUE_DAYS = Number(process.env.BALANCE_DUE_DAYS) || 7;
+
+// intervalo entre execuções do sweeper (segundos)
+const DEPOSIT_SWEEP_INTERVAL_SECONDS = Number(process.env.DEPOSIT_SWEEP_INTERVAL_SECONDS) || 300;
+
+export type PaymentTerms = {
+  total_amount: number;
+  deposit_pct: number;
+  deposit_required: number;
+  deposit_paid: number;
+  paid: number;               // líquido (pagamentos - reembolsos)
+  secured: boolean;
+  deposit_due_at: Date | null; // só para PENDING sem garantia
+  balance_due: number;
+  balance_due_date: string;   // YYYY-MM-DD
+  balance_overdue: boolean;
+};
+
+export function isValidDepositPct(value: unknown): boolean {
+  const pct = Number(value);
+  return value !== null && value !== '' && Number.isFinite(pct) && pct >= 0 && pct <= 100;
+}
+
+// valor pago líquido da reserva r.id (opcionalmente só de uma finalidade)
+export function netPaidSql(purpose?: 'DEPOSIT' | 'BALANCE') {
+  const purposeFilter = purpose ? `AND p.purpose = '${purpose}'` : '';
+  return `
+    COALESCE((
+      SELECT SUM(p.amount) FROM payments p
+      WHERE p.reservation_id = r.id AND p.status IN ('PAID', 'REFUNDED') ${purposeFilter}
+    ), 0)
+    -
+    COALESCE((
+      SELECT SUM(rf.amount) FROM refunds rf
+      JOIN payments p ON p.id = rf.payment_id
+      WHERE rf.reservation_id = r.id AND rf.status <> 'FAILED' ${purposeFilter}
+    ), 0)
+  `;
+}
+
+// desde quando a reserva está PENDING (criação, conversão do HOLD ou rebaixamento)
+const PENDING_SINCE_SQL = `
+  COALESCE((
+    SELECT MAX(h.created_at)
+    FROM reservation_status_history h
+    WHERE h.reservation_id = r.id
+      AND h.to_status = 'PENDING'
+      AND h.from_status IS DISTINCT FROM 'PENDING'
+  ), r.created_at)
+`;
+
+// colunas calculadas sobre reservations r; $1 = horas do prazo do sinal, $2 = dias do saldo
+const TERMS_SQL = `
+  SELECT
+    r.id,
+    r.status,
+    r.total_amount::float8 AS total_amount,
+    r.deposit_pct::float8  AS deposit_pct,
+    (ROUND(r.total_amount * r.deposit_pct) / 100)::float8 AS deposit_required,
+    (${netPaidSql('DEPOSIT')})::float8 AS deposit_paid,
+    (${netPaidSql()})::float8 AS paid,
+    LEAST(
+      ${PENDING_SINCE_SQL} + make_interval(hours => $1::int),
+      r.check_in_date + r.start_time
+    ) AS deposit_deadline,
+    to_char(r.check_in_date - $2::int, 'YYYY-MM-DD') AS balance_due_date,
+    (r.check_in_date - $2::int) < CURRENT_DATE AS balance_past_due
+  FROM reservations r
+`;
+
+// linha de TERMS_SQL
+type TermsRow = {
+  id: string;
+  status: string;
+  total_amount: number;
+  deposit_pct: number;
+  deposit_required: number;
+  deposit_paid: number;
+  paid: number;
+  deposit_deadline: Date;
+  balance_due_date: string;
+  balance_past_due: boolean;
+};
+
+function toTerms(row: TermsRow): PaymentTerms {
+  const cents = (value: number) => Math.round(Number(value) * 100);
+
+  const totalCents = cents(row.total_amount);
+  const paidCents = cents(row.paid);
+  const secured =
+    cents(row.deposit_paid) >= cents(row.deposit_required) ||
+    (totalCents > 0 && paidCents >= totalCents);
+  const open = ['PENDING', 'CONFIRMED'].includes(row.status);
+  const balanceCents = Math.max(totalCents - paidCents, 0);
+
+  return {
+    total_amount: totalCents / 100,
+    deposit_pct: Number(row.deposit_pct),
+    deposit_required: cents(row.deposit_required) / 100,
+    deposit_paid: cents(row.deposit_paid) / 100,
+    paid: paidCents / 100,
+    secured,
+    deposit_due_at: row.status === 'PENDING' && !secured ? row.deposit_deadline : null,
+    balance_due: balanceCents / 100,
+    balance_due_date: row.balance_due_date,
+    balance_overdue: open && balanceCents > 0 && Boolean(row.balance_past_due),
+  };
+}
+
+export async function loadPaymentTerms(reservationId: string): Promise<PaymentTerms | null> {
+  const { rows } = await pool.query<TermsRow>(`${TERMS_SQL} WHERE r.id = $3`, [
+    DEPOSIT_DEADLINE_HOURS,
+    BALANCE_DUE_DAYS,
+    reservationId,
+  ]);
+  return rows[0] ? toTerms(rows[0]) : null;
+}
+
+/**
+ * Cancela as reservas PENDING cujo sinal não foi pago no prazo, pela
+ * política de cancelamento (o horário volta para a lista de espera).
+ * Retorna quantas foram canceladas.
+ */
+export async function expireUnsecuredReservations(): Promise<number> {
+  const { rows } = await pool.query(
+    `
+      SELECT id
+      FROM (${TERMS_SQL} WHERE r.status = 'PENDING') t
+      WHERE t.deposit_paid < t.deposit_required
+        AND t.paid < t.total_amount
+        AND t.deposit_deadline <= NOW()
+    `,
+    [DEPOSIT_DEADLINE_HOURS, BALANCE_DUE_DAYS],
+  );
+
+  let expired = 0;
+  for (const row of rows) {
+    const { result } = await cancelReservationWithRefund(row.id, {
+      actorId: null,
+      reason: 'deposit_not_paid',
+    });
+    if (result.ok) expired += 1;
+  }
+  return expired;
+}
+
+/**
+ * Job em background que expira reservas sem sinal periodicamente.
+ */
+export function startDepositSweeper() {
+  const timer = setInterval(() => {
+    expireUnsecuredReservations()
+      .then((expired) => {
+        if (expired > 0) console.log(`[deposits] ${expired} reserva(s) sem sinal expirada(s)`);
+      })
+      .catch((err) => console.error('[deposits] falha ao expirar reservas sem sinal', err));
+  }, DEPOSIT_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
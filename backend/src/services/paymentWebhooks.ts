@@ -0,0 +1,149 @@
+// src/services/paymentWebhooks.ts
+import { pool } from '../db';
+import { WebhookEvent } from './paymentProvider';
+import {
+  applyProviderStatus,
+  chargeToPaymentStatus,
+  PaymentRow,
+  PaymentStatus,
+  refundLateCapture,
+  settleReservation,
+} from './paymentCharges';
+
+/**
+ * Processa um aviso (já autenticado) do provedor de pagamentos.
+ *
+ * Com o pagamento travado (FOR UPDATE), o evento é:
+ * - UNMATCHED: nenhum pagamento com esse provider + external_ref
+ * - DUPLICATE: event_id já processado
+ * - STALE: sequence <= provider_sequence (chegou depois de um mais novo)
+ * - IGNORED: status sem efeito (PENDING, já aplicado ou transição inválida)
+ * - APPLIED: status aplicado via applyProviderStatus; PAID de pagamento já
+ *   CANCELLED (captura tardia) é gravado e reembolsado (detail late_capture)
+ *
+ * Todo evento é gravado em payment_webhook_events, na mesma transação.
+ */
+export type WebhookOutcome = 'APPLIED' | 'IGNORED' | 'DUPLICATE' | 'STALE' | 'UNMATCHED';
+
+export type WebhookResult = {
+  outcome: WebhookOutcome;
+  payment_id: string | null;
+  detail?: string | null;
+};
+
+export async function processPaymentWebhook(
+  providerName: string,
+  event: WebhookEvent,
+): Promise<WebhookResult> {
+  const client = await pool.connect();
+  let result: WebhookResult;
+  let applied: { reservation_id: string; to: PaymentStatus } | null = null;
+  let lateCapture: PaymentRow | null = null;
+
+  try {
+    await client.query('BEGIN');
+
+    const lookup = await client.query(
+      `
+        SELECT id, status, reservation_id, provider_sequence
+        FROM payments
+        WHERE provider = $1 AND external_ref = $2
+        FOR UPDATE
+      `,
+      [providerName, event.external_ref],
+    );
+    const payment = lookup.rows[0];
+
+    if (!payment) {
+      result = { outcome: 'UNMATCHED', payment_id: null };
+    } else {
+      const seen = await client.query(
+        `
+          SELECT 1
+          FROM payment_webhook_events
+          WHERE provider = $1 AND event_id = $2
+            AND outcome IN ('APPLIED', 'IGNORED', 'STALE')
+        `,
+        [providerName, event.event_id],
+      );
+
+      if (seen.rows[0]) {
+        result = { outcome: 'DUPLICATE', payment_id: payment.id };
+      } else if (event.sequence <= Number(payment.provider_sequence)) {
+        result = { outcome: 'STALE', payment_id: payment.id };
+      } else {
+        await client.query(
+          `
+            UPDATE payments
+            SET provider_sequence = $2,
+                provider_payload = jsonb_set(
+                  COALESCE(provider_payload, '{}'::jsonb), '{status}', to_jsonb($3::text)
+                )
+            WHERE id = $1
+          `,
+          [payment.id, event.sequence, event.status],
+        );
+
+        const to = chargeToPaymentStatus(event.status);
+        if (!to) {
+          result = { outcome: 'IGNORED', payment_id: payment.id, detail: 'no_status_change' };
+        } else if (payment.status === to) {
+          result = { outcome: 'IGNORED', payment_id: payment.id, detail: 'already_applied' };
+        } else {
+          const transition = await applyProviderStatus(client, payment.id, to, {
+            paidAt: to === 'PAID' ? event.occurred_at : null,
+          });
+          if (transition.ok) {
+            result = {
+              outcome: 'APPLIED',
+              payment_id: payment.id,
+              detail: transition.lateCapture ? 'late_capture' : null,
+            };
+            applied = { reservation_id: payment.reservation_id, to };
+            if (transition.lateCapture) lateCapture = transition.payment;
+          } else {
+            result = {
+              outcome: 'IGNORED',
+              payment_id: payment.id,
+              detail: `${transition.error}:${transition.from}`,
+            };
+          }
+        }
+      }
+    }
+
+    await client.query(
+      `
+        INSERT INTO payment_webhook_events
+          (provider, event_id, external_ref, payment_id, status, sequence, outcome, detail, payload)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `,
+      [
+        providerName,
+        event.event_id,
+        event.external_ref,
+        result.payment_id,
+        event.status,
+        event.sequence,
+        result.outcome,
+        result.detail ?? null,
+        JSON.stringify(event),
+      ],
+    );
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  if (applied) {
+    await settleReservation(applied, applied.to);
+  }
+  if (lateCapture) {
+    await refundLateCapture(lateCapture);
+  }
+  return result;
+}
@@ -0,0 +1,258 @@
+// src/services/pricing.ts
+import { pool } from '../db';
+import { ReservationPeriod } from './availability';
+
+/**
+ * Duração da reserva em horas, de (check_in_date + start_time)
+ * até (check_out_date + end_time). Retorna <= 0 se o período for inválido.
+ */
+export function reservationHours(period: ReservationPeriod): number {
+  const start = new Date(`${period.check_in_date}T${period.start_time}`);
+  const end = new Date(`${period.check_out_date}T${period.end_time}`);
+  return (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+}
+
+// ==================================================
+// Regras de preço por espaço
+// ==================================================
+
+// space_pricing_rules: campos nulos caem no price_per_hour do espaço / sem regra
+export type PricingRules = {
+  weekday_price_per_hour: number | null;
+  weekend_price_per_hour: number | null;
+  min_billable_hours: number | null;
+  extra_guest_threshold: number | null;
+  extra_guest_fee: number | null;
+};
+
+export type SurchargeKind = 'HOLIDAY' | 'SEASON';
+
+// space_price_surcharges: acréscimo percentual sobre as horas dentro do intervalo de datas
+export type Surcharge = {
+  id: string;
+  kind: SurchargeKind;
+  name: string;
+  start_date: string;
+  end_date: string;
+  surcharge_pct: number;
+};
+
+export type QuoteLineCode =
+  | 'BASE_WEEKDAY'
+  | 'BASE_WEEKEND'
+  | 'HOLIDAY'
+  | 'SEASON'
+  | 'MINIMUM_HOURS'
+  | 'EXTRA_GUESTS'
+  | 'COUPON'
+  | 'ADDON';
+
+export type QuoteLine = {
+  code: QuoteLineCode;
+  description: string;
+  date?: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+};
+
+// mesmo formato gravado em reservations.price_breakdown;
+// subtotal_amount/coupon só aparecem com cupom (services/coupons.ts)
+export type PriceQuote = {
+  hours: number;
+  billable_hours: number;
+  lines: QuoteLine[];
+  subtotal_amount?: number;
+  coupon?: { id: string; code: string; discount_amount: number };
+  total_amount: number;
+};
+
+export type SpacePricing = {
+  price_per_hour: number;
+  rules: PricingRules | null;
+  surcharges: Surcharge[];
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const WEEKDAY_NAMES = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// aritmética em UTC sobre datas/horas "locais", como em availability.ts
+function toMs(date: string, time: string): number {
+  return Date.parse(`${date}T${time.length === 5 ? `${time}:00` : time}Z`);
+}
+
+/**
+ * Carrega regras e acréscimos de vários espaços de uma vez (busca usa vários).
+ */
+export async function loadSpacePricing(spaceIds: string[]): Promise<Map<string, SpacePricing>> {
+  const pricing = new Map<string, SpacePricing>();
+  if (spaceIds.length === 0) return pricing;
+
+  const spaces = await pool.query(
+    `
+      SELECT
+        s.id,
+        s.price_per_hour::float8 AS price_per_hour,
+        r.space_id IS NOT NULL AS has_rules,
+        r.weekday_price_per_hour::float8 AS weekday_price_per_hour,
+        r.weekend_price_per_hour::float8 AS weekend_price_per_hour,
+        r.min_billable_hours::float8 AS min_billable_hours,
+        r.extra_guest_threshold,
+        r.extra_guest_fee::float8 AS extra_guest_fee
+      FROM spaces s
+      LEFT JOIN space_pricing_rules r ON r.space_id = s.id
+      WHERE s.id = ANY($1::uuid[])
+    `,
+    [spaceIds],
+  );
+
+  for (const row of spaces.rows) {
+    pricing.set(row.id, {
+      price_per_hour: Number(row.price_per_hour),
+      rules: row.has_rules
+        ? {
+            weekday_price_per_hour: row.weekday_price_per_hour,
+            weekend_price_per_hour: row.weekend_price_per_hour,
+            min_billable_hours: row.min_billable_hours,
+            extra_guest_threshold: row.extra_guest_threshold,
+            extra_guest_fee: row.extra_guest_fee,
+          }
+        : null,
+      surcharges: [],
+    });
+  }
+
+  const surcharges = await pool.query(
+    `
+      SELECT
+        id, space_id, kind, name,
+        to_char(start_date, 'YYYY-MM-DD') AS start_date,
+        to_char(end_date, 'YYYY-MM-DD')   AS end_date,
+        surcharge_pct::float8 AS surcharge_pct
+      FROM space_price_surcharges
+      WHERE space_id = ANY($1::uuid[])
+      ORDER BY start_date ASC
+    `,
+    [spaceIds],
+  );
+
+  for (const row of surcharges.rows) {
+    const { space_id, ...surcharge } = row;
+    pricing.get(space_id)?.surcharges.push(surcharge);
+  }
+
+  return pricing;
+}
+
+/**
+ * Orçamento detalhado de um período (função pura).
+ *
+ * - horas de segunda a sexta: weekday_price_per_hour (ou price_per_hour do espaço)
+ * - sábado e domingo: weekend_price_per_hour (ou a tarifa de semana)
+ * - HOLIDAY / SEASON: surcharge_pct sobre o valor das horas nos dias cobertos
+ * - abaixo de min_billable_hours, a diferença é cobrada na tarifa do primeiro dia
+ * - extra_guest_fee por adulto acima de extra_guest_threshold (valor por reserva)
+ */
+export function buildQuote(
+  pricing: SpacePricing,
+  period: ReservationPeriod,
+  adultsCount: number,
+): PriceQuote {
+  const rules = pricing.rules;
+  const weekdayRate = rules?.weekday_price_per_hour ?? pricing.price_per_hour;
+  const weekendRate = rules?.weekend_price_per_hour ?? weekdayRate;
+
+  const start = toMs(period.check_in_date, period.start_time);
+  const end = toMs(period.check_out_date, period.end_time);
+  const hours = (end - start) / HOUR_MS;
+
+  const lines: QuoteLine[] = [];
+  let firstRate: number | null = null;
+
+  // quebra o período em dias de calendário
+  for (let cursor = start; cursor < end; ) {
+    const dayStart = cursor - (cursor % DAY_MS);
+    const segmentEnd = Math.min(dayStart + DAY_MS, end);
+    const segmentHours = (segmentEnd - cursor) / HOUR_MS;
+    const date = new Date(dayStart).toISOString().slice(0, 10);
+    const weekday = new Date(dayStart).getUTCDay();
+    const weekend = weekday === 0 || weekday === 6;
+    const rate = weekend ? weekendRate : weekdayRate;
+    const base = round2(segmentHours * rate);
+
+    if (firstRate === null) firstRate = rate;
+
+    lines.push({
+      code: weekend ? 'BASE_WEEKEND' : 'BASE_WEEKDAY',
+      description: `${date} (${WEEKDAY_NAMES[weekday]})`,
+      date,
+      quantity: round2(segmentHours),
+      unit_price: rate,
+      amount: base,
+    });
+
+    for (const surcharge of pricing.surcharges) {
+      if (date < surcharge.start_date || date > surcharge.end_date) continue;
+      lines.push({
+        code: surcharge.kind,
+        description: `${surcharge.name} (+${surcharge.surcharge_pct}%)`,
+        date,
+        quantity: round2(segmentHours),
+        unit_price: round2((rate * surcharge.surcharge_pct) / 100),
+        amount: round2((base * surcharge.surcharge_pct) / 100),
+      });
+    }
+
+    cursor = segmentEnd;
+  }
+
+  let billableHours = hours;
+  const minHours = rules?.min_billable_hours ?? 0;
+  if (hours > 0 && hours < minHours) {
+    const missing = minHours - hours;
+    billableHours = minHours;
+    lines.push({
+      code: 'MINIMUM_HOURS',
+      description: `Mínimo de ${minHours}h`,
+      quantity: round2(missing),
+      unit_price: firstRate ?? weekdayRate,
+      amount: round2(missing * (firstRate ?? weekdayRate)),
+    });
+  }
+
+  const threshold = rules?.extra_guest_threshold;
+  const fee = rules?.extra_guest_fee ?? 0;
+  if (threshold != null && fee > 0 && adultsCount > threshold) {
+    const extraGuests = adultsCount - threshold;
+    lines.push({
+      code: 'EXTRA_GUESTS',
+      description: `Adultos acima de ${threshold}`,
+      quantity: extraGuests,
+      unit_price: fee,
+      amount: round2(extraGuests * fee),
+    });
+  }
+
+  return {
+    hours: round2(hours),
+    billable_hours: round2(billableHours),
+    lines,
+    total_amount: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
+
+/**
+ * Atalho para um espaço só (criação/remarcação de reserva e POST /quote).
+ */
+export async function quoteForSpace(
+  spaceId: string,
+  period: ReservationPeriod,
+  adultsCount: number,
+): Promise<PriceQuote | null> {
+  const pricing = (await loadSpacePricing([spaceId])).get(spaceId);
+  return pricing ? buildQuote(pricing, period, adultsCount) : null;
+}
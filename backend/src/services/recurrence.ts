@@ -0,0 +1,106 @@
+// src/services/recurrence.ts
+import { ReservationPeriod } from './availability';
+
+/**
+ * Regra de recorrência das séries de reservas.
+ *
+ * - WEEKLY: a cada interval semanas, a partir do check-in da primeira ocorrência
+ * - MONTHLY: mesmo dia do mês a cada interval meses; meses sem esse dia
+ *   (ex.: 31) são pulados
+ * - termina em until (data inclusiva) e/ou após count ocorrências
+ *
+ * Cada ocorrência mantém os horários e a duração em dias da primeira.
+ */
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['WEEKLY', 'MONTHLY'];
+
+export type RecurrenceRule = {
+  frequency?: RecurrenceFrequency;
+  interval?: number;
+  until?: string;
+  count?: number;
+};
+
+// limite de ocorrências por série (evita gerar milhares de reservas por engano)
+export const SERIES_MAX_OCCURRENCES = Number(process.env.SERIES_MAX_OCCURRENCES ?? 104);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// aritmética de datas em UTC, como em availability.ts
+const toDay = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const fromDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+/**
+ * Valida a regra. Retorna o código de erro ou null.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule | undefined): string | null {
+  if (!rule || typeof rule !== 'object') return 'invalid_recurrence';
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) return 'invalid_recurrence_frequency';
+
+  if (rule.interval != null && (!Number.isInteger(Number(rule.interval)) || Number(rule.interval) <= 0)) {
+    return 'invalid_recurrence_interval';
+  }
+  if (rule.until == null && rule.count == null) return 'recurrence_end_required';
+  if (rule.until != null && (typeof rule.until !== 'string' || !DATE_RE.test(rule.until))) {
+    return 'invalid_recurrence_until';
+  }
+  if (rule.count != null) {
+    const count = Number(rule.count);
+    if (!Number.isInteger(count) || count <= 0) return 'invalid_recurrence_count';
+    if (count > SERIES_MAX_OCCURRENCES) return 'too_many_occurrences';
+  }
+  return null;
+}
+
+/**
+ * Gera os períodos de todas as ocorrências (a primeira incluída).
+ * Retorna null se passar de SERIES_MAX_OCCURRENCES.
+ */
+export function expandOccurrences(
+  first: ReservationPeriod,
+  rule: RecurrenceRule,
+): ReservationPeriod[] | null {
+  const interval = Number(rule.interval ?? 1);
+  const count = rule.count != null ? Number(rule.count) : Infinity;
+  const until = rule.until ? toDay(rule.until) : Infinity;
+
+  const firstDay = toDay(first.check_in_date);
+  const spanDays = Math.round((toDay(first.check_out_date) - firstDay) / DAY_MS);
+  const firstDate = new Date(firstDay);
+
+  const occurrences: ReservationPeriod[] = [];
+
+  for (let step = 0; occurrences.length < count; step++) {
+    let day: number;
+
+    if (rule.frequency === 'WEEKLY') {
+      day = firstDay + step * interval * 7 * DAY_MS;
+    } else {
+      const candidate = new Date(Date.UTC(
+        firstDate.getUTCFullYear(),
+        firstDate.getUTCMonth() + step * interval,
+        firstDate.getUTCDate(),
+      ));
+      // dia inexistente no mês (Date "transborda" para o mês seguinte)
+      if (candidate.getUTCDate() !== firstDate.getUTCDate()) {
+        if (candidate.getTime() > until) break;
+        continue;
+      }
+      day = candidate.getTime();
+    }
+
+    if (day > until) break;
+    if (occurrences.length >= SERIES_MAX_OCCURRENCES) return null;
+
+    occurrences.push({
+      check_in_date: fromDay(day),
+      check_out_date: fromDay(day + spanDays * DAY_MS),
+      start_time: first.start_time,
+      end_time: first.end_time,
+    });
+  }
+
+  return occurrences;
+}
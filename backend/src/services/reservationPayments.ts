@@ -0,0 +1,68 @@
+// src/services/reservationPayments.ts
+import { pool } from '../db';
+import { matchInstallments } from './paymentPlans';
+import { loadPaymentTerms } from './paymentTerms';
+import { changeReservationStatus } from './reservationStatus';
+
+/**
+ * Valor efetivamente pago na reserva: soma dos pagamentos PAID
+ * menos os reembolsos já feitos (FAILED não conta).
+ */
+export async function netPaidAmount(reservationId: string): Promise<number> {
+  const { rows } = await pool.query(
+    `
+      SELECT
+        COALESCE((
+          SELECT SUM(amount) FROM payments
+          WHERE reservation_id = $1 AND status IN ('PAID', 'REFUNDED')
+        ), 0)::float8
+        -
+        COALESCE((
+          SELECT SUM(amount) FROM refunds
+          WHERE reservation_id = $1 AND status <> 'FAILED'
+        ), 0)::float8 AS net_paid
+    `,
+    [reservationId],
+  );
+  return Number(rows[0].net_paid);
+}
+
+/**
+ * Helper: recalcula status da reserva pelo sinal (ver loadPaymentTerms).
+ * - PENDING, garantida (sinal pago ou total quitado) e com algo pago -> 'CONFIRMED'
+ * - CONFIRMED que perdeu a garantia (reembolso do sinal) -> volta para 'PENDING'
+ * - Senão mantém como está (a transição passa pela máquina de estados)
+ * Antes, casa os pagamentos com as parcelas do plano (se houver); quitada,
+ * a reserva deixa de estar em risco (at_risk_since, ver services/dunning.ts).
+ */
+export async function recomputeReservationStatus(reservationId: string, actorId?: string) {
+  await matchInstallments(reservationId);
+
+  const { rows } = await pool.query('SELECT status FROM reservations WHERE id = $1', [
+    reservationId,
+  ]);
+  const terms = await loadPaymentTerms(reservationId);
+
+  if (!rows[0] || !terms) {
+    return; // reserva não encontrada (não deve acontecer aqui)
+  }
+
+  if (terms.balance_due <= 0) {
+    await pool.query(
+      'UPDATE reservations SET at_risk_since = NULL WHERE id = $1 AND at_risk_since IS NOT NULL',
+      [reservationId],
+    );
+  }
+
+  if (rows[0].status === 'PENDING' && terms.secured && terms.paid > 0) {
+    await changeReservationStatus(reservationId, 'CONFIRMED', {
+      actorId,
+      reason: terms.balance_due <= 0 ? 'fully_paid' : 'deposit_paid',
+    });
+  } else if (rows[0].status === 'CONFIRMED' && !terms.secured) {
+    await changeReservationStatus(reservationId, 'PENDING', {
+      actorId,
+      reason: 'deposit_due',
+    });
+  }
+}
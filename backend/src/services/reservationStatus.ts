@@ -0,0 +1,195 @@
+// src/services/reservationStatus.ts
+import { PoolClient } from 'pg';
+import { pool } from '../db';
+import { notifyCustomer } from './notifications';
+import { publishReservationEvent } from './outboundWebhooks';
+
+/**
+ * Ciclo de vida da reserva.
+ *
+ *   HOLD ──> PENDING <──> CONFIRMED ──> CHECKED_IN ──> COMPLETED
+ *     │         │            │
+ *     │         │            └──> NO_SHOW
+ *     └─────────┴────────────┴──> CANCELLED
+ *
+ * CONFIRMED volta a PENDING quando o valor pago cai abaixo do total
+ * (reembolso parcial). COMPLETED, NO_SHOW e CANCELLED são finais.
+ */
+export type ReservationStatus =
+  | 'HOLD'
+  | 'PENDING'
+  | 'CONFIRMED'
+  | 'CHECKED_IN'
+  | 'COMPLETED'
+  | 'NO_SHOW'
+  | 'CANCELLED';
+
+export const RESERVATION_STATUSES: ReservationStatus[] = [
+  'HOLD',
+  'PENDING',
+  'CONFIRMED',
+  'CHECKED_IN',
+  'COMPLETED',
+  'NO_SHOW',
+  'CANCELLED',
+];
+
+const TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  HOLD: ['PENDING', 'CANCELLED'],
+  PENDING: ['CONFIRMED', 'NO_SHOW', 'CANCELLED'],
+  CONFIRMED: ['PENDING', 'CHECKED_IN', 'NO_SHOW', 'CANCELLED'],
+  CHECKED_IN: ['COMPLETED'],
+  COMPLETED: [],
+  NO_SHOW: [],
+  CANCELLED: [],
+};
+
+export function canTransition(from: ReservationStatus, to: ReservationStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isReservationStatus(value: unknown): value is ReservationStatus {
+  return RESERVATION_STATUSES.includes(value as ReservationStatus);
+}
+
+// quem fez a mudança (null = sistema/job) e por quê
+export type TransitionMeta = {
+  actorId?: string | null;
+  reason?: string | null;
+};
+
+// linha de reservations (RETURNING *); NUMERIC chega como string, DATE e TIMESTAMP como Date
+export type ReservationRow = {
+  id: string;
+  space_id: string;
+  branch_id: string;
+  customer_id: string;
+  check_in_date: Date;
+  check_out_date: Date;
+  start_time: string;
+  end_time: string;
+  adults_count: number;
+  status: ReservationStatus;
+  total_amount: string;
+  deposit_pct: string;
+  notes: string | null;
+  hold_expires_at: Date | null;
+  price_breakdown: Record<string, unknown> | null;
+  series_id: string | null;
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  at_risk_since: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  period: string;
+  blocked_period: string;
+};
+
+// ok = false traz error (e from, quando a reserva existe)
+export type TransitionResult = {
+  ok: boolean;
+  from?: ReservationStatus;
+  reservation?: ReservationRow;
+  error?: 'reservation_not_found' | 'invalid_status_transition';
+};
+
+// mudanças que viram aviso ao cliente e webhook; o cancelamento sai de
+// cancelReservationWithRefund, que já sabe o valor do reembolso
+function statusEvent(
+  from: ReservationStatus | null,
+  to: ReservationStatus,
+): 'reservation.created' | 'reservation.confirmed' | null {
+  if (to === 'PENDING' && (from === null || from === 'HOLD')) return 'reservation.created';
+  if (to === 'CONFIRMED' && from === 'PENDING') return 'reservation.confirmed';
+  return null;
+}
+
+/**
+ * Grava uma linha em reservation_status_history (e enfileira o aviso ao
+ * cliente e os webhooks, quando a mudança tem evento). from = null na
+ * criação da reserva.
+ */
+export async function recordStatusChange(
+  client: PoolClient,
+  reservationId: string,
+  from: ReservationStatus | null,
+  to: ReservationStatus,
+  meta: TransitionMeta = {},
+) {
+  await client.query(
+    `
+      INSERT INTO reservation_status_history
+        (reservation_id, from_status, to_status, actor_user_id, reason)
+      VALUES ($1, $2, $3, $4, $5)
+    `,
+    [reservationId, from, to, meta.actorId ?? null, meta.reason ?? null],
+  );
+
+  const event = statusEvent(from, to);
+  if (event) {
+    await notifyCustomer(client, event, reservationId);
+    await publishReservationEvent(client, event, reservationId);
+  }
+}
+
+/**
+ * Aplica a transição dentro de uma transação já aberta pelo chamador:
+ * trava a linha, valida contra TRANSITIONS, atualiza e registra o histórico.
+ */
+export async function applyTransition(
+  client: PoolClient,
+  reservationId: string,
+  to: ReservationStatus,
+  meta: TransitionMeta = {},
+): Promise<TransitionResult> {
+  const current = await client.query(
+    'SELECT status FROM reservations WHERE id = $1 FOR UPDATE',
+    [reservationId],
+  );
+
+  if (!current.rows[0]) {
+    return { ok: false, error: 'reservation_not_found' };
+  }
+
+  const from = current.rows[0].status as ReservationStatus;
+  if (!canTransition(from, to)) {
+    return { ok: false, error: 'invalid_status_transition', from };
+  }
+
+  const { rows } = await client.query<ReservationRow>(
+    `
+      UPDATE reservations
+      SET status = $2,
+          hold_expires_at = CASE WHEN $2::text = 'HOLD' THEN hold_expires_at ELSE NULL END,
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING *;
+    `,
+    [reservationId, to],
+  );
+
+  await recordStatusChange(client, reservationId, from, to, meta);
+  return { ok: true, from, reservation: rows[0] };
+}
+
+/**
+ * Mesmo que applyTransition, abrindo a própria transação.
+ */
+export async function changeReservationStatus(
+  reservationId: string,
+  to: ReservationStatus,
+  meta: TransitionMeta = {},
+): Promise<TransitionResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await applyTransition(client, reservationId, to, meta);
+    await client.query(result.ok ? 'COMMIT' : 'ROLLBACK');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
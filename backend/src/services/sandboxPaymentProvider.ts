@@ -0,0 +1,245 @@
+// src/services/sandboxPaymentProvider.ts
+import crypto from 'crypto';
+import { v4 as uuid } from 'uuid';
+import {
+  Charge,
+  ChargeRequest,
+  PaymentProvider,
+  ProviderRefund,
+  RefundRequest,
+  WebhookEvent,
+} from './paymentProvider';
+
+/**
+ * Provedor de testes, 100% local (sem rede, estado em memória).
+ *
+ * PIX: volta PENDING com um BR Code válido e liquida sozinho depois de
+ * SANDBOX_SETTLEMENT_SECONDS. Valores terminados em ,13 nunca são pagos e
+ * expiram (CANCELLED) em SANDBOX_PIX_EXPIRES_MINUTES.
+ *
+ * Cartão (pelo final do número):
+ * - 0002 recusado (card_declined); 9995 recusado (insufficient_funds)
+ * - 0077 fica PENDING (análise) e liquida como o PIX
+ * - qualquer outro (ou sem número) aprovado na hora
+ *
+ * Cada mudança gera um evento assinado (HMAC-SHA256 com
+ * SANDBOX_WEBHOOK_SECRET) enviado para SANDBOX_WEBHOOK_URL, se definido.
+ * Só é registrado quando habilitado e sem secret a API não sobe (ver
+ * paymentProvider.ts). Reiniciar a API apaga as cobranças do sandbox.
+ */
+const SETTLEMENT_SECONDS = Number(process.env.SANDBOX_SETTLEMENT_SECONDS) || 20;
+const PIX_EXPIRES_MINUTES = Number(process.env.SANDBOX_PIX_EXPIRES_MINUTES) || 30;
+const WEBHOOK_URL = process.env.SANDBOX_WEBHOOK_URL || '';
+const WEBHOOK_SECRET = process.env.SANDBOX_WEBHOOK_SECRET || '';
+const PIX_KEY = process.env.SANDBOX_PIX_KEY || 'pagamentos@meucantinho.dev';
+
+const DECLINED_CARDS: Record<string, string> = {
+  '0002': 'card_declined',
+  '9995': 'insufficient_funds',
+};
+const DELAYED_CARD = '0077';
+
+type SandboxCharge = Charge & { sequence: number };
+
+const charges = new Map<string, SandboxCharge>();
+
+// resposta de cada reembolso por idempotency_key (reenvio devolve a mesma)
+const refunds = new Map<string, ProviderRefund>();
+
+function sign(payload: string): string {
+  return `sha256=${crypto.createHmac('sha256', WEBHOOK_SECRET).update(payload).digest('hex')}`;
+}
+
+/* ==== BR Code (PIX copia e cola) ==== */
+
+// campo EMV: id + tamanho (2 dígitos) + valor
+const emv = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// CRC16-CCITT (0x1021, inicial 0xFFFF), exigido no campo 63
+function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function pixPayload(txid: string, amount: number): string {
+  const payload =
+    emv('00', '01') +
+    emv('26', emv('00', 'br.gov.bcb.pix') + emv('01', PIX_KEY)) +
+    emv('52', '0000') +
+    emv('53', '986') +
+    emv('54', amount.toFixed(2)) +
+    emv('58', 'BR') +
+    emv('59', 'MEU CANTINHO') +
+    emv('60', 'SAO PAULO') +
+    emv('62', emv('05', txid)) +
+    '6304';
+  return payload + crc16(payload);
+}
+
+/* ==== eventos ==== */
+
+function snapshot(charge: SandboxCharge): Charge {
+  const { sequence, ...rest } = charge;
+  return { ...rest };
+}
+
+function emit(charge: SandboxCharge) {
+  charge.sequence += 1;
+  if (!WEBHOOK_URL) return;
+
+  const event: WebhookEvent = {
+    event_id: uuid(),
+    external_ref: charge.external_ref,
+    status: charge.status,
+    sequence: charge.sequence,
+    amount: charge.amount,
+    refunded_amount: charge.refunded_amount,
+    occurred_at: new Date().toISOString(),
+  };
+  const payload = JSON.stringify(event);
+
+  fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [sandboxProvider.signatureHeader]: sign(payload) },
+    body: payload,
+  }).catch((err) => console.error('[sandbox-payments] falha ao entregar webhook', err));
+}
+
+// simula o pagador concluindo o PIX (ou a análise do cartão terminando)
+function scheduleSettlement(charge: SandboxCharge) {
+  setTimeout(() => {
+    if (charge.status !== 'PENDING') return;
+    charge.status = 'PAID';
+    charge.paid_at = new Date().toISOString();
+    emit(charge);
+  }, SETTLEMENT_SECONDS * 1000).unref();
+}
+
+function scheduleExpiration(charge: SandboxCharge) {
+  setTimeout(() => {
+    if (charge.status !== 'PENDING') return;
+    charge.status = 'CANCELLED';
+    emit(charge);
+  }, PIX_EXPIRES_MINUTES * 60 * 1000).unref();
+}
+
+function refundCharge(request: RefundRequest): ProviderRefund {
+  const charge = charges.get(request.external_ref);
+  if (!charge) return { refund_ref: null, status: 'FAILED', failure_reason: 'charge_not_found' };
+  if (charge.status !== 'PAID') {
+    return { refund_ref: null, status: 'FAILED', failure_reason: 'charge_not_paid' };
+  }
+
+  const amount = Math.round(request.amount * 100) / 100;
+  if (amount <= 0 || charge.refunded_amount + amount > charge.amount + 0.0001) {
+    return { refund_ref: null, status: 'FAILED', failure_reason: 'invalid_refund_amount' };
+  }
+
+  charge.refunded_amount = Math.round((charge.refunded_amount + amount) * 100) / 100;
+  if (charge.refunded_amount >= charge.amount) charge.status = 'REFUNDED';
+  emit(charge);
+
+  return { refund_ref: `sbx_rf_${uuid().replace(/-/g, '')}`, status: 'COMPLETED' };
+}
+
+export const sandboxProvider: PaymentProvider = {
+  name: 'sandbox',
+  methods: ['PIX', 'CARD'],
+  signatureHeader: 'x-sandbox-signature',
+
+  async createCharge(request: ChargeRequest): Promise<Charge> {
+    const externalRef = `sbx_${uuid().replace(/-/g, '')}`;
+    const amount = Math.round(request.amount * 100) / 100;
+
+    const charge: SandboxCharge = {
+      external_ref: externalRef,
+      status: 'PENDING',
+      method: request.method,
+      amount,
+      refunded_amount: 0,
+      paid_at: null,
+      sequence: 0,
+    };
+    charges.set(externalRef, charge);
+
+    if (request.method === 'PIX') {
+      charge.pix = {
+        qr_code: pixPayload(externalRef.slice(0, 25), amount),
+        expires_at: new Date(Date.now() + PIX_EXPIRES_MINUTES * 60 * 1000).toISOString(),
+      };
+      if (Math.round(amount * 100) % 100 !== 13) scheduleSettlement(charge);
+      scheduleExpiration(charge);
+    } else {
+      const digits = (request.card?.number ?? '').replace(/\D/g, '');
+      const last4 = digits.slice(-4);
+      charge.card_last4 = last4 || undefined;
+
+      if (DECLINED_CARDS[last4]) {
+        charge.status = 'DECLINED';
+        charge.decline_reason = DECLINED_CARDS[last4];
+      } else if (last4 === DELAYED_CARD) {
+        scheduleSettlement(charge);
+      } else {
+        charge.status = 'PAID';
+        charge.paid_at = new Date().toISOString();
+      }
+    }
+
+    emit(charge);
+    return snapshot(charge);
+  },
+
+  async getCharge(externalRef: string): Promise<Charge | null> {
+    const charge = charges.get(externalRef);
+    return charge ? snapshot(charge) : null;
+  },
+
+  async cancelCharge(externalRef: string): Promise<Charge | null> {
+    const charge = charges.get(externalRef);
+    if (!charge) return null;
+    if (charge.status === 'PENDING') {
+      charge.status = 'CANCELLED';
+      emit(charge);
+    }
+    return snapshot(charge);
+  },
+
+  async refund(request: RefundRequest): Promise<ProviderRefund> {
+    const previous = refunds.get(request.idempotency_key);
+    if (previous) return previous;
+    const result = refundCharge(request);
+    refunds.set(request.idempotency_key, result);
+    return result;
+  },
+
+  verifyWebhook(payload: string, signature: string | undefined): boolean {
+    if (!signature || !WEBHOOK_SECRET) return false;
+    const expected = Buffer.from(sign(payload));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  },
+
+  parseWebhook(payload: string): WebhookEvent | null {
+    try {
+      const event = JSON.parse(payload) as Partial<WebhookEvent>;
+      if (!event.event_id || !event.external_ref || !event.status) return null;
+      return {
+        event_id: String(event.event_id),
+        external_ref: String(event.external_ref),
+        status: event.status,
+        sequence: Number(event.sequence ?? 0),
+        amount: Number(event.amount ?? 0),
+        refunded_amount: Number(event.refunded_amount ?? 0),
+        occurred_at: String(event.occurred_at ?? new Date().toISOString()),
+      };
+    } catch {
+      return null;
+    }
+  },
+};
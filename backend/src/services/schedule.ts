@@ -0,0 +1,237 @@
+// src/services/schedule.ts
+import { pool } from '../db';
+import { freeIntervals, Interval, mergeIntervals, ReservationPeriod } from './availability';
+
+/**
+ * Horário de funcionamento e datas bloqueadas (blackouts).
+ *
+ * - a grade semanal do espaço, se existir, substitui a da filial por inteiro;
+ *   sem nenhuma grade o espaço funciona 24h
+ * - dia da semana sem turno na grade = fechado
+ * - blackouts da filial e do espaço bloqueiam dias inteiros
+ *
+ * Só o período do evento precisa caber no horário: os buffers de
+ * preparação/limpeza (services/availability.ts) podem cair fora dele.
+ */
+export type OpeningHour = {
+  weekday: number;    // 0 = domingo ... 6 = sábado
+  open_time: string;  // HH:MM
+  close_time: string; // HH:MM ('24:00' = fim do dia)
+};
+
+export type Blackout = {
+  id: string;
+  branch_id: string | null;
+  space_id: string | null;
+  start_date: string;
+  end_date: string;
+  reason: string;
+};
+
+// de onde veio a grade em vigor (null = sem grade, aberto 24h)
+export type ScheduleSource = 'SPACE' | 'BRANCH' | null;
+
+export type SpaceSchedule = {
+  source: ScheduleSource;
+  hours: OpeningHour[];
+  blackouts: Blackout[];
+};
+
+export type ScheduleViolation = {
+  status: number;
+  error: 'blackout_date' | 'outside_opening_hours';
+  details: Record<string, unknown>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// aritmética em UTC sobre timestamps "locais", como em availability.ts
+const toMs = (ts: string) => Date.parse(`${ts}Z`);
+const fromMs = (ms: number) => new Date(ms).toISOString().slice(0, 19);
+const toDay = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const fromDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// TIME '24:00' sai em minutos para não depender da formatação do to_char
+export const OPENING_HOUR_COLUMNS = `
+  weekday,
+  (EXTRACT(EPOCH FROM open_time) / 60)::int  AS open_minute,
+  (EXTRACT(EPOCH FROM close_time) / 60)::int AS close_minute
+`;
+
+export function toOpeningHour(row: {
+  weekday: number;
+  open_minute: number;
+  close_minute: number;
+}): OpeningHour {
+  return {
+    weekday: Number(row.weekday),
+    open_time: minutesToTime(Number(row.open_minute)),
+    close_time: minutesToTime(Number(row.close_minute)),
+  };
+}
+
+export const BLACKOUT_COLUMNS = `
+  id, branch_id, space_id,
+  to_char(start_date, 'YYYY-MM-DD') AS start_date,
+  to_char(end_date, 'YYYY-MM-DD')   AS end_date,
+  reason, created_by, created_at
+`;
+
+/**
+ * Carrega a grade em vigor e os blackouts (que terminam a partir de
+ * fromDate) de vários espaços de uma vez, como loadSpacePricing.
+ */
+export async function loadSpaceSchedules(
+  spaceIds: string[],
+  fromDate: string,
+): Promise<Map<string, SpaceSchedule>> {
+  const schedules = new Map<string, SpaceSchedule>();
+  if (spaceIds.length === 0) return schedules;
+
+  const spaces = await pool.query('SELECT id, branch_id FROM spaces WHERE id = ANY($1::uuid[])', [
+    spaceIds,
+  ]);
+  const branchIds = [...new Set(spaces.rows.map((space) => space.branch_id as string))];
+
+  const hours = await pool.query(
+    `
+      SELECT branch_id, space_id, ${OPENING_HOUR_COLUMNS}
+      FROM opening_hours
+      WHERE space_id = ANY($1::uuid[]) OR branch_id = ANY($2::uuid[])
+      ORDER BY weekday ASC, open_time ASC
+    `,
+    [spaceIds, branchIds],
+  );
+
+  const blackouts = await pool.query<Blackout>(
+    `
+      SELECT ${BLACKOUT_COLUMNS}
+      FROM blackout_dates
+      WHERE (space_id = ANY($1::uuid[]) OR branch_id = ANY($2::uuid[]))
+        AND end_date >= $3::date
+      ORDER BY start_date ASC
+    `,
+    [spaceIds, branchIds, fromDate],
+  );
+
+  for (const space of spaces.rows) {
+    const own = hours.rows.filter((row) => row.space_id === space.id);
+    const inherited = hours.rows.filter((row) => row.branch_id === space.branch_id);
+
+    let source: ScheduleSource = null;
+    if (own.length > 0) source = 'SPACE';
+    else if (inherited.length > 0) source = 'BRANCH';
+
+    schedules.set(space.id, {
+      source,
+      hours: (source === 'SPACE' ? own : inherited).map(toOpeningHour),
+      blackouts: blackouts.rows.filter(
+        (b) => b.space_id === space.id || b.branch_id === space.branch_id,
+      ),
+    });
+  }
+
+  return schedules;
+}
+
+function blackoutsBetween(schedule: SpaceSchedule, firstDate: string, lastDate: string): Blackout[] {
+  return schedule.blackouts.filter((b) => b.start_date <= lastDate && b.end_date >= firstDate);
+}
+
+/**
+ * Trechos abertos dentro da janela [from, to), já mesclados
+ * (turno até 24:00 emenda com o que abre 00:00 no dia seguinte).
+ */
+export function openIntervals(schedule: SpaceSchedule, from: string, to: string): Interval[] {
+  const windowStart = toMs(from);
+  const windowEnd = toMs(to);
+  const open: Interval[] = [];
+
+  for (let day = toDay(from.slice(0, 10)); day < windowEnd; day += DAY_MS) {
+    const date = fromDay(day);
+    if (blackoutsBetween(schedule, date, date).length > 0) continue;
+
+    const turns = schedule.source
+      ? schedule.hours
+          .filter((h) => h.weekday === new Date(day).getUTCDay())
+          .map((h) => [timeToMinutes(h.open_time), timeToMinutes(h.close_time)])
+      : [[0, 24 * 60]];
+
+    for (const [openMinute, closeMinute] of turns) {
+      const start = Math.max(day + openMinute * MINUTE_MS, windowStart);
+      const end = Math.min(day + closeMinute * MINUTE_MS, windowEnd);
+      if (end > start) open.push({ start: fromMs(start), end: fromMs(end) });
+    }
+  }
+
+  return mergeIntervals(open);
+}
+
+/**
+ * Trechos fechados (fora da grade ou em blackout) dentro da janela.
+ */
+export function closedIntervals(schedule: SpaceSchedule, from: string, to: string): Interval[] {
+  return freeIntervals(openIntervals(schedule, from, to), from, to);
+}
+
+/**
+ * Confere se o período cabe no funcionamento do espaço.
+ * Blackout tem prioridade (409 blackout_date, com o motivo); depois o
+ * horário (400 outside_opening_hours, com o primeiro trecho fechado e a grade).
+ */
+export function scheduleViolation(
+  schedule: SpaceSchedule,
+  period: ReservationPeriod,
+): ScheduleViolation | null {
+  const start = `${period.check_in_date}T${period.start_time}`;
+  const end = `${period.check_out_date}T${period.end_time}`;
+  // o último dia tocado pelo evento (terminar 00:00 não ocupa o dia)
+  const lastDate = fromMs(toMs(end) - 1).slice(0, 10);
+
+  const [blackout] = blackoutsBetween(schedule, period.check_in_date, lastDate);
+  if (blackout) {
+    return {
+      status: 409,
+      error: 'blackout_date',
+      details: {
+        start_date: blackout.start_date,
+        end_date: blackout.end_date,
+        reason: blackout.reason,
+      },
+    };
+  }
+
+  if (!schedule.source) return null;
+
+  const closed = closedIntervals(schedule, fromMs(toMs(start)), fromMs(toMs(end)));
+  if (closed.length > 0) {
+    return {
+      status: 400,
+      error: 'outside_opening_hours',
+      details: { closed: closed[0], opening_hours: schedule.hours },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Atalho para um espaço só (criação/remarcação de reserva).
+ */
+export async function checkSpaceSchedule(
+  spaceId: string,
+  period: ReservationPeriod,
+): Promise<ScheduleViolation | null> {
+  const schedule = (await loadSpaceSchedules([spaceId], period.check_in_date)).get(spaceId);
+  return schedule ? scheduleViolation(schedule, period) : null;
+}
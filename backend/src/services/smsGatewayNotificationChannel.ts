@@ -0,0 +1,37 @@
+// src/services/smsGatewayNotificationChannel.ts
+import type { NotificationChannel, OutgoingMessage } from './notificationChannel';
+
+/**
+ * Gateway de SMS genérico por HTTP.
+ *
+ * POST SMS_GATEWAY_URL com JSON { to, from, message } e, se houver
+ * SMS_GATEWAY_TOKEN, "Authorization: Bearer <token>". Qualquer resposta 2xx
+ * conta como enviado.
+ */
+const GATEWAY_URL = process.env.SMS_GATEWAY_URL || '';
+const GATEWAY_TOKEN = process.env.SMS_GATEWAY_TOKEN || '';
+const SENDER = process.env.SMS_SENDER || 'SeuCantinho';
+const TIMEOUT_MS = Number(process.env.SMS_GATEWAY_TIMEOUT_MS) || 10000;
+
+export const smsGatewayChannel: NotificationChannel = {
+  name: 'http',
+
+  async send(message: OutgoingMessage) {
+    if (!GATEWAY_URL) throw new Error('SMS_GATEWAY_URL não configurado');
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (GATEWAY_TOKEN) headers.Authorization = `Bearer ${GATEWAY_TOKEN}`;
+
+    const response = await fetch(GATEWAY_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ to: message.recipient, from: SENDER, message: message.body }),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw new Error(`gateway de SMS respondeu ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+  },
+};
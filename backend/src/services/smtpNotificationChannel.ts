@@ -0,0 +1,62 @@
+// src/services/smtpNotificationChannel.ts
+import nodemailer, { Transporter } from 'nodemailer';
+import type { NotificationChannel, OutgoingMessage } from './notificationChannel';
+import { isValidEmail } from './emailAddress';
+
+/**
+ * Envio de e-mail por SMTP (nodemailer).
+ *
+ * - SMTP_SECURE=true: TLS desde a conexão (porta 465)
+ * - senão conecta em texto e sobe para TLS com STARTTLS quando o servidor
+ *   oferece (porta 587); SMTP_REQUIRE_TLS=true recusa servidor sem STARTTLS
+ * - SMTP_USER/SMTP_PASSWORD: autenticação
+ *
+ * O destinatário é conferido de novo aqui (isValidEmail): endereço com
+ * CR/LF ou caracteres de controle nunca chega à sessão SMTP.
+ */
+const SMTP_HOST = process.env.SMTP_HOST || 'localhost';
+const SMTP_PORT = Number(process.env.SMTP_PORT) || 587;
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+const SMTP_REQUIRE_TLS = process.env.SMTP_REQUIRE_TLS === 'true';
+const SMTP_USER = process.env.SMTP_USER || '';
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD || '';
+const SMTP_FROM = process.env.SMTP_FROM || 'Seu Cantinho <nao-responda@seucantinho.local>';
+const SMTP_TIMEOUT_MS = Number(process.env.SMTP_TIMEOUT_MS) || 15000;
+
+// Message-ID = id do aviso (rastreável no servidor de e-mail)
+const FROM_DOMAIN = SMTP_FROM.match(/@([^>\s]+)/)?.[1] ?? 'localhost';
+
+let transporter: Transporter | null = null;
+
+// criado no primeiro envio: com o canal log, nada de SMTP é configurado
+function getTransporter(): Transporter {
+  transporter ??= nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    requireTLS: SMTP_REQUIRE_TLS,
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASSWORD } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+  return transporter;
+}
+
+export const smtpChannel: NotificationChannel = {
+  name: 'smtp',
+
+  async send(message: OutgoingMessage) {
+    if (!isValidEmail(message.recipient)) {
+      throw new Error('destinatário de e-mail inválido');
+    }
+
+    await getTransporter().sendMail({
+      from: SMTP_FROM,
+      to: message.recipient,
+      subject: message.subject ?? '',
+      text: message.body,
+      messageId: `<${message.id}@${FROM_DOMAIN}>`,
+    });
+  },
+};
@@ -0,0 +1,214 @@
+// src/services/waitlist.ts
+import { pool } from '../db';
+import { isOverlapViolation, ReservationPeriod } from './availability';
+import { evaluateSlot, insertReservation } from './booking';
+import { notifyCustomer } from './notifications';
+
+/**
+ * Lista de espera por espaço/horário.
+ *
+ * - WAITING: na fila, por ordem de chegada (created_at)
+ * - OFFERED: o horário vagou e o cliente recebeu um HOLD com prazo
+ *   (WAITLIST_OFFER_MINUTES); converter o HOLD aceita a oferta
+ * - ACCEPTED: o HOLD virou reserva
+ * - EXPIRED: a oferta venceu/foi recusada, ou o horário já passou
+ * - CANCELLED: o cliente saiu da fila
+ *
+ * Oferta vencida libera o horário e a próxima entrada compatível é promovida.
+ */
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'ACCEPTED' | 'EXPIRED' | 'CANCELLED';
+
+export const WAITLIST_STATUSES: WaitlistStatus[] = [
+  'WAITING',
+  'OFFERED',
+  'ACCEPTED',
+  'EXPIRED',
+  'CANCELLED',
+];
+
+// entradas que ainda ocupam lugar na fila
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['WAITING', 'OFFERED'];
+
+// prazo para o cliente aceitar a oferta (minutos)
+export const WAITLIST_OFFER_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 60;
+
+// intervalo entre execuções do sweeper (segundos)
+const WAITLIST_SWEEP_INTERVAL_SECONDS = Number(process.env.WAITLIST_SWEEP_INTERVAL_SECONDS) || 60;
+
+export type WaitlistEntry = ReservationPeriod & {
+  id: string;
+  space_id: string;
+  branch_id: string;
+  customer_id: string;
+  adults_count: number;
+  notes: string | null;
+  status: WaitlistStatus;
+  offered_reservation_id: string | null;
+  offer_expires_at: string | null;
+};
+
+const ENTRY_COLUMNS = `
+  id, space_id, branch_id, customer_id,
+  to_char(check_in_date, 'YYYY-MM-DD') AS check_in_date,
+  to_char(check_out_date, 'YYYY-MM-DD') AS check_out_date,
+  to_char(start_time, 'HH24:MI') AS start_time,
+  to_char(end_time, 'HH24:MI') AS end_time,
+  adults_count, notes, status, offered_reservation_id, offered_at, offer_expires_at,
+  created_at, updated_at
+`;
+
+export const WAITLIST_SELECT = `SELECT ${ENTRY_COLUMNS} FROM waitlist_entries`;
+
+/**
+ * Atualiza as ofertas em aberto conforme o HOLD oferecido:
+ * convertido -> ACCEPTED; vencido, cancelado ou removido -> EXPIRED.
+ * Entradas WAITING cujo horário já começou também expiram.
+ */
+export async function syncWaitlistOffers(): Promise<void> {
+  await pool.query(`
+    UPDATE waitlist_entries w
+    SET status = CASE
+          WHEN r.status IS NULL OR r.status IN ('HOLD', 'CANCELLED') THEN 'EXPIRED'
+          ELSE 'ACCEPTED'
+        END,
+        updated_at = NOW()
+    FROM waitlist_entries o
+    LEFT JOIN reservations r ON r.id = o.offered_reservation_id
+    WHERE w.id = o.id
+      AND w.status = 'OFFERED'
+      AND (r.id IS NULL OR r.status <> 'HOLD' OR r.hold_expires_at <= NOW())
+  `);
+
+  await pool.query(`
+    UPDATE waitlist_entries
+    SET status = 'EXPIRED', updated_at = NOW()
+    WHERE status = 'WAITING'
+      AND (check_in_date + start_time) <= NOW()
+  `);
+}
+
+/**
+ * Oferece o horário às entradas WAITING do espaço, por ordem de chegada.
+ * Cada entrada cujo período está livre recebe um HOLD em nome do cliente;
+ * como o HOLD bloqueia o horário, as entradas seguintes que se sobrepõem
+ * continuam esperando. Retorna as entradas promovidas.
+ */
+export async function promoteWaitlist(spaceId: string): Promise<WaitlistEntry[]> {
+  const { rows } = await pool.query<WaitlistEntry>(
+    `
+      ${WAITLIST_SELECT}
+      WHERE space_id = $1
+        AND status = 'WAITING'
+        AND (check_in_date + start_time) > NOW()
+      ORDER BY created_at ASC
+    `,
+    [spaceId],
+  );
+
+  const offered: WaitlistEntry[] = [];
+
+  for (const entry of rows) {
+    const slot = await evaluateSlot(spaceId, {
+      check_in_date: entry.check_in_date,
+      check_out_date: entry.check_out_date,
+      start_time: entry.start_time,
+      end_time: entry.end_time,
+      adults_count: entry.adults_count,
+    });
+    // ainda ocupado (ou espaço inativo/capacidade reduzida): segue na fila
+    if (!slot.ok) continue;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // outra promoção (cancelamento simultâneo ou sweeper) pode ter chegado antes
+      const current = await client.query(
+        'SELECT status FROM waitlist_entries WHERE id = $1 FOR UPDATE',
+        [entry.id],
+      );
+      if (current.rows[0]?.status !== 'WAITING') {
+        await client.query('ROLLBACK');
+        continue;
+      }
+
+      const hold = await insertReservation(client, {
+        spaceId,
+        branchId: slot.branch_id,
+        customerId: entry.customer_id,
+        period: slot.period,
+        adultsCount: entry.adults_count,
+        notes: entry.notes,
+        quote: slot.quote,
+        items: [],
+        holdMinutes: WAITLIST_OFFER_MINUTES,
+      });
+
+      const updated = await client.query<WaitlistEntry>(
+        `
+          UPDATE waitlist_entries
+          SET status = 'OFFERED',
+              offered_reservation_id = $2,
+              offered_at = NOW(),
+              offer_expires_at = $3,
+              updated_at = NOW()
+          WHERE id = $1
+          RETURNING ${ENTRY_COLUMNS}
+        `,
+        [entry.id, hold.id, hold.hold_expires_at],
+      );
+
+      await notifyCustomer(client, 'waitlist.offered', hold.id, {
+        hold_expires_at: hold.hold_expires_at,
+      });
+
+      await client.query('COMMIT');
+
+      offered.push(updated.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      // alguém reservou o horário entre a checagem e o INSERT
+      if (!isOverlapViolation(err)) throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  return offered;
+}
+
+/**
+ * Varre todos os espaços com fila: fecha ofertas vencidas e promove as
+ * próximas entradas (cobre horários liberados fora de cancelReservation,
+ * como HOLDs vencidos).
+ */
+export async function processWaitlist(): Promise<number> {
+  await syncWaitlistOffers();
+
+  const { rows } = await pool.query(
+    "SELECT DISTINCT space_id FROM waitlist_entries WHERE status = 'WAITING'",
+  );
+
+  let offered = 0;
+  for (const { space_id } of rows) {
+    offered += (await promoteWaitlist(space_id)).length;
+  }
+  return offered;
+}
+
+/**
+ * Job em background da lista de espera.
+ */
+export function startWaitlistSweeper() {
+  const timer = setInterval(() => {
+    processWaitlist()
+      .then((offered) => {
+        if (offered > 0) console.log(`[waitlist] ${offered} oferta(s) enviada(s)`);
+      })
+      .catch((err) => console.error('[waitlist] falha ao processar a lista de espera', err));
+  }, WAITLIST_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // não segura o processo vivo só por causa do job
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { pool } from '../src/db';
+import {
+  bucketize,
+  freeIntervals,
+  hasConflictingReservation,
+  isOverlapViolation,
+  mergeIntervals,
+  OVERLAP_CONSTRAINT,
+  overlapSql,
+} from '../src/services/availability';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('regra de sobreposição', () => {
+  it('usa intervalos semiabertos: encostar não conflita', () => {
+    const sql = overlapSql('$start', '$end');
+    expect(sql).toContain("buffer_before_minutes * INTERVAL '1 minute') < $end");
+    expect(sql).toContain("$start < (check_out_date + end_time + buffer_after_minutes");
+    expect(sql).not.toMatch(/<=/);
+  });
+
+  it('hasConflictingReservation ignora CANCELLED e a própria reserva', async () => {
+    const query = vi.spyOn(pool, 'query').mockResolvedValue({ rows: [], rowCount: 0 } as never);
+
+    const period = {
+      check_in_date: '2026-05-10',
+      check_out_date: '2026-05-10',
+      start_time: '18:00',
+      end_time: '23:00',
+    };
+    expect(await hasConflictingReservation('space-1', period, 'res-1')).toBe(false);
+
+    const [sql, params] = query.mock.calls[0] as unknown as [string, unknown[]];
+    expect(sql).toContain("status <> 'CANCELLED'");
+    expect(sql).toContain('id <> $6::uuid');
+    expect(params).toEqual(['space-1', '2026-05-10', '2026-05-10', '18:00', '23:00', 'res-1']);
+
+    query.mockResolvedValue({ rows: [{}], rowCount: 1 } as never);
+    expect(await hasConflictingReservation('space-1', period)).toBe(true);
+  });
+
+  it('isOverlapViolation só reconhece a constraint EXCLUDE de reservations', () => {
+    expect(isOverlapViolation({ code: '23P01', constraint: OVERLAP_CONSTRAINT })).toBe(true);
+    expect(isOverlapViolation({ code: '23P01', constraint: 'outra' })).toBe(false);
+    expect(isOverlapViolation({ code: '23505', constraint: OVERLAP_CONSTRAINT })).toBe(false);
+    expect(isOverlapViolation(undefined)).toBe(false);
+  });
+});
+
+describe('calendário de disponibilidade', () => {
+  it('mergeIntervals ordena, mescla os que se encostam e descarta vazios', () => {
+    expect(
+      mergeIntervals([
+        { start: '2026-05-10T14:00:00', end: '2026-05-10T16:00:00' },
+        { start: '2026-05-10T08:00:00', end: '2026-05-10T10:00:00' },
+        { start: '2026-05-10T10:00:00', end: '2026-05-10T11:00:00' },
+        { start: '2026-05-10T15:00:00', end: '2026-05-10T15:00:00' },
+      ]),
+    ).toEqual([
+      { start: '2026-05-10T08:00:00', end: '2026-05-10T11:00:00' },
+      { start: '2026-05-10T14:00:00', end: '2026-05-10T16:00:00' },
+    ]);
+  });
+
+  it('freeIntervals é o complemento dentro da janela', () => {
+    const busy = [
+      { start: '2026-05-10T08:00:00', end: '2026-05-10T11:00:00' },
+      { start: '2026-05-10T14:00:00', end: '2026-05-10T16:00:00' },
+    ];
+    expect(freeIntervals(busy, '2026-05-10T00:00:00', '2026-05-11T00:00:00')).toEqual([
+      { start: '2026-05-10T00:00:00', end: '2026-05-10T08:00:00' },
+      { start: '2026-05-10T11:00:00', end: '2026-05-10T14:00:00' },
+      { start: '2026-05-10T16:00:00', end: '2026-05-11T00:00:00' },
+    ]);
+  });
+
+  it('bucketize classifica FREE, PARTIAL, BUSY e CLOSED', () => {
+    const buckets = bucketize(
+      [{ start: '2026-05-10T09:00:00', end: '2026-05-10T10:30:00' }],
+      '2026-05-10T08:00:00',
+      '2026-05-10T12:00:00',
+      'hour',
+      [{ start: '2026-05-10T11:00:00', end: '2026-05-10T12:00:00' }],
+    );
+    expect(buckets.map((b) => b.status)).toEqual(['FREE', 'BUSY', 'PARTIAL', 'CLOSED']);
+  });
+});
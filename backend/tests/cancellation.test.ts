@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CancellationPolicy, computeRefund, pickTier } from '../src/services/cancellation';
+import { fakeClient } from './fakeDb';
+
+const policy: CancellationPolicy = {
+  id: 'pol-1',
+  name: 'Padrão',
+  branch_id: 'branch-1',
+  space_id: null,
+  tiers: [
+    { min_days_before: 30, refund_pct: 100, refund_deposit: true },
+    { min_days_before: 7, refund_pct: 50, refund_deposit: true },
+    { min_days_before: 0, refund_pct: 100, refund_deposit: false },
+  ],
+};
+
+describe('pickTier', () => {
+  it('vale a maior faixa atingida', () => {
+    expect(pickTier(policy, 45)).toBe(policy.tiers[0]);
+    expect(pickTier(policy, 30)).toBe(policy.tiers[0]);
+    expect(pickTier(policy, 29)).toBe(policy.tiers[1]);
+    expect(pickTier(policy, 0)).toBe(policy.tiers[2]);
+  });
+
+  it('abaixo de todas as faixas nada é devolvido; sem política, reembolso integral', () => {
+    expect(pickTier(policy, -1)).toBeNull();
+    expect(pickTier(null, -1)).toEqual({ min_days_before: 0, refund_pct: 100, refund_deposit: true });
+  });
+});
+
+// pagamentos já na ordem do SELECT de computeRefund: BALANCE antes do DEPOSIT
+function refundClient(daysBefore: number, payments: { id: string; purpose: string; net_paid: number }[]) {
+  return fakeClient([
+    {
+      match: /AS days_before/,
+      rows: [{ space_id: 'space-1', branch_id: 'branch-1', days_before: daysBefore }],
+    },
+    {
+      match: /FROM cancellation_policies/,
+      rows: [{ id: policy.id, name: policy.name, branch_id: policy.branch_id, space_id: null }],
+    },
+    { match: /FROM cancellation_policy_tiers/, rows: policy.tiers },
+    { match: /AS net_paid/, rows: payments },
+  ]);
+}
+
+describe('computeRefund', () => {
+  it('reserva inexistente', async () => {
+    expect(await computeRefund(fakeClient(), 'res-1')).toBeNull();
+  });
+
+  it('aplica o percentual da faixa, devolvendo o BALANCE antes do sinal', async () => {
+    const client = refundClient(10, [
+      { id: 'bal', purpose: 'BALANCE', net_paid: 300 },
+      { id: 'dep', purpose: 'DEPOSIT', net_paid: 100.01 },
+    ]);
+
+    const breakdown = await computeRefund(client, 'res-1');
+
+    expect(breakdown).toMatchObject({
+      policy: { id: 'pol-1', scope: 'BRANCH' },
+      days_before_check_in: 10,
+      paid_total: 400.01,
+      refundable_base: 400.01,
+      refund_total: 200.01, // 50% de 40001 centavos, arredondado
+      retained_total: 200,
+    });
+    expect(breakdown.lines).toEqual([
+      { payment_id: 'bal', purpose: 'BALANCE', paid: 300, refund: 200.01 },
+      { payment_id: 'dep', purpose: 'DEPOSIT', paid: 100.01, refund: 0 },
+    ]);
+  });
+
+  it('faixa com refund_deposit = false retém o sinal', async () => {
+    const client = refundClient(2, [
+      { id: 'bal', purpose: 'BALANCE', net_paid: 300 },
+      { id: 'dep', purpose: 'DEPOSIT', net_paid: 100 },
+    ]);
+
+    const breakdown = await computeRefund(client, 'res-1');
+
+    expect(breakdown).toMatchObject({ refundable_base: 300, refund_total: 300, retained_total: 100 });
+    expect(breakdown.lines.map((l) => l.refund)).toEqual([300, 0]);
+  });
+
+  it('fora de todas as faixas retém tudo e ignora pagamentos já devolvidos', async () => {
+    const client = refundClient(-1, [
+      { id: 'bal', purpose: 'BALANCE', net_paid: 250 },
+      { id: 'old', purpose: 'BALANCE', net_paid: 0 },
+    ]);
+
+    const breakdown = await computeRefund(client, 'res-1');
+
+    expect(breakdown).toMatchObject({ tier: null, paid_total: 250, refund_total: 0, retained_total: 250 });
+    expect(breakdown.lines).toHaveLength(1);
+  });
+});
@@ -0,0 +1,32 @@
+// tests/fakeDb.ts
+import { PoolClient } from 'pg';
+
+/**
+ * Cliente pg de mentira para os testes: cada query é comparada, na ordem,
+ * com as regras (regex sobre o SQL) e devolve as linhas da primeira que
+ * casar; sem regra, devolve nenhuma linha. Todas as chamadas ficam em calls.
+ */
+export type FakeRule = {
+  match: RegExp;
+  rows: unknown[] | ((params: unknown[]) => unknown[]);
+};
+
+export type FakeClient = PoolClient & { calls: { sql: string; params: unknown[] }[] };
+
+export function fakeClient(rules: FakeRule[] = []): FakeClient {
+  const calls: { sql: string; params: unknown[] }[] = [];
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    calls.push({ sql, params });
+    const rule = rules.find((r) => r.match.test(sql));
+    const rows = !rule ? [] : typeof rule.rows === 'function' ? rule.rows(params) : rule.rows;
+    return { rows, rowCount: rows.length };
+  };
+
+  return { calls, query, release: () => undefined } as unknown as FakeClient;
+}
+
+// SQL das chamadas que casam com o padrão (para conferir o que foi gravado)
+export function queriesMatching(client: FakeClient, match: RegExp) {
+  return client.calls.filter((c) => match.test(c.sql));
+}
@@ -0,0 +1,225 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.SANDBOX_PAYMENTS_ENABLED = 'true';
+  process.env.SANDBOX_WEBHOOK_SECRET = 'test-secret';
+});
+
+import { pool } from '../src/db';
+import {
+  applyProviderStatus,
+  chargeToPaymentStatus,
+  refundInTransaction,
+  refundPayment,
+  transitionPayment,
+} from '../src/services/paymentCharges';
+import { sandboxProvider } from '../src/services/sandboxPaymentProvider';
+import { fakeClient, FakeRule, queriesMatching } from './fakeDb';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('chargeToPaymentStatus', () => {
+  it('mapeia o status da cobrança no do pagamento', () => {
+    expect(chargeToPaymentStatus('PAID')).toBe('PAID');
+    expect(chargeToPaymentStatus('DECLINED')).toBe('CANCELLED');
+    expect(chargeToPaymentStatus('CANCELLED')).toBe('CANCELLED');
+    expect(chargeToPaymentStatus('REFUNDED')).toBe('REFUNDED');
+    expect(chargeToPaymentStatus('PENDING')).toBeNull();
+  });
+});
+
+const lockedAs = (status: string): FakeRule => ({
+  match: /SELECT status FROM payments WHERE id = \$1 FOR UPDATE/,
+  rows: [{ status }],
+});
+
+describe('transitionPayment', () => {
+  it('só aceita PENDING -> PAID/CANCELLED e PAID -> REFUNDED', async () => {
+    for (const [from, to] of [
+      ['PAID', 'PENDING'],
+      ['CANCELLED', 'PAID'],
+      ['REFUNDED', 'PAID'],
+      ['PENDING', 'REFUNDED'],
+    ] as const) {
+      const client = fakeClient([lockedAs(from)]);
+      expect(await transitionPayment(client, 'pay-1', to)).toEqual({
+        ok: false,
+        error: 'invalid_payment_transition',
+        from,
+      });
+      expect(queriesMatching(client, /UPDATE payments/)).toHaveLength(0);
+    }
+  });
+
+  it('PENDING -> PAID grava paid_at', async () => {
+    const client = fakeClient([
+      lockedAs('PENDING'),
+      { match: /UPDATE payments/, rows: [{ id: 'pay-1', reservation_id: 'res-1', amount: 100, status: 'PAID' }] },
+    ]);
+
+    const result = await transitionPayment(client, 'pay-1', 'PAID', { paidAt: '2026-05-01T10:00:00Z' });
+
+    expect(result).toMatchObject({ ok: true, from: 'PENDING', payment: { status: 'PAID' } });
+    const [update] = queriesMatching(client, /UPDATE payments/);
+    expect(update.params).toEqual(['pay-1', 'PAID', '2026-05-01T10:00:00Z', null]);
+  });
+});
+
+describe('applyProviderStatus', () => {
+  it('PAID de pagamento CANCELLED é captura tardia', async () => {
+    const client = fakeClient([
+      lockedAs('CANCELLED'),
+      { match: /SET status = 'PAID'/, rows: [{ id: 'pay-1', amount: 80, status: 'PAID' }] },
+    ]);
+
+    const result = await applyProviderStatus(client, 'pay-1', 'PAID');
+
+    expect(result).toEqual({
+      ok: true,
+      from: 'CANCELLED',
+      payment: { id: 'pay-1', amount: 80, status: 'PAID' },
+      lateCapture: true,
+    });
+  });
+
+  it('demais transições inválidas continuam recusadas', async () => {
+    const client = fakeClient([lockedAs('REFUNDED')]);
+    expect(await applyProviderStatus(client, 'pay-1', 'CANCELLED')).toMatchObject({
+      ok: false,
+      error: 'invalid_payment_transition',
+    });
+  });
+});
+
+function lockedPayment(payment: Record<string, unknown>): FakeRule {
+  return { match: /AS refunded\s+FROM payments p\s+WHERE p\.id = \$1\s+FOR UPDATE/, rows: [payment] };
+}
+
+const paidPayment = {
+  status: 'PAID',
+  reservation_id: 'res-1',
+  provider: null,
+  external_ref: null,
+  amount: 200,
+  refunded: 50.5,
+};
+
+describe('refundInTransaction', () => {
+  it('só devolve pagamentos PAID', async () => {
+    const client = fakeClient([lockedPayment({ ...paidPayment, status: 'PENDING' })]);
+    expect(await refundInTransaction(client, 'pay-1', { amount: 10 })).toMatchObject({
+      ok: false,
+      status: 409,
+      error: 'payment_not_refundable',
+    });
+  });
+
+  it('nunca passa do que ainda não foi devolvido', async () => {
+    const client = fakeClient([lockedPayment(paidPayment)]);
+
+    expect(await refundInTransaction(client, 'pay-1', { amount: 149.51 })).toEqual({
+      ok: false,
+      status: 409,
+      error: 'refund_exceeds_paid',
+      details: { refundable: 149.5 },
+    });
+    expect(queriesMatching(client, /INSERT INTO refunds/)).toHaveLength(0);
+  });
+
+  it('pagamento manual é devolvido na hora (COMPLETED)', async () => {
+    const client = fakeClient([
+      lockedPayment(paidPayment),
+      { match: /INSERT INTO refunds/, rows: (params) => [{ id: 'rf-1', payment_id: 'pay-1', status: params[3] }] },
+    ]);
+
+    const result = await refundInTransaction(client, 'pay-1', { amount: 149.5 });
+
+    expect(result).toMatchObject({ ok: true, refund: { status: 'COMPLETED' } });
+    expect(result.awaitingProvider).toBeUndefined();
+  });
+
+  it('pagamento do provedor fica PENDING, sem chamar o provedor na transação', async () => {
+    const refund = vi.spyOn(sandboxProvider, 'refund');
+    const client = fakeClient([
+      lockedPayment({ ...paidPayment, provider: 'sandbox', external_ref: 'sbx_1' }),
+      { match: /INSERT INTO refunds/, rows: (params) => [{ id: 'rf-1', payment_id: 'pay-1', status: params[3] }] },
+    ]);
+
+    const result = await refundInTransaction(client, 'pay-1', { amount: 20 });
+
+    expect(result).toMatchObject({ ok: true, awaitingProvider: true, refund: { status: 'PENDING' } });
+    expect(refund).not.toHaveBeenCalled();
+  });
+
+  it('provedor não configurado não grava nada', async () => {
+    const client = fakeClient([lockedPayment({ ...paidPayment, provider: 'outro', external_ref: 'x' })]);
+    expect(await refundInTransaction(client, 'pay-1', { amount: 20 })).toMatchObject({
+      status: 503,
+      error: 'payment_provider_unavailable',
+    });
+    expect(queriesMatching(client, /INSERT INTO refunds/)).toHaveLength(0);
+  });
+});
+
+describe('refundPayment pelo provedor', () => {
+  it('chama o provedor depois do COMMIT, com o id do reembolso como chave de idempotência', async () => {
+    const charge = await sandboxProvider.createCharge({
+      reference: 'pay-1',
+      amount: 200,
+      method: 'CARD',
+      description: 'teste',
+      card: { number: '4111111111111111' },
+    });
+    const refundRow = { id: 'rf-1', payment_id: 'pay-1', reservation_id: 'res-1', amount: 20 };
+    const client = fakeClient([
+      lockedPayment({ ...paidPayment, provider: 'sandbox', external_ref: charge.external_ref }),
+      { match: /INSERT INTO refunds/, rows: (params) => [{ ...refundRow, status: params[3] }] },
+      {
+        match: /FROM refunds rf\s+JOIN payments p/,
+        rows: [{ id: 'rf-1', amount: 20, reason: null, provider: 'sandbox', external_ref: charge.external_ref }],
+      },
+      { match: /UPDATE refunds/, rows: (params) => [{ ...refundRow, status: params[1], external_ref: params[2] }] },
+      { match: /AS settled/, rows: [{ status: 'PAID', settled: false }] },
+      { match: /FROM payments WHERE id = \$1/, rows: [{ id: 'pay-1', status: 'PAID' }] },
+    ]);
+    vi.spyOn(pool, 'connect').mockResolvedValue(client as never);
+    vi.spyOn(pool, 'query').mockImplementation(client.query as never);
+
+    const order: string[] = [];
+    const realRefund = sandboxProvider.refund;
+    vi.spyOn(sandboxProvider, 'refund').mockImplementation(async (request) => {
+      order.push(`refund:${request.idempotency_key}`);
+      return realRefund(request);
+    });
+    const query = client.query;
+    client.query = (async (sql: string, params?: unknown[]) => {
+      if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql)) order.push(sql);
+      return query(sql, params);
+    }) as never;
+
+    const result = await refundPayment('pay-1', { amount: 20 });
+
+    expect(result).toMatchObject({ ok: true, refund: { status: 'COMPLETED' } });
+    expect(order.slice(0, 4)).toEqual(['BEGIN', 'COMMIT', 'refund:rf-1', 'BEGIN']);
+  });
+
+  it('o sandbox devolve a mesma resposta para a mesma chave', async () => {
+    const charge = await sandboxProvider.createCharge({
+      reference: 'pay-2',
+      amount: 50,
+      method: 'CARD',
+      description: 'teste',
+      card: { number: '4111111111111111' },
+    });
+    const request = { external_ref: charge.external_ref, amount: 50, idempotency_key: 'rf-2' };
+
+    const first = await sandboxProvider.refund(request);
+    const again = await sandboxProvider.refund(request);
+
+    expect(first.status).toBe('COMPLETED');
+    expect(again).toEqual(first);
+    expect((await sandboxProvider.getCharge(charge.external_ref)).refunded_amount).toBe(50);
+  });
+});
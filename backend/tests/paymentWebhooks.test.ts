@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { pool } from '../src/db';
+import { processPaymentWebhook } from '../src/services/paymentWebhooks';
+import { WebhookEvent } from '../src/services/paymentProvider';
+import { fakeClient, FakeRule, queriesMatching } from './fakeDb';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const event: WebhookEvent = {
+  event_id: 'evt-1',
+  external_ref: 'sbx_1',
+  status: 'PAID',
+  sequence: 3,
+  amount: 100,
+  refunded_amount: 0,
+  occurred_at: '2026-05-01T10:00:00Z',
+};
+
+function connectWith(rules: FakeRule[]) {
+  const client = fakeClient(rules);
+  vi.spyOn(pool, 'connect').mockResolvedValue(client as never);
+  return client;
+}
+
+const payment = (status: string, providerSequence = 2): FakeRule => ({
+  match: /SELECT id, status, reservation_id, provider_sequence/,
+  rows: [{ id: 'pay-1', status, reservation_id: 'res-1', provider_sequence: providerSequence }],
+});
+
+function recordedOutcome(client: ReturnType<typeof fakeClient>) {
+  const [insert] = queriesMatching(client, /INSERT INTO payment_webhook_events/);
+  return { outcome: insert.params[6], detail: insert.params[7] };
+}
+
+describe('processPaymentWebhook', () => {
+  it('cobrança desconhecida fica UNMATCHED', async () => {
+    const client = connectWith([]);
+    expect(await processPaymentWebhook('sandbox', event)).toEqual({ outcome: 'UNMATCHED', payment_id: null });
+    expect(recordedOutcome(client).outcome).toBe('UNMATCHED');
+  });
+
+  it('event_id já processado é DUPLICATE e não mexe no pagamento', async () => {
+    const client = connectWith([payment('PENDING'), { match: /FROM payment_webhook_events/, rows: [{}] }]);
+
+    expect(await processPaymentWebhook('sandbox', event)).toMatchObject({ outcome: 'DUPLICATE' });
+    expect(queriesMatching(client, /UPDATE payments/)).toHaveLength(0);
+  });
+
+  it('sequência antiga é STALE', async () => {
+    const client = connectWith([payment('PENDING', 3)]);
+
+    expect(await processPaymentWebhook('sandbox', event)).toMatchObject({ outcome: 'STALE' });
+    expect(queriesMatching(client, /UPDATE payments/)).toHaveLength(0);
+  });
+
+  it('status já aplicado é IGNORED', async () => {
+    const client = connectWith([payment('PAID')]);
+
+    expect(await processPaymentWebhook('sandbox', event)).toMatchObject({
+      outcome: 'IGNORED',
+      detail: 'already_applied',
+    });
+    expect(recordedOutcome(client)).toEqual({ outcome: 'IGNORED', detail: 'already_applied' });
+  });
+
+  it('transição inválida é IGNORED com o motivo', async () => {
+    connectWith([
+      payment('CANCELLED'),
+      { match: /SELECT status FROM payments WHERE id = \$1 FOR UPDATE/, rows: [{ status: 'CANCELLED' }] },
+    ]);
+
+    expect(await processPaymentWebhook('sandbox', { ...event, status: 'REFUNDED' })).toMatchObject({
+      outcome: 'IGNORED',
+      detail: 'invalid_payment_transition:CANCELLED',
+    });
+  });
+});
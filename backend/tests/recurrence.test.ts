@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandOccurrences,
+  SERIES_MAX_OCCURRENCES,
+  validateRecurrenceRule,
+} from '../src/services/recurrence';
+
+const first = {
+  check_in_date: '2026-01-31',
+  check_out_date: '2026-01-31',
+  start_time: '18:00',
+  end_time: '23:00',
+};
+
+describe('validateRecurrenceRule', () => {
+  it('exige frequência e um fim (until ou count)', () => {
+    expect(validateRecurrenceRule(undefined)).toBe('invalid_recurrence');
+    expect(validateRecurrenceRule({ frequency: 'DAILY' as never, count: 2 })).toBe(
+      'invalid_recurrence_frequency',
+    );
+    expect(validateRecurrenceRule({ frequency: 'WEEKLY' })).toBe('recurrence_end_required');
+    expect(validateRecurrenceRule({ frequency: 'WEEKLY', count: 3 })).toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'MONTHLY', until: '2026-12-31' })).toBeNull();
+  });
+
+  it('recusa interval, until e count inválidos', () => {
+    expect(validateRecurrenceRule({ frequency: 'WEEKLY', interval: 0, count: 2 })).toBe(
+      'invalid_recurrence_interval',
+    );
+    expect(validateRecurrenceRule({ frequency: 'WEEKLY', until: '31/12/2026' })).toBe(
+      'invalid_recurrence_until',
+    );
+    expect(validateRecurrenceRule({ frequency: 'WEEKLY', count: 1.5 })).toBe(
+      'invalid_recurrence_count',
+    );
+    expect(
+      validateRecurrenceRule({ frequency: 'WEEKLY', count: SERIES_MAX_OCCURRENCES + 1 }),
+    ).toBe('too_many_occurrences');
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('WEEKLY respeita interval e count, mantendo horários', () => {
+    const occurrences = expandOccurrences(
+      { ...first, check_in_date: '2026-03-02', check_out_date: '2026-03-02' },
+      { frequency: 'WEEKLY', interval: 2, count: 3 },
+    );
+    expect(occurrences.map((o) => o.check_in_date)).toEqual([
+      '2026-03-02',
+      '2026-03-16',
+      '2026-03-30',
+    ]);
+    expect(occurrences.every((o) => o.start_time === '18:00' && o.end_time === '23:00')).toBe(true);
+  });
+
+  it('mantém a duração em dias da primeira ocorrência', () => {
+    const occurrences = expandOccurrences(
+      { ...first, check_in_date: '2026-03-06', check_out_date: '2026-03-08' },
+      { frequency: 'WEEKLY', count: 2 },
+    );
+    expect(occurrences[1]).toMatchObject({ check_in_date: '2026-03-13', check_out_date: '2026-03-15' });
+  });
+
+  it('until é inclusivo', () => {
+    const occurrences = expandOccurrences(
+      { ...first, check_in_date: '2026-03-02', check_out_date: '2026-03-02' },
+      { frequency: 'WEEKLY', until: '2026-03-16' },
+    );
+    expect(occurrences.map((o) => o.check_in_date)).toEqual(['2026-03-02', '2026-03-09', '2026-03-16']);
+  });
+
+  it('MONTHLY pula os meses sem o dia (31)', () => {
+    const occurrences = expandOccurrences(first, { frequency: 'MONTHLY', until: '2026-08-31' });
+    expect(occurrences.map((o) => o.check_in_date)).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+      '2026-07-31',
+      '2026-08-31',
+    ]);
+  });
+
+  it('MONTHLY com count conta só as ocorrências geradas', () => {
+    const occurrences = expandOccurrences(first, { frequency: 'MONTHLY', count: 3 });
+    expect(occurrences.map((o) => o.check_in_date)).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+  });
+
+  it('devolve null quando passa do limite da série', () => {
+    expect(expandOccurrences(first, { frequency: 'WEEKLY', until: '2099-12-31' })).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTransition,
+  canTransition,
+  RESERVATION_STATUSES,
+  ReservationStatus,
+} from '../src/services/reservationStatus';
+import { fakeClient, queriesMatching } from './fakeDb';
+
+describe('canTransition', () => {
+  it('segue o ciclo de vida da reserva', () => {
+    expect(canTransition('HOLD', 'PENDING')).toBe(true);
+    expect(canTransition('PENDING', 'CONFIRMED')).toBe(true);
+    expect(canTransition('CONFIRMED', 'PENDING')).toBe(true);
+    expect(canTransition('CONFIRMED', 'CHECKED_IN')).toBe(true);
+    expect(canTransition('CHECKED_IN', 'COMPLETED')).toBe(true);
+
+    expect(canTransition('HOLD', 'CONFIRMED')).toBe(false);
+    expect(canTransition('PENDING', 'CHECKED_IN')).toBe(false);
+    expect(canTransition('CHECKED_IN', 'CANCELLED')).toBe(false);
+  });
+
+  it('COMPLETED, NO_SHOW e CANCELLED são finais', () => {
+    const finals: ReservationStatus[] = ['COMPLETED', 'NO_SHOW', 'CANCELLED'];
+    for (const from of finals) {
+      for (const to of RESERVATION_STATUSES) {
+        expect(canTransition(from, to)).toBe(false);
+      }
+    }
+  });
+});
+
+describe('applyTransition', () => {
+  it('reserva inexistente', async () => {
+    const client = fakeClient();
+    expect(await applyTransition(client, 'res-1', 'CONFIRMED')).toEqual({
+      ok: false,
+      error: 'reservation_not_found',
+    });
+  });
+
+  it('transição inválida não grava nada', async () => {
+    const client = fakeClient([{ match: /SELECT status FROM reservations/, rows: [{ status: 'CANCELLED' }] }]);
+
+    expect(await applyTransition(client, 'res-1', 'CONFIRMED')).toEqual({
+      ok: false,
+      error: 'invalid_status_transition',
+      from: 'CANCELLED',
+    });
+    expect(queriesMatching(client, /UPDATE reservations|INSERT INTO reservation_status_history/)).toHaveLength(0);
+  });
+
+  it('transição válida atualiza e registra o histórico', async () => {
+    const client = fakeClient([
+      { match: /SELECT status FROM reservations/, rows: [{ status: 'PENDING' }] },
+      { match: /UPDATE reservations/, rows: [{ id: 'res-1', status: 'CONFIRMED' }] },
+    ]);
+
+    const result = await applyTransition(client, 'res-1', 'CONFIRMED', {
+      actorId: 'user-1',
+      reason: 'deposit_paid',
+    });
+
+    expect(result).toMatchObject({ ok: true, from: 'PENDING', reservation: { status: 'CONFIRMED' } });
+    const [history] = queriesMatching(client, /INSERT INTO reservation_status_history/);
+    expect(history.params).toEqual(['res-1', 'PENDING', 'CONFIRMED', 'user-1', 'deposit_paid']);
+  });
+});
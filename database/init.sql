@@ -1,11 +1,15 @@
 -- ===========================================
 -- Seu Cantinho - init.sql 
--- Branches + Spaces + Customers + Reservations + Payments
+-- Branches + Spaces + Customers + Users + Reservations + Payments
 -- ===========================================
 
 -- Extensão para geração de UUIDs
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Necessária para combinar igualdade (space_id) e sobreposição de
+-- intervalos na mesma constraint EXCLUDE de reservations
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
 -- ===========================================
 -- BRANCHES (filiais)
 -- ===========================================
@@ -31,6 +35,9 @@ CREATE TABLE spaces (
   price_per_hour       NUMERIC(10,2) NOT NULL,
   cover_url            TEXT,
   active               BOOLEAN     NOT NULL DEFAULT TRUE,
+  -- preparação antes / limpeza depois de cada evento (bloqueia, não é cobrado)
+  buffer_before_minutes INT        NOT NULL DEFAULT 0,
+  buffer_after_minutes  INT        NOT NULL DEFAULT 0,
   created_at           TIMESTAMP   NOT NULL DEFAULT NOW(),
   updated_at           TIMESTAMP   NOT NULL DEFAULT NOW(),
 
@@ -39,13 +46,63 @@ CREATE TABLE spaces (
     ON DELETE CASCADE,
 
   CONSTRAINT chk_spaces_capacity CHECK (capacity > 0),
-  CONSTRAINT chk_spaces_price CHECK (price_per_hour >= 0)
+  CONSTRAINT chk_spaces_price CHECK (price_per_hour >= 0),
+  CONSTRAINT chk_spaces_buffers CHECK (buffer_before_minutes >= 0 AND buffer_after_minutes >= 0)
 );
 
 -- Índice otimizado
 CREATE INDEX idx_spaces_branch_active
   ON spaces (branch_id, active);
 
+-- ===========================================
+-- SPACE PRICING (regras dinâmicas de preço)
+-- ===========================================
+-- campos nulos: usa price_per_hour do espaço / regra desligada
+CREATE TABLE space_pricing_rules (
+  space_id               UUID PRIMARY KEY,
+  weekday_price_per_hour NUMERIC(10,2),
+  weekend_price_per_hour NUMERIC(10,2),
+  min_billable_hours     NUMERIC(5,2),
+  extra_guest_threshold  INT,
+  extra_guest_fee        NUMERIC(10,2),
+  updated_at             TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_space_pricing_rules_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT chk_space_pricing_rules_values CHECK (
+    COALESCE(weekday_price_per_hour, 0) >= 0
+    AND COALESCE(weekend_price_per_hour, 0) >= 0
+    AND COALESCE(min_billable_hours, 0) >= 0
+    AND COALESCE(extra_guest_threshold, 0) >= 0
+    AND COALESCE(extra_guest_fee, 0) >= 0
+  )
+);
+
+-- acréscimo percentual em feriados / temporadas (datas inclusivas)
+CREATE TABLE space_price_surcharges (
+  id             UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  space_id       UUID          NOT NULL,
+  kind           VARCHAR(10)   NOT NULL,
+  name           VARCHAR(120)  NOT NULL,
+  start_date     DATE          NOT NULL,
+  end_date       DATE          NOT NULL,
+  surcharge_pct  NUMERIC(5,2)  NOT NULL,
+  created_at     TIMESTAMP     NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_space_price_surcharges_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT chk_space_price_surcharges_kind CHECK (kind IN ('HOLIDAY', 'SEASON')),
+  CONSTRAINT chk_space_price_surcharges_dates CHECK (end_date >= start_date),
+  CONSTRAINT chk_space_price_surcharges_pct CHECK (surcharge_pct >= 0)
+);
+
+CREATE INDEX idx_space_price_surcharges_space
+  ON space_price_surcharges (space_id, start_date);
+
 -- ===========================================
 -- CUSTOMERS (clientes)
 -- ===========================================
@@ -60,6 +117,105 @@ CREATE TABLE customers (
 
 CREATE INDEX idx_customers_email ON customers (email);
 
+-- ===========================================
+-- USERS (contas de acesso à API)
+-- ===========================================
+CREATE TABLE users (
+  id             UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name           TEXT        NOT NULL,
+  email          TEXT        NOT NULL UNIQUE,
+  password_hash  TEXT        NOT NULL,
+  role           TEXT        NOT NULL,     -- ADMIN | MANAGER | CUSTOMER
+  customer_id    UUID        UNIQUE,       -- só para role = CUSTOMER (portal do cliente)
+  active         BOOLEAN     NOT NULL DEFAULT TRUE,
+  last_login_at  TIMESTAMP,
+  created_at     TIMESTAMP   NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_users_customer
+    FOREIGN KEY (customer_id) REFERENCES customers(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT chk_users_role CHECK (role IN ('ADMIN', 'MANAGER', 'CUSTOMER')),
+  CONSTRAINT chk_users_customer CHECK ((role = 'CUSTOMER') = (customer_id IS NOT NULL))
+);
+
+-- Refresh tokens (guardamos só o hash SHA-256 do token)
+CREATE TABLE refresh_tokens (
+  id           UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id      UUID        NOT NULL,
+  token_hash   TEXT        NOT NULL UNIQUE,
+  expires_at   TIMESTAMP   NOT NULL,
+  revoked_at   TIMESTAMP,
+  created_at   TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_refresh_tokens_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX idx_refresh_tokens_user ON refresh_tokens (user_id);
+
+-- ===========================================
+-- BRANCH_MANAGERS (quais filiais cada MANAGER administra)
+-- ===========================================
+CREATE TABLE branch_managers (
+  branch_id    UUID        NOT NULL,
+  user_id      UUID        NOT NULL,
+  created_at   TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (branch_id, user_id),
+
+  CONSTRAINT fk_branch_managers_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_branch_managers_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX idx_branch_managers_user ON branch_managers (user_id);
+
+-- ===========================================
+-- RESERVATION SERIES (reservas recorrentes)
+-- ===========================================
+-- Regra usada para gerar as ocorrências; cada uma é uma reserva comum
+-- com series_id apontando para cá.
+CREATE TABLE reservation_series (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  space_id        UUID        NOT NULL,
+  branch_id       UUID        NOT NULL,
+  customer_id     UUID        NOT NULL,
+  frequency       VARCHAR(10) NOT NULL,
+  interval_count  INT         NOT NULL DEFAULT 1,
+  until_date      DATE,
+  occurrences     INT,
+  start_time      TIME        NOT NULL,
+  end_time        TIME        NOT NULL,
+  created_by      UUID,
+  cancelled_at    TIMESTAMP,
+  created_at      TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_reservation_series_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_reservation_series_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id),
+
+  CONSTRAINT fk_reservation_series_customer
+    FOREIGN KEY (customer_id) REFERENCES customers(id),
+
+  CONSTRAINT fk_reservation_series_created_by
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_reservation_series_frequency CHECK (frequency IN ('WEEKLY', 'MONTHLY')),
+  CONSTRAINT chk_reservation_series_interval CHECK (interval_count > 0),
+  CONSTRAINT chk_reservation_series_end CHECK (until_date IS NOT NULL OR occurrences IS NOT NULL)
+);
+
 -- ===========================================
 -- RESERVATIONS (reservas)
 -- ===========================================
@@ -80,12 +236,42 @@ CREATE TABLE reservations (
 
   status               TEXT NOT NULL DEFAULT 'PENDING',
   total_amount         NUMERIC(10,2) NOT NULL,
-  deposit_pct          NUMERIC(5,2) NOT NULL DEFAULT 0,
+  deposit_pct          NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (deposit_pct BETWEEN 0 AND 100),
   notes                TEXT,
 
+  -- HOLD: bloqueio temporário do horário durante o checkout
+  hold_expires_at      TIMESTAMP,
+
+  -- orçamento detalhado usado no total_amount (services/pricing.ts)
+  price_breakdown      JSONB,
+
+  -- ocorrência de uma reserva recorrente
+  series_id            UUID,
+
+  -- buffers do espaço no momento da reserva/remarcação (minutos)
+  buffer_before_minutes INT NOT NULL DEFAULT 0,
+  buffer_after_minutes  INT NOT NULL DEFAULT 0,
+
+  -- saldo ainda em aberto depois do último lembrete de cobrança (services/dunning.ts)
+  at_risk_since        TIMESTAMP,
+
   created_at           TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at           TIMESTAMP NOT NULL DEFAULT NOW(),
 
+  -- intervalo ocupado [check_in_date + start_time, check_out_date + end_time)
+  period               TSRANGE GENERATED ALWAYS AS (
+                         tsrange(check_in_date + start_time, check_out_date + end_time, '[)')
+                       ) STORED,
+
+  -- período + buffers: é o que bloqueia o espaço para outras reservas
+  blocked_period       TSRANGE GENERATED ALWAYS AS (
+                         tsrange(
+                           check_in_date + start_time - buffer_before_minutes * INTERVAL '1 minute',
+                           check_out_date + end_time + buffer_after_minutes * INTERVAL '1 minute',
+                           '[)'
+                         )
+                       ) STORED,
+
   CONSTRAINT fk_reservations_space
     FOREIGN KEY (space_id) REFERENCES spaces(id)
     ON DELETE CASCADE,
@@ -96,6 +282,10 @@ CREATE TABLE reservations (
   CONSTRAINT fk_reservations_customer
     FOREIGN KEY (customer_id) REFERENCES customers(id),
 
+  CONSTRAINT fk_reservations_series
+    FOREIGN KEY (series_id) REFERENCES reservation_series(id)
+    ON DELETE SET NULL,
+
   CONSTRAINT chk_reservations_dates
     CHECK (check_out_date >= check_in_date),
 
@@ -103,7 +293,26 @@ CREATE TABLE reservations (
     CHECK (total_amount >= 0),
 
   CONSTRAINT chk_reservations_adults
-    CHECK (adults_count > 0)
+    CHECK (adults_count > 0),
+
+  CONSTRAINT chk_reservations_status
+    CHECK (status IN ('HOLD', 'PENDING', 'CONFIRMED', 'CHECKED_IN', 'COMPLETED', 'NO_SHOW', 'CANCELLED')),
+
+  CONSTRAINT chk_reservations_hold
+    CHECK (status <> 'HOLD' OR hold_expires_at IS NOT NULL),
+
+  CONSTRAINT chk_reservations_period
+    CHECK ((check_in_date + start_time) < (check_out_date + end_time)),
+
+  CONSTRAINT chk_reservations_buffers
+    CHECK (buffer_before_minutes >= 0 AND buffer_after_minutes >= 0),
+
+  -- garante no banco que duas reservas ativas do mesmo espaço nunca se
+  -- sobrepõem (buffers incluídos), mesmo com requisições simultâneas
+  -- (mesma regra de services/availability.ts: CANCELLED não bloqueia)
+  CONSTRAINT excl_reservations_space_period
+    EXCLUDE USING gist (space_id WITH =, blocked_period WITH &&)
+    WHERE (status <> 'CANCELLED')
 );
 
 -- Índices ajustados para o novo modelo (SEM date único)
@@ -119,6 +328,39 @@ CREATE INDEX idx_reservations_branch_checkin
 CREATE INDEX idx_reservations_customer
   ON reservations (customer_id);
 
+CREATE INDEX idx_reservations_series
+  ON reservations (series_id)
+  WHERE series_id IS NOT NULL;
+
+-- usado pelo sweeper de HOLDs vencidos
+CREATE INDEX idx_reservations_hold_expires
+  ON reservations (hold_expires_at)
+  WHERE status = 'HOLD';
+
+-- ===========================================
+-- RESERVATION STATUS HISTORY (auditoria do ciclo de vida)
+-- ===========================================
+CREATE TABLE reservation_status_history (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reservation_id  UUID NOT NULL,
+  from_status     TEXT,            -- NULL na criação da reserva
+  to_status       TEXT NOT NULL,
+  actor_user_id   UUID,            -- NULL quando feito por job do sistema
+  reason          TEXT,
+  created_at      TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_status_history_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_status_history_actor
+    FOREIGN KEY (actor_user_id) REFERENCES users(id)
+    ON DELETE SET NULL
+);
+
+CREATE INDEX idx_status_history_reservation
+  ON reservation_status_history (reservation_id, created_at);
+
 -- ===========================================
 -- PAYMENTS (múltiplos pagamentos por reserva)
 -- ===========================================
@@ -130,7 +372,10 @@ CREATE TABLE payments (
   status          TEXT NOT NULL,     -- PENDING | PAID | CANCELLED | REFUNDED
   purpose         TEXT NOT NULL,     -- DEPOSIT | BALANCE
   paid_at         TIMESTAMP,
-  external_ref    TEXT,
+  external_ref    TEXT,              -- id da cobrança no provedor
+  provider        TEXT,              -- ex.: sandbox (NULL = registro manual)
+  provider_payload JSONB,            -- QR code do PIX, final do cartão, motivo da recusa
+  provider_sequence INTEGER NOT NULL DEFAULT 0, -- último evento do provedor aplicado
   created_at      TIMESTAMP NOT NULL DEFAULT NOW(),
 
   CONSTRAINT fk_payments_reservation
@@ -145,3 +390,594 @@ CREATE TABLE payments (
 
 CREATE INDEX idx_payments_status_method
   ON payments (status, method);
+
+-- webhooks do provedor localizam o pagamento pelo id da cobrança
+CREATE UNIQUE INDEX uq_payments_provider_ref
+  ON payments (provider, external_ref)
+  WHERE provider IS NOT NULL AND external_ref IS NOT NULL;
+
+-- ===========================================
+-- PAYMENT WEBHOOK EVENTS (avisos recebidos do provedor)
+-- ===========================================
+-- toda entrega com assinatura válida fica registrada, inclusive repetidas
+-- (DUPLICATE) e atrasadas (STALE: sequence <= payments.provider_sequence)
+CREATE TABLE payment_webhook_events (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider        TEXT NOT NULL,
+  event_id        TEXT NOT NULL,
+  external_ref    TEXT NOT NULL,
+  payment_id      UUID,                -- NULL quando a cobrança não foi encontrada
+  status          TEXT NOT NULL,       -- status da cobrança no evento
+  sequence        INTEGER NOT NULL DEFAULT 0,
+  outcome         TEXT NOT NULL,       -- APPLIED | IGNORED | DUPLICATE | STALE | UNMATCHED
+  detail          TEXT,                -- ex.: invalid_payment_transition
+  payload         JSONB NOT NULL,
+  received_at     TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_payment_webhook_events_payment
+    FOREIGN KEY (payment_id) REFERENCES payments(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_payment_webhook_events_outcome
+    CHECK (outcome IN ('APPLIED', 'IGNORED', 'DUPLICATE', 'STALE', 'UNMATCHED'))
+);
+
+-- cada evento é processado uma vez; UNMATCHED pode ser reenviado
+CREATE UNIQUE INDEX uq_payment_webhook_events_processed
+  ON payment_webhook_events (provider, event_id)
+  WHERE outcome IN ('APPLIED', 'IGNORED', 'STALE');
+
+CREATE INDEX idx_payment_webhook_events_payment
+  ON payment_webhook_events (payment_id, received_at);
+
+-- ===========================================
+-- REFUNDS (reembolsos de pagamentos PAID)
+-- ===========================================
+CREATE TABLE refunds (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id      UUID NOT NULL,
+  reservation_id  UUID NOT NULL,
+  amount          NUMERIC(10,2) NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'COMPLETED',  -- PENDING | COMPLETED | FAILED
+  reason          TEXT,                               -- ex.: cancellation
+  external_ref    TEXT,                               -- id do reembolso no provedor
+  failure_reason  TEXT,                               -- motivo do provedor quando FAILED
+  submitted_at    TIMESTAMP,                          -- resposta do provedor gravada (NULL: ainda não respondeu)
+  created_by      UUID,                               -- NULL quando feito pelo sistema
+  created_at      TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_refunds_payment
+    FOREIGN KEY (payment_id) REFERENCES payments(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_refunds_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_refunds_created_by
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_refunds_amount CHECK (amount > 0),
+  CONSTRAINT chk_refunds_status CHECK (status IN ('PENDING', 'COMPLETED', 'FAILED'))
+);
+
+CREATE INDEX idx_refunds_payment
+  ON refunds (payment_id);
+
+CREATE INDEX idx_refunds_reservation
+  ON refunds (reservation_id);
+
+-- ===========================================
+-- PAYMENT PLANS (parcelamento do saldo da reserva)
+-- ===========================================
+-- um plano ativo por reserva; as parcelas somam o saldo em aberto na criação
+CREATE TABLE payment_plans (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reservation_id  UUID NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'ACTIVE',  -- ACTIVE | COMPLETED | CANCELLED
+  covered_amount  NUMERIC(10,2) NOT NULL,          -- já pago quando o plano foi criado
+  created_by      UUID,
+  created_at      TIMESTAMP NOT NULL DEFAULT NOW(),
+  cancelled_at    TIMESTAMP,
+
+  CONSTRAINT fk_payment_plans_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_payment_plans_created_by
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_payment_plans_status CHECK (status IN ('ACTIVE', 'COMPLETED', 'CANCELLED'))
+);
+
+CREATE UNIQUE INDEX uq_payment_plans_reservation_current
+  ON payment_plans (reservation_id)
+  WHERE status <> 'CANCELLED';
+
+CREATE TABLE payment_installments (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plan_id         UUID NOT NULL,
+  seq             INTEGER NOT NULL,                -- 1, 2, 3...
+  due_date        DATE NOT NULL,
+  amount          NUMERIC(10,2) NOT NULL,
+  paid_amount     NUMERIC(10,2) NOT NULL DEFAULT 0,
+  status          TEXT NOT NULL DEFAULT 'PENDING', -- PENDING | PAID | OVERDUE
+  paid_at         TIMESTAMP,
+
+  CONSTRAINT fk_payment_installments_plan
+    FOREIGN KEY (plan_id) REFERENCES payment_plans(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT uq_payment_installments_seq UNIQUE (plan_id, seq),
+  CONSTRAINT chk_payment_installments_amount CHECK (amount > 0),
+  CONSTRAINT chk_payment_installments_status CHECK (status IN ('PENDING', 'PAID', 'OVERDUE'))
+);
+
+CREATE INDEX idx_payment_installments_due
+  ON payment_installments (due_date)
+  WHERE status <> 'PAID';
+
+-- quanto de cada pagamento quitou cada parcela (refeito a cada mudança de pagamento)
+CREATE TABLE installment_allocations (
+  installment_id  UUID NOT NULL,
+  payment_id      UUID NOT NULL,
+  amount          NUMERIC(10,2) NOT NULL,
+
+  CONSTRAINT pk_installment_allocations PRIMARY KEY (installment_id, payment_id),
+
+  CONSTRAINT fk_installment_allocations_installment
+    FOREIGN KEY (installment_id) REFERENCES payment_installments(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_installment_allocations_payment
+    FOREIGN KEY (payment_id) REFERENCES payments(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT chk_installment_allocations_amount CHECK (amount > 0)
+);
+
+-- ===========================================
+-- PAYMENT REMINDERS (lembretes de saldo antes do check-in)
+-- ===========================================
+-- um lembrete por reserva e antecedência (DUNNING_OFFSETS_DAYS)
+CREATE TABLE payment_reminders (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reservation_id  UUID NOT NULL,
+  offset_days     INTEGER NOT NULL,
+  amount_due      NUMERIC(10,2) NOT NULL,
+  sent_at         TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_payment_reminders_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT uq_payment_reminders_offset UNIQUE (reservation_id, offset_days)
+);
+
+-- ===========================================
+-- CANCELLATION POLICIES (por filial ou por espaço)
+-- ===========================================
+CREATE TABLE cancellation_policies (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  branch_id   UUID,
+  space_id    UUID,
+  name        TEXT NOT NULL,
+  created_at  TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_cancellation_policies_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_cancellation_policies_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  -- pertence a uma filial OU a um espaço
+  CONSTRAINT chk_cancellation_policies_scope
+    CHECK ((branch_id IS NULL) <> (space_id IS NULL))
+);
+
+CREATE UNIQUE INDEX uq_cancellation_policies_branch
+  ON cancellation_policies (branch_id)
+  WHERE branch_id IS NOT NULL;
+
+CREATE UNIQUE INDEX uq_cancellation_policies_space
+  ON cancellation_policies (space_id)
+  WHERE space_id IS NOT NULL;
+
+-- Faixas: vale a de maior min_days_before atingida pela antecedência
+CREATE TABLE cancellation_policy_tiers (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id        UUID NOT NULL,
+  min_days_before  INT NOT NULL,
+  refund_pct       NUMERIC(5,2) NOT NULL,
+  refund_deposit   BOOLEAN NOT NULL DEFAULT TRUE,  -- false = sinal retido
+
+  CONSTRAINT fk_policy_tiers_policy
+    FOREIGN KEY (policy_id) REFERENCES cancellation_policies(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT uq_policy_tiers_days UNIQUE (policy_id, min_days_before),
+  CONSTRAINT chk_policy_tiers_days CHECK (min_days_before >= 0),
+  CONSTRAINT chk_policy_tiers_pct CHECK (refund_pct BETWEEN 0 AND 100)
+);
+
+-- ===========================================
+-- COUPONS (cupons de desconto)
+-- ===========================================
+CREATE TABLE coupons (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code             VARCHAR(40)   NOT NULL UNIQUE,  -- sempre em maiúsculas
+  description      TEXT,
+  discount_type    VARCHAR(10)   NOT NULL,
+  discount_value   NUMERIC(10,2) NOT NULL,
+  valid_from       TIMESTAMP,
+  valid_until      TIMESTAMP,
+  max_redemptions  INT,                            -- null = ilimitado
+  active           BOOLEAN       NOT NULL DEFAULT TRUE,
+  created_at       TIMESTAMP     NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMP     NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT chk_coupons_type CHECK (discount_type IN ('PERCENT', 'FIXED')),
+  CONSTRAINT chk_coupons_value CHECK (
+    discount_value > 0
+    AND (discount_type <> 'PERCENT' OR discount_value <= 100)
+  ),
+  CONSTRAINT chk_coupons_window CHECK (
+    valid_from IS NULL OR valid_until IS NULL OR valid_until >= valid_from
+  ),
+  CONSTRAINT chk_coupons_max CHECK (max_redemptions IS NULL OR max_redemptions > 0)
+);
+
+-- Restrição a filiais/espaços; cupom sem alvos vale em todos
+CREATE TABLE coupon_targets (
+  id         UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  coupon_id  UUID NOT NULL,
+  branch_id  UUID,
+  space_id   UUID,
+
+  CONSTRAINT fk_coupon_targets_coupon
+    FOREIGN KEY (coupon_id) REFERENCES coupons(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_coupon_targets_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_coupon_targets_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT chk_coupon_targets_scope
+    CHECK ((branch_id IS NULL) <> (space_id IS NULL))
+);
+
+CREATE INDEX idx_coupon_targets_coupon
+  ON coupon_targets (coupon_id);
+
+-- Um cupom por reserva; reservas canceladas não contam para max_redemptions
+CREATE TABLE coupon_redemptions (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  coupon_id        UUID          NOT NULL,
+  reservation_id   UUID          NOT NULL UNIQUE,
+  discount_amount  NUMERIC(10,2) NOT NULL,
+  created_at       TIMESTAMP     NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_coupon_redemptions_coupon
+    FOREIGN KEY (coupon_id) REFERENCES coupons(id)
+    ON DELETE RESTRICT,
+
+  CONSTRAINT fk_coupon_redemptions_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX idx_coupon_redemptions_coupon
+  ON coupon_redemptions (coupon_id);
+
+-- ===========================================
+-- ADD-ONS (catálogo de adicionais por filial)
+-- ===========================================
+CREATE TABLE addons (
+  id            UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  branch_id     UUID          NOT NULL,
+  name          VARCHAR(120)  NOT NULL,
+  description   TEXT,
+  pricing_mode  VARCHAR(10)   NOT NULL,  -- PER_UNIT | PER_GUEST (× adults_count)
+  unit_price    NUMERIC(10,2) NOT NULL,
+  active        BOOLEAN       NOT NULL DEFAULT TRUE,
+  created_at    TIMESTAMP     NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMP     NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_addons_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT chk_addons_pricing_mode CHECK (pricing_mode IN ('PER_UNIT', 'PER_GUEST')),
+  CONSTRAINT chk_addons_price CHECK (unit_price >= 0)
+);
+
+CREATE INDEX idx_addons_branch_active
+  ON addons (branch_id, active);
+
+-- Itens da reserva: nome e preço copiados do catálogo no momento da compra
+CREATE TABLE reservation_items (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reservation_id  UUID          NOT NULL,
+  addon_id        UUID,
+  name            VARCHAR(120)  NOT NULL,
+  pricing_mode    VARCHAR(10)   NOT NULL,
+  quantity        INT           NOT NULL,
+  unit_price      NUMERIC(10,2) NOT NULL,
+  amount          NUMERIC(10,2) NOT NULL,
+  created_at      TIMESTAMP     NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_reservation_items_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_reservation_items_addon
+    FOREIGN KEY (addon_id) REFERENCES addons(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_reservation_items_quantity CHECK (quantity > 0),
+  CONSTRAINT chk_reservation_items_amount CHECK (unit_price >= 0 AND amount >= 0)
+);
+
+CREATE INDEX idx_reservation_items_reservation
+  ON reservation_items (reservation_id);
+
+-- ===========================================
+-- WAITLIST (lista de espera por horário ocupado)
+-- ===========================================
+-- Quando o horário é liberado, a entrada mais antiga compatível recebe uma
+-- oferta: um HOLD em nome do cliente (offered_reservation_id) que vence em
+-- offer_expires_at. Converter o HOLD aceita a oferta.
+CREATE TABLE waitlist_entries (
+  id                      UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  space_id                UUID        NOT NULL,
+  branch_id               UUID        NOT NULL,
+  customer_id             UUID        NOT NULL,
+
+  check_in_date           DATE        NOT NULL,
+  check_out_date          DATE        NOT NULL,
+  start_time              TIME        NOT NULL,
+  end_time                TIME        NOT NULL,
+  adults_count            INT         NOT NULL,
+  notes                   TEXT,
+
+  status                  VARCHAR(10) NOT NULL DEFAULT 'WAITING',
+  offered_reservation_id  UUID,
+  offered_at              TIMESTAMP,
+  offer_expires_at        TIMESTAMP,
+
+  created_by              UUID,
+  created_at              TIMESTAMP   NOT NULL DEFAULT NOW(),
+  updated_at              TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_waitlist_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_waitlist_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id),
+
+  CONSTRAINT fk_waitlist_customer
+    FOREIGN KEY (customer_id) REFERENCES customers(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_waitlist_reservation
+    FOREIGN KEY (offered_reservation_id) REFERENCES reservations(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT fk_waitlist_created_by
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_waitlist_status
+    CHECK (status IN ('WAITING', 'OFFERED', 'ACCEPTED', 'EXPIRED', 'CANCELLED')),
+
+  CONSTRAINT chk_waitlist_adults CHECK (adults_count > 0),
+
+  CONSTRAINT chk_waitlist_period
+    CHECK ((check_in_date + start_time) < (check_out_date + end_time))
+);
+
+-- fila por espaço (ordem de chegada)
+CREATE INDEX idx_waitlist_space_status
+  ON waitlist_entries (space_id, status, created_at);
+
+CREATE INDEX idx_waitlist_customer
+  ON waitlist_entries (customer_id);
+
+-- ===========================================
+-- OPENING HOURS (horário de funcionamento)
+-- ===========================================
+-- Grade semanal da filial ou de um espaço. Se o espaço tiver grade própria,
+-- ela substitui a da filial por inteiro; sem nenhuma grade o espaço fica
+-- disponível 24h. Dia da semana sem linha = fechado. Pode haver mais de um
+-- turno no mesmo dia; close_time = '24:00' emenda com o dia seguinte.
+CREATE TABLE opening_hours (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  branch_id   UUID,
+  space_id    UUID,
+  weekday     SMALLINT  NOT NULL, -- 0 = domingo ... 6 = sábado
+  open_time   TIME      NOT NULL,
+  close_time  TIME      NOT NULL,
+  created_at  TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_opening_hours_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_opening_hours_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  -- pertence a uma filial OU a um espaço
+  CONSTRAINT chk_opening_hours_scope
+    CHECK ((branch_id IS NULL) <> (space_id IS NULL)),
+
+  CONSTRAINT chk_opening_hours_weekday CHECK (weekday BETWEEN 0 AND 6),
+  CONSTRAINT chk_opening_hours_times CHECK (close_time > open_time)
+);
+
+CREATE INDEX idx_opening_hours_branch
+  ON opening_hours (branch_id, weekday)
+  WHERE branch_id IS NOT NULL;
+
+CREATE INDEX idx_opening_hours_space
+  ON opening_hours (space_id, weekday)
+  WHERE space_id IS NOT NULL;
+
+-- ===========================================
+-- BLACKOUT DATES (datas bloqueadas)
+-- ===========================================
+-- Dias inteiros sem reservas (manutenção, feriado, evento interno).
+-- Os da filial valem para todos os espaços dela, somados aos do espaço.
+CREATE TABLE blackout_dates (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  branch_id   UUID,
+  space_id    UUID,
+  start_date  DATE      NOT NULL,
+  end_date    DATE      NOT NULL, -- inclusiva
+  reason      TEXT      NOT NULL,
+  created_by  UUID,
+  created_at  TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_blackout_dates_branch
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_blackout_dates_space
+    FOREIGN KEY (space_id) REFERENCES spaces(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_blackout_dates_created_by
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_blackout_dates_scope
+    CHECK ((branch_id IS NULL) <> (space_id IS NULL)),
+
+  CONSTRAINT chk_blackout_dates_range CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_blackout_dates_branch
+  ON blackout_dates (branch_id, end_date)
+  WHERE branch_id IS NOT NULL;
+
+CREATE INDEX idx_blackout_dates_space
+  ON blackout_dates (space_id, end_date)
+  WHERE space_id IS NOT NULL;
+
+-- ===========================================
+-- NOTIFICATIONS (outbox de avisos ao cliente)
+-- ===========================================
+-- Gravada na mesma transação da mudança da reserva/pagamento, já com o texto
+-- renderizado. O dispatcher envia pelo canal configurado (sent_via) e tenta
+-- de novo com espera crescente até NOTIFICATION_MAX_ATTEMPTS.
+CREATE TABLE notifications (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_type       TEXT        NOT NULL,
+  channel          VARCHAR(5)  NOT NULL,
+  recipient        TEXT        NOT NULL,
+  subject          TEXT,
+  body             TEXT        NOT NULL,
+
+  customer_id      UUID,
+  reservation_id   UUID,
+
+  status           VARCHAR(7)  NOT NULL DEFAULT 'PENDING',
+  attempts         INT         NOT NULL DEFAULT 0,
+  last_error       TEXT,
+  sent_via         TEXT,
+  next_attempt_at  TIMESTAMP   NOT NULL DEFAULT NOW(),
+  sent_at          TIMESTAMP,
+  created_at       TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_notifications_customer
+    FOREIGN KEY (customer_id) REFERENCES customers(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT fk_notifications_reservation
+    FOREIGN KEY (reservation_id) REFERENCES reservations(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_notifications_channel CHECK (channel IN ('EMAIL', 'SMS')),
+
+  CONSTRAINT chk_notifications_status CHECK (status IN ('PENDING', 'SENT', 'FAILED'))
+);
+
+-- fila do dispatcher
+CREATE INDEX idx_notifications_pending
+  ON notifications (next_attempt_at)
+  WHERE status = 'PENDING';
+
+CREATE INDEX idx_notifications_reservation
+  ON notifications (reservation_id);
+
+-- ===========================================
+-- WEBHOOKS DE SAÍDA (eventos para sistemas externos)
+-- ===========================================
+-- O ADMIN assina eventos (events) numa URL; cada entrega é assinada com o
+-- secret (HMAC-SHA256). As entregas são gravadas na mesma transação do evento
+-- e enviadas por um job, com novas tentativas até WEBHOOK_MAX_ATTEMPTS.
+CREATE TABLE webhook_subscriptions (
+  id           UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  url          TEXT      NOT NULL,
+  secret       TEXT      NOT NULL,
+  events       TEXT[]    NOT NULL,
+  description  TEXT,
+  active       BOOLEAN   NOT NULL DEFAULT TRUE,
+  created_by   UUID,
+  created_at   TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_webhook_subscriptions_created_by
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_webhook_subscriptions_events CHECK (cardinality(events) > 0)
+);
+
+-- uma linha por assinatura e evento; replay cria outra linha (replay_of)
+CREATE TABLE webhook_deliveries (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id  UUID        NOT NULL,
+  event_id         UUID        NOT NULL,
+  event_type       TEXT        NOT NULL,
+  payload          JSONB       NOT NULL,
+
+  status           VARCHAR(9)  NOT NULL DEFAULT 'PENDING',
+  attempts         INT         NOT NULL DEFAULT 0,
+  response_status  INT,
+  last_error       TEXT,
+  next_attempt_at  TIMESTAMP   NOT NULL DEFAULT NOW(),
+  delivered_at     TIMESTAMP,
+  replay_of        UUID,
+  created_at       TIMESTAMP   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_webhook_deliveries_subscription
+    FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions(id)
+    ON DELETE CASCADE,
+
+  CONSTRAINT fk_webhook_deliveries_replay_of
+    FOREIGN KEY (replay_of) REFERENCES webhook_deliveries(id)
+    ON DELETE SET NULL,
+
+  CONSTRAINT chk_webhook_deliveries_status
+    CHECK (status IN ('PENDING', 'DELIVERED', 'FAILED'))
+);
+
+-- fila do dispatcher
+CREATE INDEX idx_webhook_deliveries_pending
+  ON webhook_deliveries (next_attempt_at)
+  WHERE status = 'PENDING';
+
+-- log por assinatura
+CREATE INDEX idx_webhook_deliveries_subscription
+  ON webhook_deliveries (subscription_id, created_at);
@@ -5,19 +5,70 @@ import SpacesView from './views/SpacesView.vue';
 import CustomersView from './views/CustomersView.vue';
 import ReservationsView from './views/ReservationsView.vue';
 import PaymentsView from './views/PaymentsView.vue';
+import LoginView from './views/LoginView.vue';
+import SignupView from './views/SignupView.vue';
+import MyReservationsView from './views/MyReservationsView.vue';
+import MyProfileView from './views/MyProfileView.vue';
+import SpaceSearchView from './views/SpaceSearchView.vue';
+import CouponsView from './views/CouponsView.vue';
+import AddonsView from './views/AddonsView.vue';
+import OpeningHoursView from './views/OpeningHoursView.vue';
+import PaymentPlansView from './views/PaymentPlansView.vue';
+import ReceivablesView from './views/ReceivablesView.vue';
+import NotificationsView from './views/NotificationsView.vue';
+import WebhooksView from './views/WebhooksView.vue';
+import { useAuthStore } from './stores/authStore';
+import type { UserRole } from './types';
+
+const STAFF: UserRole[] = ['ADMIN', 'MANAGER'];
 
 const routes: RouteRecordRaw[] = [
-  { path: '/', redirect: '/branches' },
-  { path: '/branches', component: BranchesView },
-  { path: '/spaces', component: SpacesView },
-  { path: '/customers', component: CustomersView },
-  { path: '/reservations', component: ReservationsView },
-  { path: '/payments', component: PaymentsView }
+  { path: '/', redirect: () => homePath() },
+  { path: '/login', component: LoginView, meta: { public: true } },
+  { path: '/signup', component: SignupView, meta: { public: true } },
+  { path: '/branches', component: BranchesView, meta: { roles: STAFF } },
+  { path: '/spaces', component: SpacesView, meta: { roles: STAFF } },
+  { path: '/opening-hours', component: OpeningHoursView, meta: { roles: STAFF } },
+  { path: '/customers', component: CustomersView, meta: { roles: STAFF } },
+  { path: '/reservations', component: ReservationsView, meta: { roles: STAFF } },
+  { path: '/payments', component: PaymentsView, meta: { roles: STAFF } },
+  { path: '/payment-plans', component: PaymentPlansView, meta: { roles: STAFF } },
+  { path: '/receivables', component: ReceivablesView, meta: { roles: STAFF } },
+  { path: '/notifications', component: NotificationsView, meta: { roles: STAFF } },
+  { path: '/addons', component: AddonsView, meta: { roles: STAFF } },
+  { path: '/coupons', component: CouponsView, meta: { roles: ['ADMIN'] } },
+  { path: '/webhooks', component: WebhooksView, meta: { roles: ['ADMIN'] } },
+  { path: '/search', component: SpaceSearchView },
+  { path: '/me/reservations', component: MyReservationsView, meta: { roles: ['CUSTOMER'] } },
+  { path: '/me/profile', component: MyProfileView, meta: { roles: ['CUSTOMER'] } }
 ];
 
+// tela inicial depende do papel: cliente cai no portal, equipe no back-office
+function homePath(): string {
+  const { isCustomer } = useAuthStore();
+  return isCustomer.value ? '/me/reservations' : '/branches';
+}
+
 const router = createRouter({
   history: createWebHistory(),
   routes
 });
 
+// sem sessão, qualquer tela (exceto as públicas) manda pro login
+router.beforeEach((to) => {
+  const { isAuthenticated, user } = useAuthStore();
+  if (!to.meta.public && !isAuthenticated.value) {
+    return { path: '/login', query: { redirect: to.fullPath } };
+  }
+  if (to.meta.public && isAuthenticated.value) {
+    return homePath();
+  }
+
+  const roles = to.meta.roles as UserRole[] | undefined;
+  if (roles && user.value && !roles.includes(user.value.role)) {
+    return homePath();
+  }
+  return true;
+});
+
 export default router;
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { authHeaders, useAuthStore } from '@/stores/authStore';
 
 export const http = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000',
@@ -7,3 +8,27 @@ export const http = axios.create({
   },
   timeout: 10000
 });
+
+// injeta o access token em toda requisição
+http.interceptors.request.use((config) => {
+  Object.entries(authHeaders()).forEach(([key, value]) => {
+    config.headers.set(key, value);
+  });
+  return config;
+});
+
+// em 401 tenta renovar a sessão uma única vez e repete a chamada
+http.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const original = error.config;
+    if (error.response?.status === 401 && original && !original._retried) {
+      original._retried = true;
+      const { refreshSession } = useAuthStore();
+      if (await refreshSession()) {
+        return http(original);
+      }
+    }
+    return Promise.reject(error);
+  }
+);
@@ -0,0 +1,144 @@
+// src/stores/authStore.ts
+import { computed, ref } from "vue";
+import type { UserRole } from "@/types";
+
+export type AuthUser = {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  customer_id?: string | null;
+};
+
+export type SignupPayload = {
+  name: string;
+  email: string;
+  phone?: string | null;
+  password: string;
+};
+
+type AuthResponse = {
+  access_token: string;
+  refresh_token: string;
+  user: AuthUser;
+};
+
+const API_BASE = "http://localhost:3000";
+const STORAGE_KEY = "seu-cantinho:auth";
+
+function readStorage(): AuthResponse | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AuthResponse) : null;
+  } catch {
+    return null;
+  }
+}
+
+// estado global (sobrevive a reload via localStorage)
+const stored = readStorage();
+const accessToken = ref<string | null>(stored?.access_token ?? null);
+const refreshToken = ref<string | null>(stored?.refresh_token ?? null);
+const user = ref<AuthUser | null>(stored?.user ?? null);
+
+const isAuthenticated = computed(() => !!accessToken.value);
+const isCustomer = computed(() => user.value?.role === "CUSTOMER");
+
+function setSession(data: AuthResponse) {
+  accessToken.value = data.access_token;
+  refreshToken.value = data.refresh_token;
+  user.value = data.user;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+}
+
+function clearSession() {
+  accessToken.value = null;
+  refreshToken.value = null;
+  user.value = null;
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+async function login(email: string, password: string) {
+  const res = await fetch(`${API_BASE}/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || "login_failed");
+  }
+
+  setSession(await res.json());
+}
+
+async function signup(payload: SignupPayload) {
+  const res = await fetch(`${API_BASE}/auth/signup`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || "signup_failed");
+  }
+
+  setSession(await res.json());
+}
+
+/**
+ * Troca o refresh token por um novo par.
+ * Retorna false (e limpa a sessão) se não der pra renovar.
+ */
+async function refreshSession(): Promise<boolean> {
+  if (!refreshToken.value) return false;
+
+  const res = await fetch(`${API_BASE}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refresh_token: refreshToken.value }),
+  });
+
+  if (!res.ok) {
+    clearSession();
+    return false;
+  }
+
+  setSession(await res.json());
+  return true;
+}
+
+async function logout() {
+  if (refreshToken.value) {
+    await fetch(`${API_BASE}/auth/logout`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refresh_token: refreshToken.value }),
+    }).catch(() => undefined);
+  }
+  clearSession();
+}
+
+/**
+ * Header Authorization para as telas que usam fetch direto.
+ */
+export function authHeaders(): Record<string, string> {
+  return accessToken.value
+    ? { Authorization: `Bearer ${accessToken.value}` }
+    : {};
+}
+
+export function useAuthStore() {
+  return {
+    user,
+    accessToken,
+    isAuthenticated,
+    isCustomer,
+    login,
+    signup,
+    logout,
+    refreshSession,
+  };
+}
@@ -1,5 +1,6 @@
 // src/stores/branchesStore.ts
 import { ref } from "vue";
+import { authHeaders } from "./authStore";
 
 export type Branch = {
   id: string;
@@ -20,7 +21,9 @@ const loadingBranches = ref(false);
 async function loadBranches() {
   loadingBranches.value = true;
   try {
-    const res = await fetch(`${API_BASE}/branches`);
+    const res = await fetch(`${API_BASE}/branches`, {
+      headers: authHeaders(),
+    });
     if (!res.ok) throw new Error("failed to load branches");
     branches.value = await res.json();
   } finally {
@@ -38,6 +38,26 @@ export interface Space {
   // no banco/controlador: active BOOLEAN
   active?: boolean;
 
+  // preparação/limpeza em minutos (bloqueiam o espaço, não são cobrados)
+  buffer_before_minutes?: number;
+  buffer_after_minutes?: number;
+
+  created_at?: string | null;
+  updated_at?: string | null;
+
+  [key: string]: any;
+}
+
+// ===================================
+// Customer (cliente)
+// schema: customers
+// ===================================
+export interface Customer {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+
   created_at?: string | null;
   updated_at?: string | null;
 
@@ -69,7 +89,14 @@ export interface User {
 // Reservation
 // schema: reservations
 // ===================================
-export type ReservationStatus = 'PENDING' | 'CONFIRMED' | 'CANCELLED';
+export type ReservationStatus =
+  | 'HOLD'
+  | 'PENDING'
+  | 'CONFIRMED'
+  | 'CHECKED_IN'
+  | 'COMPLETED'
+  | 'NO_SHOW'
+  | 'CANCELLED';
 
 export interface Reservation {
   id: string;
@@ -102,6 +129,18 @@ export interface Reservation {
   [key: string]: any;
 }
 
+// Detalhamento do reembolso (política de cancelamento)
+export interface RefundBreakdown {
+  policy: { id: string; name: string; scope: 'SPACE' | 'BRANCH' } | null;
+  days_before_check_in: number;
+  tier: { min_days_before: number; refund_pct: number; refund_deposit: boolean } | null;
+  paid_total: number;
+  refundable_base: number;
+  refund_total: number;
+  retained_total: number;
+  lines: { payment_id: string; purpose: string; paid: number; refund: number }[];
+}
+
 // ===================================
 // Payment
 // schema/controlador: payments
@@ -140,6 +179,18 @@ export interface Payment {
   // código no provedor (opcional)
   external_ref: string | null;
 
+  // cobrança pelo provedor (registerPayment com charge = true)
+  provider?: string | null;
+  provider_payload?: {
+    status?: string;
+    pix?: { qr_code: string; expires_at: string } | null;
+    card_last4?: string | null;
+    decline_reason?: string | null;
+  } | null;
+
+  // soma dos reembolsos não FAILED
+  refunded_amount?: number;
+
   paid_at?: string | null;
   created_at?: string | null;
   updated_at?: string | null;
@@ -157,3 +208,208 @@ export interface Payment {
 
   [key: string]: any;
 }
+
+export type RefundStatus = 'PENDING' | 'COMPLETED' | 'FAILED';
+
+export interface Refund {
+  id: string;
+  payment_id: string;
+  reservation_id: string;
+  amount: number;
+  status: RefundStatus;
+  reason: string | null;
+  external_ref: string | null;
+  failure_reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type InstallmentStatus = 'PENDING' | 'PAID' | 'OVERDUE';
+
+export interface PaymentInstallment {
+  id: string;
+  plan_id: string;
+  seq: number;
+  due_date: string; // YYYY-MM-DD
+  amount: number;
+  paid_amount: number;
+  status: InstallmentStatus;
+  paid_at: string | null;
+  allocations?: { payment_id: string; amount: number }[];
+}
+
+export interface PaymentPlan {
+  id: string;
+  reservation_id: string;
+  status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+  covered_amount: number;
+  created_at: string;
+  installments: PaymentInstallment[];
+}
+
+// GET /payment-plans/upcoming
+export interface UpcomingInstallment extends PaymentInstallment {
+  reservation_id: string;
+  check_in_date: string;
+  reservation_status: ReservationStatus;
+  customer_name: string;
+  customer_email: string | null;
+  space_name: string;
+  branch_id: string;
+  branch_name: string;
+}
+
+export interface Receivable {
+  reservation_id: string;
+  space_name: string;
+  customer_name: string;
+  customer_email: string | null;
+  check_in_date: string;
+  status: ReservationStatus;
+  total_amount: number;
+  paid: number;
+  amount_due: number;
+  balance_due_date: string;
+  overdue: boolean;
+  at_risk_since: string | null;
+  last_reminder_offset: number | null;
+}
+
+export interface BranchReceivables {
+  branch_id: string;
+  branch_name: string;
+  reservations_count: number;
+  total_due: number;
+  overdue_due: number;
+  at_risk_count: number;
+  reservations: Receivable[];
+}
+
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+export interface CustomerNotification {
+  id: string;
+  event_type: string;
+  channel: 'EMAIL' | 'SMS';
+  recipient: string;
+  subject: string | null;
+  body: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  reservation_id: string | null;
+  status: NotificationStatus;
+  attempts: number;
+  last_error: string | null;
+  sent_via: string | null;
+  next_attempt_at: string;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export type WebhookEventType =
+  | 'reservation.created'
+  | 'reservation.confirmed'
+  | 'reservation.cancelled'
+  | 'payment.paid'
+  | 'payment.refunded'
+  | 'space.updated';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  active: boolean;
+  secret_hint: string;
+  secret?: string; // só na criação e ao trocar o secret
+  pending_deliveries: number;
+  failed_deliveries: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  url: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+  replay_of: string | null;
+  created_at: string;
+}
+
+export type DiscountType = 'PERCENT' | 'FIXED';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_redemptions: number | null;
+  redemptions_count: number;
+  active: boolean;
+  branch_ids: string[];
+  space_ids: string[];
+}
+
+export type AddonPricingMode = 'PER_UNIT' | 'PER_GUEST';
+
+export interface Addon {
+  id: string;
+  branch_id: string;
+  name: string;
+  description: string | null;
+  pricing_mode: AddonPricingMode;
+  unit_price: number;
+  active: boolean;
+}
+
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'ACCEPTED' | 'EXPIRED' | 'CANCELLED';
+
+export interface WaitlistEntry {
+  id: string;
+  space_id: string;
+  customer_id: string;
+  check_in_date: string;
+  check_out_date: string;
+  start_time: string;
+  end_time: string;
+  adults_count: number;
+  notes: string | null;
+  status: WaitlistStatus;
+  position?: number | null;
+  offered_reservation_id: string | null;
+  offer_expires_at: string | null;
+  created_at: string;
+  customer_name?: string;
+  space_name?: string;
+}
+
+// turno da grade semanal (0 = domingo); close_time '24:00' = até o fim do dia
+export interface OpeningHour {
+  weekday: number;
+  open_time: string;
+  close_time: string;
+}
+
+export interface Blackout {
+  id: string;
+  branch_id: string | null;
+  space_id: string | null;
+  space_name?: string | null;
+  start_date: string;
+  end_date: string;
+  reason: string;
+}